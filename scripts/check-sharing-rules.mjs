@@ -0,0 +1,133 @@
+// Checks database.rules.json against the Firebase Realtime Database emulator:
+//
+//   npm run test:rules
+//
+// That starts the emulator with firebase-tools (which needs Java) and runs this script
+// against it. To run it on its own, start the emulator first and point the script at it
+// with FIREBASE_DATABASE_EMULATOR_HOST (defaults to 127.0.0.1:9000).
+//
+// Requests go through the emulator's REST API. The emulator doesn't check signatures, so
+// each user is an unsigned ID token with just their uid in it.
+
+import { readFile } from 'node:fs/promises';
+
+const HOST = process.env.FIREBASE_DATABASE_EMULATOR_HOST || '127.0.0.1:9000';
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'demo-player-auction';
+const NAMESPACE = `${PROJECT_ID}-default-rtdb`;
+
+const AUCTIONEER = 'auctioneer';
+const VIEWER = 'viewer';
+const OWNER_CONSOLE = 'owner-console';
+
+// --- Emulator requests ------------------------------------------------------
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const tokenFor = (uid) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({
+    iss: `https://securetoken.google.com/${PROJECT_ID}`,
+    aud: PROJECT_ID,
+    sub: uid,
+    user_id: uid,
+    iat: issuedAt,
+    exp: issuedAt + 3600,
+    firebase: { sign_in_provider: 'anonymous', identities: {} },
+  })}.`;
+};
+
+// uid null is an unauthenticated client, 'admin' skips the rules
+const request = async (method, path, uid, body) => {
+  const url = new URL(`http://${HOST}/${path}.json`);
+  url.searchParams.set('ns', NAMESPACE);
+  const headers = {};
+  if (uid === 'admin') {
+    headers.Authorization = 'Bearer owner';
+  } else if (uid) {
+    url.searchParams.set('auth', tokenFor(uid));
+  }
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return response.ok;
+};
+
+const read = (uid, path) => request('GET', path, uid);
+const set = (uid, path, value) => request('PUT', path, uid, value);
+const update = (uid, path, values) => request('PATCH', path, uid, values);
+
+// --- Cases ------------------------------------------------------------------
+
+const auction = (createdBy) => ({
+  catalog: { players: { p1: { id: 'p1', name: 'Player One' } } },
+  live: { tournament: { name: 'Test Auction', currentPlayerIndex: 0 } },
+  isActive: true,
+  createdBy,
+  createdAt: 0,
+  lastUpdated: 0,
+});
+
+const teamKeys = { 'team-1': 'team-1-key', 'team-2': 'team-2-key' };
+
+const bid = (status, requestedBy = OWNER_CONSOLE) => ({
+  id: 'bid-1', teamId: 'team-1', key: 'team-1-key', playerId: 'p1', type: 'BID', amount: 200, status, requestedBy, requestedAt: 0,
+});
+
+const cases = [
+  ['auctioneer shares an auction', true, () => set(AUCTIONEER, 'shared-auctions/a1', auction(AUCTIONEER))],
+  ['signed-out client cannot share an auction', false, () => set(null, 'shared-auctions/a2', auction(AUCTIONEER))],
+  ['client cannot share an auction in someone else\'s name', false, () => set(VIEWER, 'shared-auctions/a3', auction(AUCTIONEER))],
+  ['anyone can read a shared auction', true, () => read(null, 'shared-auctions/a1')],
+  ['nobody can list every shared auction', false, () => read(VIEWER, 'shared-auctions')],
+  ['auctioneer syncs live state', true, () => update(AUCTIONEER, 'shared-auctions/a1', { 'live/tournament/currentPlayerIndex': 1, lastUpdated: 1 })],
+  ['viewer cannot change live state', false, () => update(VIEWER, 'shared-auctions/a1', { 'live/tournament/currentPlayerIndex': 5 })],
+  ['viewer cannot overwrite the auction', false, () => set(VIEWER, 'shared-auctions/a1', auction(VIEWER))],
+  ['viewer cannot take over the auction', false, () => set(VIEWER, 'shared-auctions/a1/createdBy', VIEWER)],
+  ['auctioneer cannot hand the auction to someone else', false, () => set(AUCTIONEER, 'shared-auctions/a1/createdBy', VIEWER)],
+  ['viewer registers themselves', true, () => set(VIEWER, `shared-auctions/a1/viewers/${VIEWER}`, { id: VIEWER, name: 'Fan', isActive: true, joinedAt: 0 })],
+  ['viewer cannot register someone else', false, () => set(VIEWER, 'shared-auctions/a1/viewers/someone-else', { id: 'someone-else', name: 'Fan', isActive: true, joinedAt: 0 })],
+  ['signed-out client cannot register as a viewer', false, () => set(null, `shared-auctions/a1/viewers/${VIEWER}`, { id: VIEWER, name: 'Fan', isActive: true, joinedAt: 0 })],
+  ['viewer cannot join an auction that doesn\'t exist', false, () => set(VIEWER, `shared-auctions/missing/viewers/${VIEWER}`, { id: VIEWER, name: 'Fan', isActive: true, joinedAt: 0 })],
+  ['auctioneer stores the team console keys', true, () => set(AUCTIONEER, 'shared-auction-keys/a1', teamKeys)],
+  ['viewer cannot store console keys', false, () => set(VIEWER, 'shared-auction-keys/a1/team-1', 'my-own-key')],
+  ['owner console cannot read the console keys', false, () => read(OWNER_CONSOLE, 'shared-auction-keys/a1')],
+  ['owner console cannot read its own team\'s key back', false, () => read(OWNER_CONSOLE, 'shared-auction-keys/a1/team-1')],
+  ['auctioneer reads the console keys', true, () => read(AUCTIONEER, 'shared-auction-keys/a1')],
+  ['owner console cannot queue a bid without its team\'s key', false, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-4', { ...bid('pending'), id: 'bid-4', key: 'guessed-key' })],
+  ['owner console cannot bid for another team with its own key', false, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-5', { ...bid('pending'), id: 'bid-5', teamId: 'team-2' })],
+  ['owner console queues a bid', true, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-1', bid('pending'))],
+  ['owner console reads back its own bid', true, () => read(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-1')],
+  ['viewer cannot read someone else\'s bid', false, () => read(VIEWER, 'shared-auction-bids/a1/bid-1')],
+  ['viewer cannot read the bid queue', false, () => read(VIEWER, 'shared-auction-bids/a1')],
+  ['auctioneer reads the bid queue', true, () => read(AUCTIONEER, 'shared-auction-bids/a1')],
+  ['owner console cannot accept its own bid', false, () => update(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-1', { status: 'accepted' })],
+  ['owner console cannot queue an accepted bid', false, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-2', { ...bid('accepted'), id: 'bid-2' })],
+  ['owner console cannot queue a bid in someone else\'s name', false, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-3', { ...bid('pending', VIEWER), id: 'bid-3' })],
+  ['auctioneer resolves a queued bid', true, () => update(AUCTIONEER, 'shared-auction-bids/a1/bid-1', { status: 'accepted' })],
+  ['auctioneer clears the console keys', true, () => set(AUCTIONEER, 'shared-auction-keys/a1', null)],
+  ['owner console cannot queue a bid once the keys are gone', false, () => set(OWNER_CONSOLE, 'shared-auction-bids/a1/bid-6', { ...bid('pending'), id: 'bid-6' })],
+  ['auctioneer ends the auction', true, () => set(AUCTIONEER, 'shared-auctions/a1', { isActive: false, createdBy: AUCTIONEER, endedAt: 0 })],
+  ['viewer cannot join an ended auction', false, () => set(VIEWER, `shared-auctions/a1/viewers/${VIEWER}`, { id: VIEWER, name: 'Fan', isActive: true, joinedAt: 0 })],
+];
+
+// --- Run --------------------------------------------------------------------
+
+const rules = await readFile(new URL('../database.rules.json', import.meta.url), 'utf8');
+if (!(await request('PUT', '.settings/rules', 'admin', JSON.parse(rules)))) {
+  console.error(`Could not load database.rules.json into the emulator at ${HOST}`);
+  process.exit(1);
+}
+await set('admin', '', null);
+
+let failures = 0;
+for (const [name, expected, run] of cases) {
+  const allowed = await run();
+  if (allowed !== expected) failures++;
+  console.log(`${allowed === expected ? 'ok  ' : 'FAIL'}  ${name} (${allowed ? 'allowed' : 'denied'})`);
+}
+
+console.log(`\n${cases.length - failures}/${cases.length} rule checks passed`);
+process.exit(failures > 0 ? 1 : 0);
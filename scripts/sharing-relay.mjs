@@ -0,0 +1,305 @@
+// Self-hosted relay for live sharing over WebSocket, for venues without internet access.
+// Holds the shared auction data in memory and pushes every change to subscribed clients.
+// Uses only Node built-ins:
+//
+//   npm run relay                 # listens on port 8787
+//   PORT=9000 npm run relay
+//
+// Point the app at it with VITE_SHARING_TRANSPORT=websocket and VITE_SHARING_RELAY_URL=ws://<host>:<port>,
+// or by opening it with ?transport=websocket&relay=ws://<host>:<port>.
+//
+// Reads and writes are checked the same way database.rules.json checks them on Firebase.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// --- Shared data ------------------------------------------------------------
+
+let root = null;
+
+const splitPath = (path) => String(path).split('/').filter(Boolean);
+
+const pathsOverlap = (a, b) => {
+  const left = splitPath(a);
+  const right = splitPath(b);
+  const length = Math.min(left.length, right.length);
+  return left.slice(0, length).every((segment, index) => segment === right[index]);
+};
+
+const getValue = (path) => {
+  let node = root;
+  for (const segment of splitPath(path)) {
+    if (node === null || typeof node !== 'object') return null;
+    node = node[segment] ?? null;
+  }
+  return node;
+};
+
+const setValue = (path, value) => {
+  const segments = splitPath(path);
+  const copy = value === undefined ? null : value;
+  if (segments.length === 0) {
+    root = copy;
+    return;
+  }
+
+  if (root === null || typeof root !== 'object') root = {};
+  let node = root;
+  for (const segment of segments.slice(0, -1)) {
+    if (node[segment] === null || typeof node[segment] !== 'object') node[segment] = {};
+    node = node[segment];
+  }
+
+  const last = segments[segments.length - 1];
+  if (copy === null) {
+    delete node[last];
+  } else {
+    node[last] = copy;
+  }
+};
+
+// Clients send { '.sv': 'timestamp' } for the time of the write, like Firebase's server
+// timestamps, so every time in the shared data comes from this one clock
+const fillServerTimestamps = (value, now) => {
+  if (value === null || typeof value !== 'object') return value;
+  if (value['.sv'] === 'timestamp') return now;
+  if (Array.isArray(value)) return value.map(item => fillServerTimestamps(item, now));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillServerTimestamps(item, now)]));
+};
+
+// --- Permissions (the same as database.rules.json) --------------------------
+
+const canWrite = (uid, path, value) => {
+  const [top, auctionId, child, childId] = splitPath(path);
+  if (!uid || !auctionId) return false;
+
+  const owner = getValue(`shared-auctions/${auctionId}/createdBy`);
+  const isActive = getValue(`shared-auctions/${auctionId}/isActive`) === true;
+
+  // Only the auctioneer holds the teams' console keys
+  if (top === 'shared-auction-keys') return owner === uid;
+
+  if (top === 'shared-auction-bids') {
+    // Owner consoles add new pending requests in their own name, with their team's key;
+    // only the auctioneer resolves them
+    if (!child) return false;
+    if (owner === uid) return true;
+    const teamKey = value?.teamId ? getValue(`shared-auction-keys/${auctionId}/${value.teamId}`) : null;
+    return isActive && childId === undefined && getValue(path) === null
+      && value?.status === 'pending' && value?.requestedBy === uid
+      && teamKey !== null && value?.key === teamKey;
+  }
+
+  if (top !== 'shared-auctions') return false;
+  if (child === undefined) {
+    // Creating, replacing or removing the whole auction
+    return (owner === null || owner === uid) && (value === null || value?.createdBy === uid);
+  }
+  if (owner === null) return false;
+  if (owner === uid) return child !== 'createdBy' || value === uid;
+
+  // Viewers register themselves only
+  return child === 'viewers' && isActive && childId === uid;
+};
+
+const canRead = (uid, path) => {
+  const [top, auctionId, requestId] = splitPath(path);
+  if (!auctionId) return false;
+
+  if (top === 'shared-auctions') return true;
+
+  const isOwner = !!uid && getValue(`shared-auctions/${auctionId}/createdBy`) === uid;
+  if (top === 'shared-auction-keys') return isOwner;
+  if (top === 'shared-auction-bids') {
+    // The auctioneer reads the queue; a console reads back only the requests it made
+    return isOwner || (!!uid && !!requestId && getValue(`shared-auction-bids/${auctionId}/${requestId}/requestedBy`) === uid);
+  }
+  return false;
+};
+
+// --- Clients ----------------------------------------------------------------
+
+const clients = new Set(); // { socket, uid, paths: Set<string> }
+
+const sendValue = (client, path) => {
+  sendText(client.socket, JSON.stringify({ op: 'value', path, value: getValue(path) }));
+};
+
+const notify = (changedPath) => {
+  clients.forEach(client => {
+    client.paths.forEach(path => {
+      if (pathsOverlap(path, changedPath) && canRead(client.uid, path)) sendValue(client, path);
+    });
+  });
+};
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+
+  switch (message.op) {
+    case 'auth':
+      // The token stays with the client; everyone else only sees the id it hashes to
+      client.uid = createHash('sha256').update(String(message.token)).digest('hex').slice(0, 28);
+      // The relay's clock goes along so clients can count down to times it stamped
+      sendText(client.socket, JSON.stringify({ op: 'signed-in', uid: client.uid, serverTime: Date.now() }));
+      break;
+    case 'set': {
+      const value = fillServerTimestamps(message.value ?? null, Date.now());
+      if (!canWrite(client.uid, message.path, value)) {
+        sendText(client.socket, JSON.stringify({ op: 'denied', id: message.id, path: message.path }));
+        break;
+      }
+      setValue(message.path, value);
+      sendText(client.socket, JSON.stringify({ op: 'ack', id: message.id }));
+      notify(message.path);
+      break;
+    }
+    case 'update': {
+      const entries = Object.entries(fillServerTimestamps(message.values ?? {}, Date.now()));
+      // All or nothing, like a Firebase update
+      if (!entries.every(([key, value]) => canWrite(client.uid, `${message.path}/${key}`, value ?? null))) {
+        sendText(client.socket, JSON.stringify({ op: 'denied', id: message.id, path: message.path }));
+        break;
+      }
+      entries.forEach(([key, value]) => setValue(`${message.path}/${key}`, value));
+      sendText(client.socket, JSON.stringify({ op: 'ack', id: message.id }));
+      notify(message.path);
+      break;
+    }
+    case 'subscribe':
+      if (!canRead(client.uid, message.path)) {
+        sendText(client.socket, JSON.stringify({ op: 'read-denied', path: message.path }));
+        break;
+      }
+      client.paths.add(message.path);
+      sendValue(client, message.path);
+      break;
+    case 'unsubscribe':
+      client.paths.delete(message.path);
+      break;
+  }
+};
+
+// --- WebSocket framing (RFC 6455, text frames only) -------------------------
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const sendText = (socket, text) => {
+  if (!socket.destroyed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+};
+
+// Pulls complete frames off the front of the buffer
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    let length = second & 0x7f;
+    let position = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < position + 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length < position + 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+
+    const masked = (second & 0x80) !== 0;
+    const mask = masked ? buffer.subarray(position, position + 4) : null;
+    if (masked) position += 4;
+    if (buffer.length < position + length) break;
+
+    const payload = Buffer.from(buffer.subarray(position, position + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    onFrame({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = position + length;
+  }
+  return buffer.subarray(offset);
+};
+
+// --- Server -----------------------------------------------------------------
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end(`Player auction sharing relay - ${clients.size} client(s) connected\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, uid: null, paths: new Set() };
+  clients.add(client);
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  socket.on('data', (chunk) => {
+    pending = readFrames(Buffer.concat([pending, chunk]), ({ fin, opcode, payload }) => {
+      switch (opcode) {
+        case 0x0: // continuation
+        case 0x1: // text
+          fragments.push(payload);
+          if (fin) {
+            handleMessage(client, Buffer.concat(fragments).toString('utf8'));
+            fragments = [];
+          }
+          break;
+        case 0x8: // close
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+          break;
+        case 0x9: // ping
+          socket.write(encodeFrame(0xa, payload));
+          break;
+      }
+    });
+  });
+
+  const disconnect = () => clients.delete(client);
+  socket.on('close', disconnect);
+  socket.on('error', disconnect);
+});
+
+server.listen(PORT, () => {
+  console.log(`Sharing relay listening on ws://localhost:${PORT}`);
+});
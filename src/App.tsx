@@ -1,15 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useAuctionStore } from './store/auctionStore';
+import { isDraft } from './engine/auctionEngine';
 import { useConfirmation } from './hooks/useConfirmation';
 import { RotateCcw, Zap, AlertTriangle } from 'lucide-react';
 import TournamentSetup from './components/TournamentSetup';
 import PlayerInventory from './components/PlayerInventory';
+import RetentionSetup from './components/RetentionSetup';
 import TeamSetup from './components/TeamSetup';
 import AuctionRoom from './components/AuctionRoom';
+import DraftRoom from './components/DraftRoom';
 import Dashboard from './components/Dashboard';
 import AuctionHistory from './components/AuctionHistory';
 
-type AppStep = 'tournament' | 'players' | 'teams' | 'auction' | 'results' | 'history';
+type AppStep = 'tournament' | 'players' | 'retentions' | 'teams' | 'auction' | 'results' | 'history';
 
 function App() {
   const { tournament, clearStorage, restartAuction, loadTournament, saveCurrentAuction } = useAuctionStore();
@@ -43,6 +46,7 @@ function App() {
         return true; // Can always go back to setup
       case 'players':
         return tournament !== null;
+      case 'retentions':
       case 'teams':
         return tournament !== null && tournament.players.length > 0;
       case 'auction':
@@ -123,21 +127,31 @@ function App() {
       case 'players':
         return (
           <PlayerInventory
-            onNext={() => handleStepChange('teams')}
+            onNext={() => handleStepChange('retentions')}
             onBack={() => handleStepChange('tournament')}
           />
         );
 
+      case 'retentions':
+        return (
+          <RetentionSetup
+            onNext={() => handleStepChange('teams')}
+            onBack={() => handleStepChange('players')}
+          />
+        );
+
       case 'teams':
         return (
           <TeamSetup
             onNext={() => handleStepChange('auction')}
-            onBack={() => handleStepChange('players')}
+            onBack={() => handleStepChange('retentions')}
           />
         );
 
       case 'auction':
-        return <AuctionRoom onComplete={() => handleStepChange('results')} />;
+        return tournament && isDraft(tournament)
+          ? <DraftRoom onComplete={() => handleStepChange('results')} />
+          : <AuctionRoom onComplete={() => handleStepChange('results')} />;
 
       case 'results':
         return <Dashboard
@@ -213,17 +227,19 @@ function App() {
               {[
                 { id: 'tournament', label: 'Setup', step: 1, icon: '⚙️' },
                 { id: 'players', label: 'Players', step: 2, icon: '👥' },
-                { id: 'teams', label: 'Teams', step: 3, icon: '🏆' },
-                { id: 'auction', label: 'Auction', step: 4, icon: '🔨' },
-                { id: 'results', label: 'Results', step: 5, icon: '📊' },
+                { id: 'retentions', label: 'Retain', step: 3, icon: '🔒' },
+                { id: 'teams', label: 'Teams', step: 4, icon: '🏆' },
+                { id: 'auction', label: 'Auction', step: 5, icon: '🔨' },
+                { id: 'results', label: 'Results', step: 6, icon: '📊' },
               ].map(({ id, label, step, icon }) => {
                 const isActive = currentStep === id;
                 const canNavigate = canNavigateToStep(id as AppStep);
                 const isCompleted =
                   (currentStep === 'players' && step === 1) ||
-                  (currentStep === 'teams' && step <= 2) ||
-                  (currentStep === 'auction' && step <= 3) ||
-                  (currentStep === 'results' && step <= 4);
+                  (currentStep === 'retentions' && step <= 2) ||
+                  (currentStep === 'teams' && step <= 3) ||
+                  (currentStep === 'auction' && step <= 4) ||
+                  (currentStep === 'results' && step <= 5);
 
                 return (
                   <div key={id} className="flex items-center">
@@ -250,7 +266,7 @@ function App() {
                     >
                       {label}
                     </span>
-                    {step < 5 && (
+                    {step < 6 && (
                       <div className="w-4 h-0.5 bg-white/30 mx-2" />
                     )}
                   </div>
@@ -346,17 +362,19 @@ function App() {
               {[
                 { id: 'tournament', label: 'Setup', step: 1, icon: '⚙️' },
                 { id: 'players', label: 'Players', step: 2, icon: '👥' },
-                { id: 'teams', label: 'Teams', step: 3, icon: '🏆' },
-                { id: 'auction', label: 'Auction', step: 4, icon: '🔨' },
-                { id: 'results', label: 'Results', step: 5, icon: '📊' },
+                { id: 'retentions', label: 'Retain', step: 3, icon: '🔒' },
+                { id: 'teams', label: 'Teams', step: 4, icon: '🏆' },
+                { id: 'auction', label: 'Auction', step: 5, icon: '🔨' },
+                { id: 'results', label: 'Results', step: 6, icon: '📊' },
               ].map(({ id, label, step, icon }) => {
                 const isActive = currentStep === id;
                 const canNavigate = canNavigateToStep(id as AppStep);
                 const isCompleted =
                   (currentStep === 'players' && step === 1) ||
-                  (currentStep === 'teams' && step <= 2) ||
-                  (currentStep === 'auction' && step <= 3) ||
-                  (currentStep === 'results' && step <= 4);
+                  (currentStep === 'retentions' && step <= 2) ||
+                  (currentStep === 'teams' && step <= 3) ||
+                  (currentStep === 'auction' && step <= 4) ||
+                  (currentStep === 'results' && step <= 5);
 
                 return (
                   <div key={id} className="flex items-center flex-shrink-0">
@@ -376,7 +394,7 @@ function App() {
                     >
                       {icon}
                     </button>
-                    {step < 5 && (
+                    {step < 6 && (
                       <div className="w-2 h-0.5 bg-white/30 mx-1" />
                     )}
                   </div>
@@ -1,14 +1,43 @@
-import React, { useState, useEffect } from 'react';
-import { Timer, Trophy, SkipForward, Zap, Undo, Share2, Copy, Users, Save } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Timer, Trophy, SkipForward, Zap, Undo, Redo, Share2, Copy, Users, Save, FastForward, Pause, Play } from 'lucide-react';
 import { useAuctionStore } from '../store/auctionStore';
-import { formatCurrency } from '../utils/excelUtils';
+import { formatAuctionRound, formatCurrency, formatFeasibilityIssue, formatHammerPhase, formatRejectionReason } from '../utils/excelUtils';
+import {
+  areAcceleratedNominationsOpen,
+  areNominationsOpen,
+  canStartAccelerated,
+  getAuctionRound,
+  getCurrentNomination,
+  getDutchPrice,
+  getBidIncrement,
+  getMinimumNextBid,
+  getNextPlayer,
+  getNominationShortlist,
+  getPlayersLeftInSet,
+  getRtmTeam,
+  getSaleFeasibilityIssues,
+  getTeamTimeoutSeconds,
+  getTimeoutsLeft,
+  getUnsoldPlayers,
+  getUnsoldRoundConfig,
+  isDutchAuction,
+  isSealedBid,
+  type ActionResult,
+} from '../engine/auctionEngine';
 import { useAuctionSharing } from '../hooks/useAuctionSharing';
+import { useConfirmation } from '../hooks/useConfirmation';
+import { useCountdown } from '../hooks/useCountdown';
+import { auctionSharingService } from '../services/auctionSharingService';
 import ShareAuctionDemo from './ShareAuctionDemo';
 import ToastContainer from './ToastContainer';
 import { useToast } from '../hooks/useToast';
 import TeamCard from './TeamCard';
 import PlayerImage from './PlayerImage';
 import SaveAuctionDialog from './SaveAuctionDialog';
+import NominationPanel from './NominationPanel';
+import SealedBidPanel from './SealedBidPanel';
+import DutchAuctionPanel from './DutchAuctionPanel';
+import ProxyBidPanel from './ProxyBidPanel';
 
 interface AuctionRoomProps {
   onComplete: () => void;
@@ -21,18 +50,30 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     settings,
     placeBid,
     passTeam,
-    soldPlayer,
-    unsoldPlayer,
     markPlayerSold,
     markPlayerUnsold,
+    matchRtm,
+    declineRtm,
     advanceToNextPlayer,
     setPreventAutoAdvance,
+    nominateUnsoldPlayers,
+    openAcceleratedNominations,
+    nominatePlayers,
+    tickDutchPrice,
+    claimPlayer,
+    restartTimer,
+    stopTimer,
+    pauseAuction,
+    resumeAuction,
+    callTeamTimeout,
 
     getCurrentPlayer,
     getEligibleTeams,
     startAuction,
-    undoBid,
+    undo,
+    redo,
     canUndo,
+    canRedo,
     getMaxBidForTeam,
     endAuction,
     areAllTeamsFull,
@@ -41,7 +82,6 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
 
   const [selectedTeam, setSelectedTeam] = useState<string>('');
   const [bidAmount, setBidAmount] = useState<number>(0);
-  const [timer, setTimer] = useState(tournament?.settings.timerDuration || 30);
   const [showBidInput, setShowBidInput] = useState(false);
   const [allTeamsExpanded, setAllTeamsExpanded] = useState<boolean | null>(null);
   const [showEndAuctionDialog, setShowEndAuctionDialog] = useState(false);
@@ -55,7 +95,8 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
   const [shuffleCounter, setShuffleCounter] = useState(0);
 
   // Toast notifications
-  const { toasts, removeToast, success, warning } = useToast();
+  const { toasts, removeToast, success, warning, info } = useToast();
+  const { showConfirmation, ConfirmationComponent } = useConfirmation();
 
   // Auction sharing hook
   const { sharingState, startSharing, stopSharing, copyShareUrl, syncAuctionState } = useAuctionSharing();
@@ -64,12 +105,17 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
   const eligibleTeams = getEligibleTeams();
   const allTeamsFull = areAllTeamsFull();
 
+  // The store holds the deadline and the call; the clock on screen counts down to the deadline
+  const pausedAt = tournament?.pause ? new Date(tournament.pause.startedAt).getTime() : undefined;
+  const secondsLeft = useCountdown(auctionState.timerDeadline, pausedAt) ?? auctionState.timer;
+  const { hammerPhase } = auctionState;
+
   // Helper function to get auctionable player count (excluding captains)
   const getAuctionablePlayerCount = () => {
     if (!tournament) return 0;
     const captains = tournament.players.filter(p => p.isCaptain);
     const hasCaptains = captains.length === tournament.numberOfTeams;
-    return tournament.players.filter(p => !hasCaptains || !p.isCaptain).length;
+    return tournament.players.filter(p => !p.isRetained && (!hasCaptains || !p.isCaptain)).length;
   };
 
   // Helper function to get current auction progress (excluding captains)
@@ -82,7 +128,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     let currentAuctionableIndex = 0;
     for (let i = 0; i <= tournament.currentPlayerIndex && i < tournament.players.length; i++) {
       const player = tournament.players[i];
-      if (!hasCaptains || !player.isCaptain) {
+      if (!player.isRetained && (!hasCaptains || !player.isCaptain)) {
         if (i === tournament.currentPlayerIndex) {
           break;
         }
@@ -100,11 +146,8 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
   }, [tournament, startAuction]);
 
   useEffect(() => {
-    if (currentPlayer) {
-      const minBid = auctionState.highestBid?.amount
-        ? auctionState.highestBid.amount + Number(settings.bidIncrement)
-        : currentPlayer.basePrice || tournament?.settings.minimumBid || 100;
-      setBidAmount(minBid);
+    if (currentPlayer && tournament) {
+      setBidAmount(getMinimumNextBid(tournament, auctionState, currentPlayer));
     }
   }, [currentPlayer, auctionState.highestBid, settings.bidIncrement]);
 
@@ -114,54 +157,142 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     }
   }, [tournament?.isAuctionCompleted, onComplete]);
 
-  // Timer logic
+  // The clock closes players: the store drops the hammer when open bidding runs out of time,
+  // and in the Dutch format the price drops every second until a team claims or it hits the base price
+  const hammerFellOn = auctionState.hammerFellOn;
+  const announcedHammerRef = useRef<string | null>(null);
+  // Claims from the owners' consoles close the player the same way as claims made on this screen
+  const claimForTeamRef = useRef<(teamId: string) => ActionResult>(() => ({ ok: false, reason: 'NO_CURRENT_PLAYER' }));
   useEffect(() => {
-    if (!auctionState.isActive || !currentPlayer || !tournament?.settings.enableTimer) return;
+    // Announce each hammer once and move on to the next player
+    if (!hammerFellOn) {
+      announcedHammerRef.current = null;
+    } else if (tournament && announcedHammerRef.current !== hammerFellOn) {
+      announcedHammerRef.current = hammerFellOn;
+
+      const player = tournament.players.find(p => p.id === hammerFellOn);
+      const winningTeam = tournament.teams.find(t => t.id === player?.teamId);
+      if (winningTeam) {
+        success(
+          `${player?.name} AUTO-SOLD!`,
+          `Time expired - Bought by ${winningTeam.name} for ${formatCurrency(player?.soldPrice || 0)}`,
+          5000
+        );
+      } else {
+        warning(
+          `${player?.name} UNSOLD`,
+          'Time expired - No bids received',
+          4000
+        );
+      }
+
+      setIsShuffling(true);
+      syncAuctionState(true);
+      setTimeout(() => {
+        startPlayerShuffle();
+      }, 500);
+      return;
+    }
+
+    // The price holds while a former team decides on its Right-to-Match card
+    if (!auctionState.isActive || !currentPlayer || !tournament || auctionState.pendingRtm) return;
+    if (!isDutchAuction(tournament) || auctionState.highestBid || isShuffling || tournament.pause) return;
 
     const interval = setInterval(() => {
-      setTimer((prev) => {
-        if (prev <= 1) {
-          // Auto-sell or mark unsold
-          if (auctionState.highestBid && tournament) {
-            const winningTeam = tournament.teams.find(t => t.id === auctionState.highestBid?.teamId);
-            success(
-              `${currentPlayer?.name} AUTO-SOLD!`,
-              `Time expired - Bought by ${winningTeam?.name || 'Unknown Team'} for ${formatCurrency(auctionState.highestBid.amount)}`,
-              5000
-            );
-            // Immediately set shuffling to prevent "Auction Completed" flash
-            setIsShuffling(true);
-            // Prevent getCurrentPlayer from auto-advancing
-            setPreventAutoAdvance(true);
-            markPlayerSold();
-            // Start shuffling animation for next player
-            setTimeout(() => {
-              startPlayerShuffle();
-            }, 500);
-          } else {
-            warning(
-              `${currentPlayer?.name} UNSOLD`,
-              'Time expired - No bids received',
-              4000
-            );
-            // Immediately set shuffling to prevent "Auction Completed" flash
-            setIsShuffling(true);
-            // Prevent getCurrentPlayer from auto-advancing
-            setPreventAutoAdvance(true);
-            markPlayerUnsold();
-            // Start shuffling animation for next player
-            setTimeout(() => {
-              startPlayerShuffle();
-            }, 500);
-          }
-          return tournament.settings.timerDuration;
-        }
-        return prev - 1;
-      });
+      if (!tickDutchPrice()) {
+        clearInterval(interval);
+        warning(
+          `${currentPlayer.name} UNSOLD`,
+          'Price reached the base price - no team claimed',
+          4000
+        );
+        closePlayerAndShuffle(markPlayerUnsold);
+      }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [auctionState.isActive, currentPlayer, auctionState.highestBid, soldPlayer, unsoldPlayer, tournament?.settings.timerDuration, tournament?.settings.enableTimer]);
+  }, [hammerFellOn, auctionState.isActive, auctionState.pendingRtm, currentPlayer, auctionState.highestBid, isShuffling, tournament?.pause, tournament?.settings.auctionFormat]);
+
+  // A fresh clock for every player and every new bid, stopped while nobody can bid
+  const isClockRunning = !!tournament?.settings.enableTimer && auctionState.isActive && !!currentPlayer
+    && !auctionState.pendingRtm && !isShuffling && !isSealedBid(tournament) && !isDutchAuction(tournament);
+  const currentPlayerId = currentPlayer?.id;
+  const highestBidAt = auctionState.highestBid?.timestamp;
+  useEffect(() => {
+    if (isClockRunning) {
+      restartTimer();
+    } else {
+      stopTimer();
+    }
+  }, [isClockRunning, currentPlayerId, highestBidAt, restartTimer, stopTimer]);
+
+  // Team timeouts end by themselves
+  const pauseEndsAt = tournament?.pause?.endsAt;
+  useEffect(() => {
+    if (!pauseEndsAt) return;
+
+    const timeout = setTimeout(resumeAuction, Math.max(0, new Date(pauseEndsAt).getTime() - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [pauseEndsAt, resumeAuction]);
+
+  // Apply the requests from the team owners' consoles, oldest first
+  const sharedAuctionId = sharingState.auctionId;
+  useEffect(() => {
+    if (!sharedAuctionId) return;
+
+    const handled = new Set<string>();
+    return auctionSharingService.subscribeToBidRequests(sharedAuctionId, (requests) => {
+      requests.filter(request => request.status === 'pending' && !handled.has(request.id)).forEach(request => {
+        handled.add(request.id);
+
+        // Read the latest state - earlier requests in this batch may have changed it
+        const {
+          tournament: latestTournament,
+          auctionState: latestAuctionState,
+          getCurrentPlayer: getLatestPlayer,
+          placeBid: applyBid,
+          passTeam: applyPass,
+          submitSealedBid: applySealedBid,
+        } = useAuctionStore.getState();
+        const latestPlayer = getLatestPlayer();
+        // Consoles can't see prices when they are hidden, so their bids come without an amount
+        const amount = request.amount ?? (latestTournament && latestPlayer
+          ? getMinimumNextBid(latestTournament, latestAuctionState, latestPlayer)
+          : 0);
+        const applyRequest = (): ActionResult => {
+          // Only the team's own console link carries its key
+          if (!auctionSharingService.isTeamKeyValid(request.teamId, request.key)) return { ok: false, reason: 'NOT_ALLOWED' };
+          if (latestPlayer?.id !== request.playerId) return { ok: false, reason: 'PLAYER_UNAVAILABLE' };
+          switch (request.type) {
+            case 'BID':
+              return applyBid(request.teamId, amount);
+            case 'SEALED_BID':
+              return applySealedBid(request.teamId, amount);
+            case 'CLAIM':
+              return claimForTeamRef.current(request.teamId);
+            default:
+              return applyPass(request.teamId);
+          }
+        };
+        const result = applyRequest();
+        auctionSharingService.resolveBidRequest(sharedAuctionId, request.id, result);
+
+        const teamName = latestTournament?.teams.find(t => t.id === request.teamId)?.name || 'Unknown Team';
+        // Sealed amounts stay hidden until the bids are revealed
+        const action = {
+          BID: `bid of ${formatCurrency(amount)}`,
+          SEALED_BID: 'sealed bid',
+          CLAIM: 'claim',
+          PASS: 'pass',
+        }[request.type];
+        if (result.ok) {
+          info(`${teamName}: remote ${action}`, 'Sent from the owner console', 3000);
+        } else {
+          warning(`${teamName}: remote ${action} rejected`, formatRejectionReason(result.reason), 4000);
+        }
+      });
+    });
+  }, [sharedAuctionId, info, warning]);
 
   // Cleanup shuffle interval on unmount
   useEffect(() => {
@@ -172,50 +303,90 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     };
   }, [shuffleInterval]);
 
-  const handlePlaceBid = () => {
+  // Tell the auctioneer why the engine turned an action down
+  const reportRejection = (result: ActionResult, title: string): boolean => {
+    if (!result.ok) {
+      warning(title, formatRejectionReason(result.reason), 4000);
+    }
+    return result.ok;
+  };
+
+  // Warn before a bid that, if it wins, would leave some team unable to complete its squad
+  const confirmFeasibleBid = async (teamId: string, amount: number): Promise<boolean> => {
+    if (!tournament || !currentPlayer) return true;
+
+    const issues = getSaleFeasibilityIssues(tournament, teamId, currentPlayer, amount);
+    if (issues.length === 0) return true;
+
+    const details = issues.map(issue => `• ${formatFeasibilityIssue(tournament, issue)}`).join('\n');
+    return showConfirmation({
+      title: 'Squads at Risk',
+      message: `If this bid wins:\n${details}\n\nPlace it anyway?`,
+      confirmText: 'Place Bid',
+      cancelText: 'Cancel',
+      type: 'warning',
+    });
+  };
+
+  const handlePlaceBid = async () => {
     if (selectedTeam && bidAmount > 0) {
-      placeBid(selectedTeam, bidAmount);
+      if (!(await confirmFeasibleBid(selectedTeam, bidAmount))) return;
+      if (!reportRejection(placeBid(selectedTeam, bidAmount), 'Bid rejected')) return;
       setSelectedTeam('');
       setShowBidInput(false);
-      setBidAmount(bidAmount + Number(settings.bidIncrement));
+      if (tournament) {
+        setBidAmount(bidAmount + getBidIncrement(tournament, bidAmount));
+      }
     }
   };
 
-  const handleQuickBid = (teamId: string) => {
-    const quickBidAmount = auctionState.highestBid?.amount
-      ? auctionState.highestBid.amount + Number(settings.bidIncrement)
-      : currentPlayer?.basePrice || tournament?.settings.minimumBid || 100;
+  const handleQuickBid = async (teamId: string) => {
+    if (!tournament || !currentPlayer) return;
+
+    const quickBidAmount = getMinimumNextBid(tournament, auctionState, currentPlayer);
 
     const maxBid = getMaxBidForTeam(teamId);
     const finalBidAmount = Math.min(quickBidAmount, maxBid);
+    if (!(await confirmFeasibleBid(teamId, finalBidAmount))) return;
 
-    placeBid(teamId, finalBidAmount);
+    reportRejection(placeBid(teamId, finalBidAmount), 'Bid rejected');
     setSelectedTeam('');
     setShowBidInput(false);
   };
 
-  const handlePassTeam = (teamId: string) => {
-    passTeam(teamId);
+  const handleTogglePause = () => {
+    if (tournament?.pause) {
+      reportRejection(resumeAuction(), "Can't resume");
+    } else {
+      reportRejection(pauseAuction(), "Can't pause");
+    }
   };
 
-  const handleSoldPlayer = () => {
-    if (currentPlayer && auctionState.highestBid && tournament) {
-      const winningTeam = tournament.teams.find(t => t.id === auctionState.highestBid?.teamId);
-      success(
-        `${currentPlayer.name} SOLD!`,
-        `Bought by ${winningTeam?.name || 'Unknown Team'} for ${formatCurrency(auctionState.highestBid.amount)}`,
-        5000
-      );
+  const handleTeamTimeout = (teamId: string) => {
+    const team = tournament?.teams.find(t => t.id === teamId);
+    if (reportRejection(callTeamTimeout(teamId), "Can't call a timeout") && tournament) {
+      info(`Timeout - ${team?.name || 'Unknown Team'}`, `Bidding resumes in ${getTeamTimeoutSeconds(tournament)} seconds`, 4000);
     }
+  };
+
+  const handlePassTeam = (teamId: string) => {
+    reportRejection(passTeam(teamId), "Can't pass");
+  };
 
+  // Close out the current player without advancing, then shuffle to the next one
+  const closePlayerAndShuffle = (closePlayer: () => ActionResult): boolean => {
     // Immediately set shuffling to prevent "Auction Completed" flash
     setIsShuffling(true);
 
     // Prevent getCurrentPlayer from auto-advancing
     setPreventAutoAdvance(true);
 
-    // Mark player as sold but don't advance yet
-    markPlayerSold();
+    // Nothing changed - stay on the current player
+    if (!reportRejection(closePlayer(), "Can't close this player")) {
+      setIsShuffling(false);
+      setPreventAutoAdvance(false);
+      return false;
+    }
 
     // Sync shuffling state to live viewers
     syncAuctionState(true);
@@ -223,7 +394,80 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     // Start shuffling animation which will advance to next player when complete
     setTimeout(() => {
       startPlayerShuffle();
-    }, 500); // Small delay to let the sold action complete
+    }, 500); // Small delay to let the close action complete
+    return true;
+  };
+
+  const handleSoldPlayer = () => {
+    if (currentPlayer && auctionState.highestBid && tournament) {
+      // The former team gets to match first - the RTM dialog takes it from here
+      if (getRtmTeam(tournament, currentPlayer, auctionState.highestBid.teamId, auctionState.highestBid.amount)) {
+        markPlayerSold();
+        return;
+      }
+
+      const winningTeam = tournament.teams.find(t => t.id === auctionState.highestBid?.teamId);
+      success(
+        `${currentPlayer.name} SOLD!`,
+        `Bought by ${winningTeam?.name || 'Unknown Team'} for ${formatCurrency(auctionState.highestBid.amount)}`,
+        5000
+      );
+    }
+
+    // Mark player as sold but don't advance yet
+    closePlayerAndShuffle(markPlayerSold);
+  };
+
+  // Claim the player for a team at the current Dutch price, from this screen or a team's console
+  const claimForTeam = (teamId: string): ActionResult => {
+    if (!tournament || !currentPlayer) return { ok: false, reason: 'NO_CURRENT_PLAYER' };
+
+    const price = getDutchPrice(tournament, auctionState, currentPlayer);
+
+    // The former team gets to match first - the RTM dialog takes it from here
+    if (getRtmTeam(tournament, currentPlayer, teamId, price)) {
+      const result = claimPlayer(teamId);
+      reportRejection(result, 'Claim rejected');
+      return result;
+    }
+
+    let result: ActionResult = { ok: true, events: [] };
+    if (closePlayerAndShuffle(() => (result = claimPlayer(teamId)))) {
+      const claimingTeam = tournament.teams.find(t => t.id === teamId);
+      success(
+        `${currentPlayer.name} SOLD!`,
+        `Claimed by ${claimingTeam?.name || 'Unknown Team'} for ${formatCurrency(price)}`,
+        5000
+      );
+    }
+    return result;
+  };
+  useEffect(() => {
+    claimForTeamRef.current = claimForTeam;
+  });
+
+  const handleClaim = async (teamId: string) => {
+    if (!tournament || !currentPlayer) return;
+
+    const price = getDutchPrice(tournament, auctionState, currentPlayer);
+    if (!(await confirmFeasibleBid(teamId, price))) return;
+
+    claimForTeam(teamId);
+  };
+
+  const handleRtmDecision = (match: boolean) => {
+    const offer = auctionState.pendingRtm;
+    if (!offer || !tournament) return;
+
+    const player = tournament.players.find(p => p.id === offer.playerId);
+    const buyer = tournament.teams.find(t => t.id === (match ? offer.teamId : offer.winningTeamId));
+    success(
+      `${player?.name || 'Player'} SOLD${match ? ' via RTM' : ''}!`,
+      `Bought by ${buyer?.name || 'Unknown Team'} for ${formatCurrency(offer.amount)}`,
+      5000
+    );
+
+    closePlayerAndShuffle(match ? matchRtm : declineRtm);
   };
 
   const handleUnsoldPlayer = () => {
@@ -235,22 +479,8 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
       );
     }
 
-    // Immediately set shuffling to prevent "Auction Completed" flash
-    setIsShuffling(true);
-
-    // Prevent getCurrentPlayer from auto-advancing
-    setPreventAutoAdvance(true);
-
     // Mark player as unsold but don't advance yet
-    markPlayerUnsold();
-
-    // Sync shuffling state to live viewers
-    syncAuctionState(true);
-
-    // Start shuffling animation which will advance to next player when complete
-    setTimeout(() => {
-      startPlayerShuffle();
-    }, 500); // Small delay to let the unsold action complete
+    closePlayerAndShuffle(markPlayerUnsold);
   };
 
   const handleEndAuction = () => {
@@ -277,6 +507,18 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     }
   };
 
+  const handleCopyTeamConsoleUrl = async (teamId: string) => {
+    if (!sharingState.auctionId) return;
+
+    try {
+      await navigator.clipboard.writeText(auctionSharingService.generateTeamConsoleUrl(sharingState.auctionId, teamId));
+      const team = tournament?.teams.find(t => t.id === teamId);
+      success('Link copied', `Owner console for ${team?.name || 'Unknown Team'}`, 2000);
+    } catch (error) {
+      console.error('Failed to copy URL:', error);
+    }
+  };
+
   const handleStopSharing = async () => {
     await stopSharing();
     setShowShareDialog(false);
@@ -299,7 +541,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     // Get all remaining players (not sold, not unsold, not captains if captain functionality is active) - these are the candidates for next player
     const captains = tournament.players.filter(p => p.isCaptain);
     const hasCaptains = captains.length === tournament.numberOfTeams;
-    const remainingPlayers = tournament.players.filter(p => !p.soldPrice && !p.isUnsold && (!hasCaptains || !p.isCaptain));
+    const remainingPlayers = tournament.players.filter(p => !p.soldPrice && !p.isUnsold && !p.isRetained && (!hasCaptains || !p.isCaptain));
     if (remainingPlayers.length === 0) {
       // No more players to shuffle, just advance
       setIsShuffling(false);
@@ -319,10 +561,23 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
 
     setShuffleInterval(interval);
 
-    // Stop shuffling after 2 seconds and advance to the actual next player
+    // Stop shuffling after 2 seconds, landing on the player the seeded order picks
     setTimeout(() => {
       clearInterval(interval);
       setShuffleInterval(null);
+
+      const { tournament: latestTournament, auctionState: latestAuctionState } = useAuctionStore.getState();
+      const pickedPlayer = latestTournament
+        ? getNextPlayer({ tournament: latestTournament, auctionState: latestAuctionState })
+        : null;
+      if (pickedPlayer) {
+        setShufflePlayer(pickedPlayer);
+        setShuffleCounter(prev => prev + 1);
+      }
+    }, 2000);
+
+    // Then advance to the actual next player
+    setTimeout(() => {
       setIsShuffling(false);
       setShufflePlayer(null);
 
@@ -334,13 +589,48 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
 
       // Sync that shuffling has ended
       syncAuctionState(false);
-
-      setTimer(tournament?.settings.timerDuration || 30);
-    }, 2000);
+    }, 2600);
   };
 
+  // Teams pick who comes back before an accelerated unsold round
+  if (tournament && areNominationsOpen(tournament) && !isShuffling) {
+    const round = getAuctionRound(tournament) + 1;
+    const reduction = getUnsoldRoundConfig(tournament, round).basePriceReduction ?? 0;
+
+    return (
+      <NominationPanel
+        title={`Unsold Round ${round} Nominations`}
+        description={`Each team picks the unsold players it wants to bid on again. Only nominated players come back.${
+          reduction > 0 ? ` Base prices are cut by ${reduction}% this round.` : ''
+        }`}
+        players={getUnsoldPlayers(tournament)}
+        teams={tournament.teams}
+        nominations={tournament.unsoldNominations ?? {}}
+        minimumBid={tournament.settings.minimumBid}
+        onNominate={nominateUnsoldPlayers}
+        onStart={advanceToNextPlayer}
+      />
+    );
+  }
+
+  // Accelerated mode: teams pick who comes up from everyone still left
+  if (tournament && areAcceleratedNominationsOpen(tournament) && !isShuffling) {
+    return (
+      <NominationPanel
+        title="Accelerated Auction Nominations"
+        description="Each team picks the players it wants from those still to come up and the unsold ones. Teams take turns filling the queue, and anyone not nominated goes unsold."
+        players={getNominationShortlist(tournament)}
+        teams={tournament.teams}
+        nominations={tournament.acceleratedNominations ?? {}}
+        minimumBid={tournament.settings.minimumBid}
+        onNominate={nominatePlayers}
+        onStart={advanceToNextPlayer}
+      />
+    );
+  }
+
   // Don't show auction completed during shuffling, even if currentPlayer is null
-  if (!tournament || (!currentPlayer && !isShuffling)) {
+  if (!tournament || (!currentPlayer && !isShuffling && !auctionState.hammerFellOn)) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="card text-center">
@@ -362,9 +652,23 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     );
   }
 
-  const minBid = auctionState.highestBid?.amount
-    ? auctionState.highestBid.amount + Number(settings.bidIncrement)
-    : currentPlayer?.basePrice || tournament?.settings.minimumBid || 100;
+  const minBid = currentPlayer
+    ? getMinimumNextBid(tournament, auctionState, currentPlayer)
+    : tournament.settings.minimumBid;
+
+  // Current step size from the increment slabs
+  const bidIncrement = getBidIncrement(tournament, auctionState.highestBid?.amount ?? minBid);
+
+  const roundLabel = formatAuctionRound(getAuctionRound(tournament));
+  const nominatingTeam = tournament.teams.find(t => t.id === getCurrentNomination(tournament, auctionState)?.teamId);
+  const showAcceleratedButton = canStartAccelerated(tournament, auctionState) && !isShuffling;
+
+  // Set the current player is being auctioned from, and how many from it are still to go
+  const currentSet = currentPlayer?.set;
+  const playersLeftInSet = currentSet ? getPlayersLeftInSet(tournament, currentSet).length : 0;
+
+  const pause = tournament.pause;
+  const pausingTeam = pause?.teamId ? tournament.teams.find(t => t.id === pause.teamId) : null;
 
   const highestBiddingTeam = auctionState.highestBid 
     ? tournament.teams.find(t => t.id === auctionState.highestBid!.teamId)
@@ -374,6 +678,26 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
     <div className="max-w-7xl mx-auto space-y-6">
       {/* Toast Container */}
       <ToastContainer toasts={toasts} onRemoveToast={removeToast} />
+      <ConfirmationComponent />
+
+      {/* Pause */}
+      {pause && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-center justify-between">
+          <div className="flex items-center text-yellow-900">
+            <Pause className="w-5 h-5 mr-2" />
+            <span className="font-semibold">
+              {pausingTeam ? `Timeout - ${pausingTeam.name}` : 'Auction paused'}
+            </span>
+            {pause.endsAt && (
+              <span className="ml-2 text-sm">until {new Date(pause.endsAt).toLocaleTimeString()}</span>
+            )}
+          </div>
+          <button onClick={handleTogglePause} className="btn-primary flex items-center text-sm py-2 px-3">
+            <Play className="w-4 h-4 mr-1" />
+            Resume
+          </button>
+        </div>
+      )}
 
       {/* Responsive Header */}
       <div className="space-y-4">
@@ -387,8 +711,13 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                 <div className="inline-flex items-center bg-gradient-to-r from-red-500 to-orange-500 rounded-lg p-2 shadow-lg">
                   <Timer className="w-4 h-4 text-white mr-1" />
                   <div className="text-lg font-bold text-white">
-                    {Math.floor(timer / 60)}:{(timer % 60).toString().padStart(2, '0')}
+                    {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}
                   </div>
+                  {hammerPhase && (
+                    <div className="ml-2 text-xs font-semibold text-white uppercase animate-pulse">
+                      {formatHammerPhase(hammerPhase)}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="inline-flex items-center bg-gradient-to-r from-gray-400 to-gray-500 rounded-lg p-2 shadow-lg">
@@ -402,17 +731,50 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
 
             {/* Quick Actions */}
             <div className="flex items-center space-x-2">
-              {canUndo() && (
+              {canUndo() && !isShuffling && (
                 <button
-                  onClick={undoBid}
+                  onClick={undo}
                   className="btn-secondary flex items-center text-sm md:text-base py-2 md:py-3 px-3 md:px-4"
-                  title="Undo last bid"
+                  title="Undo last action"
                 >
                   <Undo className="w-4 h-4 md:w-5 md:h-5 mr-1 md:mr-2" />
                   Undo
                 </button>
               )}
 
+              {canRedo() && !isShuffling && (
+                <button
+                  onClick={redo}
+                  className="btn-secondary flex items-center text-sm md:text-base py-2 md:py-3 px-3 md:px-4"
+                  title="Redo last undone action"
+                >
+                  <Redo className="w-4 h-4 md:w-5 md:h-5 mr-1 md:mr-2" />
+                  Redo
+                </button>
+              )}
+
+              {!isShuffling && (
+                <button
+                  onClick={handleTogglePause}
+                  className="btn-secondary flex items-center text-sm md:text-base py-2 md:py-3 px-3 md:px-4"
+                  title={pause ? 'Resume the auction' : 'Pause the auction'}
+                >
+                  {pause ? <Play className="w-4 h-4 md:w-5 md:h-5 mr-1 md:mr-2" /> : <Pause className="w-4 h-4 md:w-5 md:h-5 mr-1 md:mr-2" />}
+                  {pause ? 'Resume' : 'Pause'}
+                </button>
+              )}
+
+              {showAcceleratedButton && (
+                <button
+                  onClick={openAcceleratedNominations}
+                  className="btn-secondary flex items-center text-sm md:text-base py-2 md:py-3 px-3 md:px-4"
+                  title="Let teams nominate the remaining players they want"
+                >
+                  <FastForward className="w-4 h-4 md:w-5 md:h-5 mr-1 md:mr-2" />
+                  Accelerate
+                </button>
+              )}
+
               {auctionState.highestBid ? (
                 <button
                   onClick={handleSoldPlayer}
@@ -499,6 +861,25 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                       {isShuffling && shufflePlayer ? shufflePlayer.role : currentPlayer?.role}
                     </span>
                   )}
+
+                  {/* Auction Round - Mobile */}
+                  <span className="inline-block text-xs font-medium px-2 py-1 rounded-full mt-1 ml-1 bg-gray-100 text-gray-700">
+                    {roundLabel}
+                  </span>
+
+                  {/* Nominating Team - Mobile */}
+                  {!isShuffling && nominatingTeam && (
+                    <span className="inline-block text-xs font-medium px-2 py-1 rounded-full mt-1 ml-1 bg-purple-100 text-purple-800">
+                      Nominated by {nominatingTeam.name}
+                    </span>
+                  )}
+
+                  {/* Auction Set - Mobile */}
+                  {!isShuffling && currentSet && (
+                    <span className="inline-block text-xs font-medium px-2 py-1 rounded-full mt-1 ml-1 bg-amber-100 text-amber-800">
+                      {currentSet} • {playersLeftInSet} left
+                    </span>
+                  )}
                 </div>
               </div>
             )}
@@ -513,8 +894,13 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
               <div className="inline-flex items-center bg-gradient-to-r from-red-500 to-orange-500 rounded-xl p-4 shadow-lg">
                 <Timer className="w-6 h-6 text-white mr-2" />
                 <div className="text-2xl font-bold text-white">
-                  {Math.floor(timer / 60)}:{(timer % 60).toString().padStart(2, '0')}
+                  {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}
                 </div>
+                {hammerPhase && (
+                  <div className="ml-3 text-sm font-semibold text-white uppercase animate-pulse">
+                    {formatHammerPhase(hammerPhase)}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="inline-flex items-center bg-gradient-to-r from-gray-400 to-gray-500 rounded-xl p-4 shadow-lg">
@@ -593,6 +979,19 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                         Placeholder
                       </span>
                     )}
+                    <span className="inline-block text-sm font-medium px-3 py-1 rounded-full ml-2 bg-gray-100 text-gray-700">
+                      {roundLabel}
+                    </span>
+                    {!isShuffling && nominatingTeam && (
+                      <span className="inline-block text-sm font-medium px-3 py-1 rounded-full ml-2 bg-purple-100 text-purple-800">
+                        Nominated by {nominatingTeam.name}
+                      </span>
+                    )}
+                    {!isShuffling && currentSet && (
+                      <span className="inline-block text-sm font-medium px-3 py-1 rounded-full ml-2 bg-amber-100 text-amber-800">
+                        {currentSet} • {playersLeftInSet} left
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -601,17 +1000,50 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
 
           {/* Quick Actions */}
           <div className="flex items-center justify-end space-x-3">
-            {canUndo() && (
+            {canUndo() && !isShuffling && (
               <button
-                onClick={undoBid}
+                onClick={undo}
                 className="btn-secondary flex items-center py-3 px-4 text-base"
-                title="Undo last bid"
+                title="Undo last action"
               >
                 <Undo className="w-5 h-5 mr-2" />
                 Undo
               </button>
             )}
 
+            {canRedo() && !isShuffling && (
+              <button
+                onClick={redo}
+                className="btn-secondary flex items-center py-3 px-4 text-base"
+                title="Redo last undone action"
+              >
+                <Redo className="w-5 h-5 mr-2" />
+                Redo
+              </button>
+            )}
+
+            {!isShuffling && (
+              <button
+                onClick={handleTogglePause}
+                className="btn-secondary flex items-center py-3 px-4 text-base"
+                title={pause ? 'Resume the auction' : 'Pause the auction'}
+              >
+                {pause ? <Play className="w-5 h-5 mr-2" /> : <Pause className="w-5 h-5 mr-2" />}
+                {pause ? 'Resume' : 'Pause'}
+              </button>
+            )}
+
+            {showAcceleratedButton && (
+              <button
+                onClick={openAcceleratedNominations}
+                className="btn-secondary flex items-center py-3 px-4 text-base"
+                title="Let teams nominate the remaining players they want"
+              >
+                <FastForward className="w-5 h-5 mr-2" />
+                Accelerate
+              </button>
+            )}
+
             {auctionState.highestBid ? (
               <button
                 onClick={handleSoldPlayer}
@@ -719,7 +1151,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
             <div className="text-center">
               <p className="text-xs text-gray-500 mb-1">INCREMENT</p>
               <div className="text-sm font-bold text-orange-600">
-                {formatCurrency(settings.bidIncrement)}
+                {formatCurrency(bidIncrement)}
               </div>
             </div>
             <div className="text-center">
@@ -819,7 +1251,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
             <div className="text-center">
               <p className="text-xs text-gray-500 mb-1">BID INCREMENT</p>
               <div className="text-lg font-bold text-orange-600">
-                {formatCurrency(settings.bidIncrement)}
+                {formatCurrency(bidIncrement)}
               </div>
             </div>
 
@@ -993,165 +1425,180 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
           </div>
         </div>
 
-        <div className="team-grid mb-4">
-          {tournament.teams.map((team) => {
-            const isEligible = eligibleTeams.some(t => t.id === team.id);
-            const isHighestBidder = auctionState.highestBid?.teamId === team.id;
-            const isSelected = selectedTeam === team.id;
-            const maxBid = getMaxBidForTeam(team.id);
-
-            return (
-              <TeamCard
-                key={team.id}
-                team={team}
-                isSelected={isSelected}
-                isEligible={isEligible}
-                isHighestBidder={isHighestBidder}
-                maxBid={maxBid}
-                minBid={minBid}
-                forceExpanded={allTeamsExpanded}
-                onSelect={() => {
-                  if (isSelected) {
-                    handleQuickBid(team.id);
-                  } else {
-                    setSelectedTeam(team.id);
-                    setBidAmount(minBid);
-                    setShowBidInput(true);
-                  }
-                }}
-                onQuickBid={() => handleQuickBid(team.id)}
-                onPass={() => handlePassTeam(team.id)}
-                disabled={!isEligible}
-              />
-            );
-          })}
-        </div>
-
-        {/* Custom Bid Input - Compact */}
-        {showBidInput && selectedTeam && (
-          <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
-            <div className="flex items-center justify-between mb-3">
-              <h3 className="text-sm font-semibold text-blue-900">
-                Bid for {tournament.teams.find(t => t.id === selectedTeam)?.name}
-              </h3>
-              <button
-                onClick={() => {
-                  setShowBidInput(false);
-                  setSelectedTeam('');
-                }}
-                className="text-blue-600 hover:text-blue-800 text-sm"
-              >
-                ✕
-              </button>
+        {isSealedBid(tournament) && currentPlayer ? (
+          <SealedBidPanel key={currentPlayer.id} currentPlayer={currentPlayer} />
+        ) : isDutchAuction(tournament) && currentPlayer ? (
+          <DutchAuctionPanel currentPlayer={currentPlayer} disabled={isShuffling} onClaim={handleClaim} />
+        ) : (
+          <>
+            <div className="team-grid mb-4">
+              {tournament.teams.map((team) => {
+                const isEligible = eligibleTeams.some(t => t.id === team.id);
+                const isHighestBidder = auctionState.highestBid?.teamId === team.id;
+                const isSelected = selectedTeam === team.id;
+                const maxBid = getMaxBidForTeam(team.id);
+
+                return (
+                  <TeamCard
+                    key={team.id}
+                    team={team}
+                    isSelected={isSelected}
+                    isEligible={isEligible}
+                    isHighestBidder={isHighestBidder}
+                    maxBid={maxBid}
+                    minBid={minBid}
+                    forceExpanded={allTeamsExpanded}
+                    onSelect={() => {
+                      if (isSelected) {
+                        handleQuickBid(team.id);
+                      } else {
+                        setSelectedTeam(team.id);
+                        setBidAmount(minBid);
+                        setShowBidInput(true);
+                      }
+                    }}
+                    onQuickBid={() => handleQuickBid(team.id)}
+                    onPass={() => handlePassTeam(team.id)}
+                    onTimeout={() => handleTeamTimeout(team.id)}
+                    timeoutsLeft={getTimeoutsLeft(tournament, team)}
+                    disabled={!isEligible || !!pause}
+                  />
+                );
+              })}
             </div>
 
-            {(() => {
-              const maxBid = getMaxBidForTeam(selectedTeam);
-              const team = tournament.teams.find(t => t.id === selectedTeam);
-              const remainingSlots = team ? team.maxPlayers - team.players.length : 0;
+            {/* Custom Bid Input - Compact */}
+            {showBidInput && selectedTeam && (
+              <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-semibold text-blue-900">
+                    Bid for {tournament.teams.find(t => t.id === selectedTeam)?.name}
+                  </h3>
+                  <button
+                    onClick={() => {
+                      setShowBidInput(false);
+                      setSelectedTeam('');
+                    }}
+                    className="text-blue-600 hover:text-blue-800 text-sm"
+                  >
+                    ✕
+                  </button>
+                </div>
 
-              return (
-                <>
-                  {remainingSlots > 1 && (
-                    <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs">
-                      <div className="flex items-center justify-between">
-                        <span className="text-yellow-800">
-                          ⚠️ Reserve budget for {remainingSlots - 1} more players
-                        </span>
-                        <span className="font-semibold text-yellow-900">
-                          Max: {formatCurrency(maxBid)}
-                        </span>
-                      </div>
-                    </div>
-                  )}
+                {(() => {
+                  const maxBid = getMaxBidForTeam(selectedTeam);
+                  const team = tournament.teams.find(t => t.id === selectedTeam);
+                  const remainingSlots = team ? team.maxPlayers - team.players.length : 0;
 
-                  <div className="flex items-center space-x-3">
-                    <div className="flex-1">
-                      <div className="relative">
-                        <input
-                          type="number"
-                          value={bidAmount}
-                          onChange={(e) => setBidAmount(Number(e.target.value))}
-                          min={minBid}
-                          max={maxBid}
-                          step={Number(settings.bidIncrement)}
-                          className="input-field text-sm pr-24"
-                          placeholder={`Min: ${formatCurrency(minBid)} • Max: ${formatCurrency(maxBid)}`}
-                        />
-                        <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                          <span className="text-sm text-blue-700 font-bold bg-blue-50 px-2 py-1 rounded border border-blue-200">
-                            {formatCurrency(bidAmount || 0)}
-                          </span>
+                  return (
+                    <>
+                      {remainingSlots > 1 && (
+                        <div className="mb-3 p-2 bg-yellow-50 border border-yellow-200 rounded text-xs">
+                          <div className="flex items-center justify-between">
+                            <span className="text-yellow-800">
+                              ⚠️ Reserve budget for {remainingSlots - 1} more players
+                            </span>
+                            <span className="font-semibold text-yellow-900">
+                              Max: {formatCurrency(maxBid)}
+                            </span>
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="flex items-center space-x-3">
+                        <div className="flex-1">
+                          <div className="relative">
+                            <input
+                              type="number"
+                              value={bidAmount}
+                              onChange={(e) => setBidAmount(Number(e.target.value))}
+                              min={minBid}
+                              max={maxBid}
+                              step={bidIncrement}
+                              className="input-field text-sm pr-24"
+                              placeholder={`Min: ${formatCurrency(minBid)} • Max: ${formatCurrency(maxBid)}`}
+                            />
+                            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                              <span className="text-sm text-blue-700 font-bold bg-blue-50 px-2 py-1 rounded border border-blue-200">
+                                {formatCurrency(bidAmount || 0)}
+                              </span>
+                            </div>
+                          </div>
                         </div>
+                        <div className="flex flex-wrap gap-1 max-w-md">
+                          {(() => {
+                            // Generate smart quick bid increments
+                            const baseIncrement = bidIncrement;
+                            const currentBid = auctionState.highestBid?.amount || (currentPlayer?.basePrice || tournament?.settings.minimumBid || 100);
+
+                            // Create multiple increment options based on current bid scale
+                            const increments = [
+                              baseIncrement,                    // 1x increment
+                              baseIncrement * 2,               // 2x increment
+                              baseIncrement * 5,               // 5x increment
+                              baseIncrement * 10,              // 10x increment
+                              baseIncrement * 20,              // 20x increment
+                              baseIncrement * 50,              // 50x increment
+                              Math.round(currentBid * 0.05),  // 5% of current bid
+                              Math.round(currentBid * 0.1),   // 10% of current bid
+                              Math.round(currentBid * 0.25),  // 25% of current bid
+                              Math.round(currentBid * 0.5),   // 50% of current bid
+                            ].filter((inc, index, arr) => {
+                              // Remove duplicates and ensure minimum increment
+                              return inc >= baseIncrement && arr.indexOf(inc) === index;
+                            }).sort((a, b) => a - b).slice(0, 8); // Show max 8 options
+
+                            const buttons = increments.map((increment) => {
+                              const newAmount = minBid + increment;
+                              return newAmount <= maxBid ? (
+                                <button
+                                  key={increment}
+                                  onClick={() => setBidAmount(newAmount)}
+                                  className="btn-secondary text-xs py-1 px-1.5 whitespace-nowrap text-center min-w-0"
+                                  title={`Add ${formatCurrency(increment)} to current bid`}
+                                >
+                                  +{formatCurrency(increment)}
+                                </button>
+                              ) : null;
+                            }).filter(Boolean);
+
+                            // Add Max button if there's space and max bid is significantly higher than min bid
+                            if (maxBid > minBid * 1.5) {
+                              buttons.push(
+                                <button
+                                  key="max"
+                                  onClick={() => setBidAmount(maxBid)}
+                                  className="btn-secondary text-xs py-1 px-2 bg-yellow-100 text-yellow-800 border-yellow-300 whitespace-nowrap font-medium"
+                                  title={`Maximum possible bid: ${formatCurrency(maxBid)}`}
+                                >
+                                  Max
+                                </button>
+                              );
+                            }
+
+                            return buttons;
+                          })()}
+                        </div>
+                        <button
+                          onClick={handlePlaceBid}
+                          disabled={bidAmount < minBid || bidAmount > maxBid}
+                          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center text-sm py-2 px-3"
+                        >
+                          <Zap className="w-3 h-3 mr-1" />
+                          Bid
+                        </button>
                       </div>
-                    </div>
-                    <div className="flex flex-wrap gap-1 max-w-md">
-                      {(() => {
-                        // Generate smart quick bid increments
-                        const baseIncrement = Number(settings.bidIncrement);
-                        const currentBid = auctionState.highestBid?.amount || (currentPlayer?.basePrice || tournament?.settings.minimumBid || 100);
-
-                        // Create multiple increment options based on current bid scale
-                        const increments = [
-                          baseIncrement,                    // 1x increment
-                          baseIncrement * 2,               // 2x increment
-                          baseIncrement * 5,               // 5x increment
-                          baseIncrement * 10,              // 10x increment
-                          baseIncrement * 20,              // 20x increment
-                          baseIncrement * 50,              // 50x increment
-                          Math.round(currentBid * 0.05),  // 5% of current bid
-                          Math.round(currentBid * 0.1),   // 10% of current bid
-                          Math.round(currentBid * 0.25),  // 25% of current bid
-                          Math.round(currentBid * 0.5),   // 50% of current bid
-                        ].filter((inc, index, arr) => {
-                          // Remove duplicates and ensure minimum increment
-                          return inc >= baseIncrement && arr.indexOf(inc) === index;
-                        }).sort((a, b) => a - b).slice(0, 8); // Show max 8 options
-
-                        const buttons = increments.map((increment) => {
-                          const newAmount = minBid + increment;
-                          return newAmount <= maxBid ? (
-                            <button
-                              key={increment}
-                              onClick={() => setBidAmount(newAmount)}
-                              className="btn-secondary text-xs py-1 px-1.5 whitespace-nowrap text-center min-w-0"
-                              title={`Add ${formatCurrency(increment)} to current bid`}
-                            >
-                              +{formatCurrency(increment)}
-                            </button>
-                          ) : null;
-                        }).filter(Boolean);
-
-                        // Add Max button if there's space and max bid is significantly higher than min bid
-                        if (maxBid > minBid * 1.5) {
-                          buttons.push(
-                            <button
-                              key="max"
-                              onClick={() => setBidAmount(maxBid)}
-                              className="btn-secondary text-xs py-1 px-2 bg-yellow-100 text-yellow-800 border-yellow-300 whitespace-nowrap font-medium"
-                              title={`Maximum possible bid: ${formatCurrency(maxBid)}`}
-                            >
-                              Max
-                            </button>
-                          );
-                        }
-
-                        return buttons;
-                      })()}
-                    </div>
-                    <button
-                      onClick={handlePlaceBid}
-                      disabled={bidAmount < minBid || bidAmount > maxBid}
-                      className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed flex items-center text-sm py-2 px-3"
-                    >
-                      <Zap className="w-3 h-3 mr-1" />
-                      Bid
-                    </button>
-                  </div>
-                </>
-              );
-            })()}
-          </div>
+                    </>
+                  );
+                })()}
+              </div>
+            )}
+
+            {/* Proxy Bids */}
+            <div className="mt-4">
+              <ProxyBidPanel />
+            </div>
+          </>
         )}
       </div>
 
@@ -1177,6 +1624,9 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                           }}
                         />
                         <span className="font-medium">{team?.name}</span>
+                        {bid.automatic && (
+                          <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded">Auto</span>
+                        )}
                       </div>
                       <div className="flex items-center space-x-2">
                         <span className="font-semibold text-blue-600">
@@ -1206,7 +1656,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                 {(() => {
                   const captains = tournament.players.filter(p => p.isCaptain);
                   const hasCaptains = captains.length === tournament.numberOfTeams;
-                  return tournament.players.filter(p => !p.soldPrice && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold)).length;
+                  return tournament.players.filter(p => !p.soldPrice && !p.isRetained && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold)).length;
                 })()}
               </div>
               <div className="text-xs text-gray-500">Left</div>
@@ -1216,7 +1666,7 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
           {(() => {
             const captains = tournament.players.filter(p => p.isCaptain);
             const hasCaptains = captains.length === tournament.numberOfTeams;
-            const filteredPlayers = tournament.players.filter(p => !p.soldPrice && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold));
+            const filteredPlayers = tournament.players.filter(p => !p.soldPrice && !p.isRetained && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold));
             return filteredPlayers.length > 0 ? (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 max-h-64 overflow-y-auto">
                 {filteredPlayers
@@ -1321,6 +1771,43 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
       </div>
 
       {/* End Auction Confirmation Dialog */}
+      {/* Right-to-Match Dialog */}
+      {auctionState.pendingRtm && (() => {
+        const offer = auctionState.pendingRtm;
+        const player = tournament.players.find(p => p.id === offer.playerId);
+        const rtmTeam = tournament.teams.find(t => t.id === offer.teamId);
+        const winningTeam = tournament.teams.find(t => t.id === offer.winningTeamId);
+        return (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl p-6 max-w-md mx-4 shadow-2xl">
+              <div className="text-center">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">
+                  Right to Match?
+                </h3>
+                <p className="text-gray-600 mb-4">
+                  {winningTeam?.name || 'Unknown Team'} bid {formatCurrency(offer.amount)} for {player?.name || 'this player'}.
+                  {' '}{rtmTeam?.name || 'The former team'} can use one of its {rtmTeam?.rtmCards || 0} RTM card(s) to match it.
+                </p>
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => handleRtmDecision(false)}
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Decline
+                  </button>
+                  <button
+                    onClick={() => handleRtmDecision(true)}
+                    className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  >
+                    Match
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
       {showEndAuctionDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl p-6 max-w-md mx-4 shadow-2xl">
@@ -1344,8 +1831,8 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                     <div>Players sold: {(() => {
                       const captains = tournament.players.filter(p => p.isCaptain);
                       const hasCaptains = captains.length === tournament.numberOfTeams;
-                      const soldCount = tournament.players.filter(p => p.soldPrice && (!hasCaptains || !p.isCaptain)).length;
-                      const totalCount = tournament.players.filter(p => !hasCaptains || !p.isCaptain).length;
+                      const soldCount = tournament.players.filter(p => p.soldPrice && !p.isRetained && (!hasCaptains || !p.isCaptain)).length;
+                      const totalCount = tournament.players.filter(p => !p.isRetained && (!hasCaptains || !p.isCaptain)).length;
                       return `${soldCount} / ${totalCount}`;
                     })()} </div>
                     <div>Teams with space: {tournament.teams.filter(team => team.players.length < team.maxPlayers).length} / {tournament.teams.length}</div>
@@ -1417,6 +1904,25 @@ const AuctionRoom: React.FC<AuctionRoomProps> = ({ onComplete }) => {
                 </div>
               </div>
 
+              {/* Owner Consoles */}
+              <div className="bg-gray-50 rounded-lg p-3 mb-4 text-left">
+                <div className="text-sm text-gray-600 mb-2">Owner console links - owners can bid and pass from their phones:</div>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {tournament.teams.map((team) => (
+                    <div key={team.id} className="flex items-center justify-between text-sm">
+                      <span className="truncate text-gray-800">{team.name}</span>
+                      <button
+                        onClick={() => handleCopyTeamConsoleUrl(team.id)}
+                        className="px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 border border-blue-300 hover:bg-blue-200 transition-colors flex-shrink-0"
+                      >
+                        <Copy className="w-3 h-3 mr-1 inline" />
+                        Copy
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Viewer Count */}
               <div className="flex items-center justify-center text-sm text-gray-600 mb-4">
                 <Users className="w-4 h-4 mr-1" />
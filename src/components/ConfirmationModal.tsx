@@ -96,7 +96,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
 
         {/* Content */}
         <div className="px-6 pb-6">
-          <p className="text-gray-600 text-center mb-6 leading-relaxed">
+          <p className="text-gray-600 text-center mb-6 leading-relaxed whitespace-pre-line">
             {message}
           </p>
 
@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { Trophy, Users, DollarSign, Download, RotateCcw, BarChart3, Eye, EyeOff, Save, List } from 'lucide-react';
 import { useAuctionStore } from '../store/auctionStore';
-import { formatCurrency, exportAuctionResults } from '../utils/excelUtils';
+import { formatAuctionRound, formatCurrency, formatDraftPick, exportAuctionResults } from '../utils/excelUtils';
+import { getDraftRound, isDraft } from '../engine/auctionEngine';
 import type { Team, Player } from '../types';
 import PlayerImage from './PlayerImage';
 import SaveAuctionDialog from './SaveAuctionDialog';
@@ -57,9 +58,13 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
       .reduce((sum: number, p: Player) => sum + (p.soldPrice || 0), 0);
   };
 
+  // A draft has no money involved, so pick numbers stand in for prices
+  const draftMode = isDraft(tournament);
+  const firstPick = tournament.players.find(p => p.draftPick === 1);
+
   // Calculate statistics
   const totalSpent = tournament.teams.reduce((sum, team) => sum + getActualSpent(team), 0);
-  const soldPlayers = tournament.players.filter(p => p.soldPrice && !p.isCaptain).length; // Exclude captains
+  const soldPlayers = tournament.players.filter(p => (p.soldPrice || p.draftPick) && !p.isCaptain).length; // Exclude captains
   const unsoldPlayers = tournament.players.filter(p => p.isUnsold).length;
   const averagePrice = soldPlayers > 0 ? totalSpent / soldPlayers : 0;
 
@@ -80,22 +85,26 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
               🏆 {tournament.name} - Results
             </h1>
             <p className="text-gray-600">
-              Auction completed with {soldPlayers} players sold and {unsoldPlayers} unsold
+              {draftMode
+                ? `Draft completed with ${soldPlayers} players picked`
+                : `Auction completed with ${soldPlayers} players sold and ${unsoldPlayers} unsold`}
             </p>
           </div>
           <div className="flex space-x-3">
-            <button
-              onClick={() => setShowPrices(!showPrices)}
-              className={`inline-flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
-                showPrices
-                  ? 'text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100'
-                  : 'text-gray-600 bg-gray-50 border border-gray-200 hover:bg-gray-100'
-              }`}
-              title={showPrices ? 'Hide prices' : 'Show prices'}
-            >
-              {showPrices ? <Eye className="w-4 h-4 mr-2" /> : <EyeOff className="w-4 h-4 mr-2" />}
-              {showPrices ? 'Hide Prices' : 'Show Prices'}
-            </button>
+            {!draftMode && (
+              <button
+                onClick={() => setShowPrices(!showPrices)}
+                className={`inline-flex items-center px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                  showPrices
+                    ? 'text-blue-600 bg-blue-50 border border-blue-200 hover:bg-blue-100'
+                    : 'text-gray-600 bg-gray-50 border border-gray-200 hover:bg-gray-100'
+                }`}
+                title={showPrices ? 'Hide prices' : 'Show prices'}
+              >
+                {showPrices ? <Eye className="w-4 h-4 mr-2" /> : <EyeOff className="w-4 h-4 mr-2" />}
+                {showPrices ? 'Hide Prices' : 'Show Prices'}
+              </button>
+            )}
             <button
               onClick={() => setShowSaveDialog(true)}
               className="inline-flex items-center px-3 py-2 rounded-md text-sm font-medium text-purple-600 bg-purple-50 border border-purple-200 hover:bg-purple-100 transition-colors"
@@ -126,47 +135,85 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
             <div className="flex items-center">
               <Users className="w-8 h-8 text-blue-600 mr-3" />
               <div>
-                <p className="text-sm text-blue-600">Players Sold</p>
+                <p className="text-sm text-blue-600">{draftMode ? 'Players Drafted' : 'Players Sold'}</p>
                 <p className="text-2xl font-bold text-blue-900">{soldPlayers}</p>
               </div>
             </div>
           </div>
-          <div className="bg-green-50 rounded-lg p-4">
-            <div className="flex items-center">
-              <DollarSign className="w-8 h-8 text-green-600 mr-3" />
-              <div>
-                <p className="text-sm text-green-600">Total Spent</p>
-                <p className="text-2xl font-bold text-green-900">
-                  {showPrices ? formatCurrency(totalSpent) : '***'}
-                </p>
+          {draftMode ? (
+            <>
+              <div className="bg-green-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <List className="w-8 h-8 text-green-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-green-600">Rounds</p>
+                    <p className="text-2xl font-bold text-green-900">
+                      {tournament.draftSlot ? getDraftRound(tournament, tournament.draftSlot - 1) : 0}
+                    </p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-          <div className="bg-yellow-50 rounded-lg p-4">
-            <div className="flex items-center">
-              <BarChart3 className="w-8 h-8 text-yellow-600 mr-3" />
-              <div>
-                <p className="text-sm text-yellow-600">Average Price</p>
-                <p className="text-2xl font-bold text-yellow-900">
-                  {showPrices ? formatCurrency(averagePrice) : '***'}
-                </p>
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <BarChart3 className="w-8 h-8 text-yellow-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-yellow-600">Undrafted</p>
+                    <p className="text-2xl font-bold text-yellow-900">
+                      {tournament.players.filter(p => !p.teamId).length}
+                    </p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-          <div className="bg-purple-50 rounded-lg p-4">
-            <div className="flex items-center">
-              <Trophy className="w-8 h-8 text-purple-600 mr-3" />
-              <div>
-                <p className="text-sm text-purple-600">Highest Sale</p>
-                <p className="text-2xl font-bold text-purple-900">
-                  {showPrices
-                    ? (mostExpensivePlayer ? formatCurrency(mostExpensivePlayer.soldPrice || 0) : 'N/A')
-                    : '***'
-                  }
-                </p>
+              <div className="bg-purple-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <Trophy className="w-8 h-8 text-purple-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-purple-600">First Pick</p>
+                    <p className="text-2xl font-bold text-purple-900 truncate">{firstPick?.name || 'N/A'}</p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          ) : (
+            <>
+              <div className="bg-green-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <DollarSign className="w-8 h-8 text-green-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-green-600">Total Spent</p>
+                    <p className="text-2xl font-bold text-green-900">
+                      {showPrices ? formatCurrency(totalSpent) : '***'}
+                    </p>
+                  </div>
+                </div>
+              </div>
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <BarChart3 className="w-8 h-8 text-yellow-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-yellow-600">Average Price</p>
+                    <p className="text-2xl font-bold text-yellow-900">
+                      {showPrices ? formatCurrency(averagePrice) : '***'}
+                    </p>
+                  </div>
+                </div>
+              </div>
+              <div className="bg-purple-50 rounded-lg p-4">
+                <div className="flex items-center">
+                  <Trophy className="w-8 h-8 text-purple-600 mr-3" />
+                  <div>
+                    <p className="text-sm text-purple-600">Highest Sale</p>
+                    <p className="text-2xl font-bold text-purple-900">
+                      {showPrices
+                        ? (mostExpensivePlayer ? formatCurrency(mostExpensivePlayer.soldPrice || 0) : 'N/A')
+                        : '***'
+                      }
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -204,12 +251,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                 <div key={team.id} className="border border-gray-200 rounded-lg p-6">
                   <div className="flex items-center justify-between mb-4">
                     <h3 className="text-xl font-bold text-gray-900">{team.name}</h3>
-                    <div className="text-right">
-                      <p className="text-sm text-gray-500">Remaining Budget</p>
-                      <p className="text-lg font-semibold text-gray-900">
-                        {showPrices ? formatCurrency(team.remainingBudget) : '***'}
-                      </p>
-                    </div>
+                    {!draftMode && (
+                      <div className="text-right">
+                        <p className="text-sm text-gray-500">Remaining Budget</p>
+                        <p className="text-lg font-semibold text-gray-900">
+                          {showPrices ? formatCurrency(team.remainingBudget) : '***'}
+                        </p>
+                      </div>
+                    )}
                   </div>
                   
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
@@ -217,36 +266,40 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                       <span className="text-gray-500">Players:</span>
                       <span className="ml-2 font-medium">{team.players.length}/{team.maxPlayers}</span>
                     </div>
-                    <div>
-                      <span className="text-gray-500">Total Spent:</span>
-                      <span className="ml-2 font-medium">
-                        {showPrices ? formatCurrency(getActualSpent(team)) : '***'}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-gray-500">Avg. Price:</span>
-                      <span className="ml-2 font-medium">
-                        {showPrices
-                          ? (team.players.filter(p => !p.isCaptain).length > 0
-                              ? formatCurrency(getActualSpent(team) / team.players.filter(p => !p.isCaptain).length)
-                              : 'N/A'
-                            )
-                          : '***'
-                        }
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-gray-500">Most Expensive:</span>
-                      <span className="ml-2 font-medium">
-                        {showPrices
-                          ? (team.players.length > 0
-                              ? formatCurrency(Math.max(...team.players.map(p => p.soldPrice || 0)))
-                              : 'N/A'
-                            )
-                          : '***'
-                        }
-                      </span>
-                    </div>
+                    {!draftMode && (
+                      <>
+                        <div>
+                          <span className="text-gray-500">Total Spent:</span>
+                          <span className="ml-2 font-medium">
+                            {showPrices ? formatCurrency(getActualSpent(team)) : '***'}
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Avg. Price:</span>
+                          <span className="ml-2 font-medium">
+                            {showPrices
+                              ? (team.players.filter(p => !p.isCaptain).length > 0
+                                  ? formatCurrency(getActualSpent(team) / team.players.filter(p => !p.isCaptain).length)
+                                  : 'N/A'
+                                )
+                              : '***'
+                            }
+                          </span>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">Most Expensive:</span>
+                          <span className="ml-2 font-medium">
+                            {showPrices
+                              ? (team.players.length > 0
+                                  ? formatCurrency(Math.max(...team.players.map(p => p.soldPrice || 0)))
+                                  : 'N/A'
+                                )
+                              : '***'
+                            }
+                          </span>
+                        </div>
+                      </>
+                    )}
                   </div>
 
                   {team.players.length > 0 ? (
@@ -256,8 +309,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                           <tr>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Player</th>
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
-                            {showPrices && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Base Price</th>}
-                            {showPrices && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sold Price</th>}
+                            {draftMode && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pick</th>}
+                            {showPrices && !draftMode && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Base Price</th>}
+                            {showPrices && !draftMode && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sold Price</th>}
                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rating</th>
                           </tr>
                         </thead>
@@ -267,7 +321,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                               // First sort by captain status (captains first)
                               if (a.isCaptain && !b.isCaptain) return -1;
                               if (!a.isCaptain && b.isCaptain) return 1;
-                              // Then sort by price descending
+                              // Then by pick order in a draft, or by price descending
+                              if (draftMode) return (a.draftPick ?? 0) - (b.draftPick ?? 0);
                               return (b.soldPrice || 0) - (a.soldPrice || 0);
                             })
                             .map((player) => (
@@ -279,6 +334,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                                     playerName={player.name}
                                     size="sm"
                                     className="flex-shrink-0"
+                                    isOverseas={player.isOverseas}
                                   />
                                   <span className="text-sm font-medium text-gray-900">
                                     {player.name}
@@ -289,8 +345,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                                 </div>
                               </td>
                               <td className="px-4 py-2 text-sm text-gray-500">{player.role || 'N/A'}</td>
-                              {showPrices && <td className="px-4 py-2 text-sm text-gray-500">{formatCurrency(player.basePrice || 100)}</td>}
-                              {showPrices && <td className="px-4 py-2 text-sm font-medium text-green-600">
+                              {draftMode && <td className="px-4 py-2 text-sm font-medium text-green-600">{formatDraftPick(player) || '-'}</td>}
+                              {showPrices && !draftMode && <td className="px-4 py-2 text-sm text-gray-500">{formatCurrency(player.originalBasePrice ?? (player.basePrice || 100))}</td>}
+                              {showPrices && !draftMode && <td className="px-4 py-2 text-sm font-medium text-green-600">
                                 {player.isCaptain ? (
                                   <span className="text-gray-400">-</span>
                                 ) : (
@@ -320,6 +377,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                     <h3 className="text-lg font-bold text-gray-900 mb-1">{team.name}</h3>
                     <div className="text-sm text-gray-500">
                       {team.players.length}/{team.maxPlayers} players
+                      {team.rtmCards !== undefined && ` • ${team.rtmCards} RTM card(s) left`}
                     </div>
                   </div>
 
@@ -343,6 +401,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                               playerName={player.name}
                               size="sm"
                               className="flex-shrink-0"
+                              isOverseas={player.isOverseas}
                             />
                             <div className="flex-1 min-w-0">
                               <p className="font-medium text-gray-900 truncate">
@@ -350,6 +409,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                                 {player.isCaptain && (
                                   <span className="text-xs font-bold text-blue-600 ml-1">(C)</span>
                                 )}
+                                {player.acquiredViaRtm && (
+                                  <span className="text-xs font-bold text-purple-600 ml-1">(RTM)</span>
+                                )}
                               </p>
                               <p className="text-xs text-gray-500 truncate">
                                 {player.role || 'N/A'}
@@ -374,9 +436,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                   <tr>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Player</th>
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Role</th>
-                    {showPrices && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Base Price</th>}
-                    {showPrices && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Final Price</th>}
+                    {draftMode && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pick</th>}
+                    {showPrices && !draftMode && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Base Price</th>}
+                    {showPrices && !draftMode && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Final Price</th>}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Team</th>
+                    {!draftMode && <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Round</th>}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
                   </tr>
                 </thead>
@@ -386,7 +450,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                       // First sort by captain status (captains first)
                       if (a.isCaptain && !b.isCaptain) return -1;
                       if (!a.isCaptain && b.isCaptain) return 1;
-                      // Then sort by price descending
+                      // Then by pick order in a draft (undrafted last), or by price descending
+                      if (draftMode) return (a.draftPick ?? Infinity) - (b.draftPick ?? Infinity);
                       return (b.soldPrice || 0) - (a.soldPrice || 0);
                     })
                     .map((player) => {
@@ -400,6 +465,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                                 playerName={player.name}
                                 size="sm"
                                 className="flex-shrink-0"
+                                isOverseas={player.isOverseas}
                               />
                               <span className="text-sm font-medium text-gray-900">
                                 {player.name}
@@ -410,8 +476,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                             </div>
                           </td>
                           <td className="px-4 py-3 text-sm text-gray-500">{player.role || 'N/A'}</td>
-                          {showPrices && <td className="px-4 py-3 text-sm text-gray-500">{formatCurrency(player.basePrice || 100)}</td>}
-                          {showPrices && <td className="px-4 py-3 text-sm font-medium">
+                          {draftMode && <td className="px-4 py-3 text-sm font-medium text-green-600">{formatDraftPick(player) || '-'}</td>}
+                          {showPrices && !draftMode && <td className="px-4 py-3 text-sm text-gray-500">{formatCurrency(player.originalBasePrice ?? (player.basePrice || 100))}</td>}
+                          {showPrices && !draftMode && <td className="px-4 py-3 text-sm font-medium">
                             {player.soldPrice !== undefined ? (
                               player.isCaptain ? (
                                 <span className="text-gray-400">-</span>
@@ -425,10 +492,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                           <td className="px-4 py-3 text-sm text-gray-500">
                             {team ? team.name : '-'}
                           </td>
+                          {!draftMode && (
+                            <td className="px-4 py-3 text-sm text-gray-500">
+                              {player.isRetained
+                                ? 'Retained'
+                                : player.soldInRound !== undefined ? formatAuctionRound(player.soldInRound) : '-'}
+                            </td>
+                          )}
                           <td className="px-4 py-3 text-sm">
-                            {player.soldPrice ? (
+                            {player.soldPrice || player.draftPick ? (
                               <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-                                Sold
+                                {player.draftPick ? 'Drafted' : 'Sold'}
                               </span>
                             ) : player.isUnsold ? (
                               <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
@@ -452,38 +526,40 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
           {activeTab === 'stats' && (
             <div className="space-y-6">
               {/* Key Highlights */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="bg-gradient-to-r from-blue-50 to-blue-100 rounded-lg p-6">
-                  <h4 className="text-lg font-semibold text-blue-900 mb-4">Most Expensive Player</h4>
-                  {mostExpensivePlayer ? (
+              {!draftMode && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="bg-gradient-to-r from-blue-50 to-blue-100 rounded-lg p-6">
+                    <h4 className="text-lg font-semibold text-blue-900 mb-4">Most Expensive Player</h4>
+                    {mostExpensivePlayer ? (
+                      <div>
+                        <p className="text-xl font-bold text-blue-900">
+                          {mostExpensivePlayer.name}
+                          {mostExpensivePlayer.isCaptain && (
+                            <span className="text-sm font-bold text-blue-600 ml-1">(C)</span>
+                          )}
+                        </p>
+                        <p className="text-blue-700">{mostExpensivePlayer.role || 'N/A'}</p>
+                        <p className="text-2xl font-bold text-blue-900 mt-2">
+                          {showPrices ? formatCurrency(mostExpensivePlayer.soldPrice || 0) : '***'}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-blue-700">No players sold yet</p>
+                    )}
+                  </div>
+
+                  <div className="bg-gradient-to-r from-green-50 to-green-100 rounded-lg p-6">
+                    <h4 className="text-lg font-semibold text-green-900 mb-4">Biggest Spender</h4>
                     <div>
-                      <p className="text-xl font-bold text-blue-900">
-                        {mostExpensivePlayer.name}
-                        {mostExpensivePlayer.isCaptain && (
-                          <span className="text-sm font-bold text-blue-600 ml-1">(C)</span>
-                        )}
-                      </p>
-                      <p className="text-blue-700">{mostExpensivePlayer.role || 'N/A'}</p>
-                      <p className="text-2xl font-bold text-blue-900 mt-2">
-                        {showPrices ? formatCurrency(mostExpensivePlayer.soldPrice || 0) : '***'}
+                      <p className="text-xl font-bold text-green-900">{teamWithMostSpent.name}</p>
+                      <p className="text-green-700">{teamWithMostSpent.players.length} players</p>
+                      <p className="text-2xl font-bold text-green-900 mt-2">
+                        {showPrices ? formatCurrency(getActualSpent(teamWithMostSpent)) : '***'}
                       </p>
                     </div>
-                  ) : (
-                    <p className="text-blue-700">No players sold yet</p>
-                  )}
-                </div>
-
-                <div className="bg-gradient-to-r from-green-50 to-green-100 rounded-lg p-6">
-                  <h4 className="text-lg font-semibold text-green-900 mb-4">Biggest Spender</h4>
-                  <div>
-                    <p className="text-xl font-bold text-green-900">{teamWithMostSpent.name}</p>
-                    <p className="text-green-700">{teamWithMostSpent.players.length} players</p>
-                    <p className="text-2xl font-bold text-green-900 mt-2">
-                      {showPrices ? formatCurrency(getActualSpent(teamWithMostSpent)) : '***'}
-                    </p>
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Role-wise Statistics */}
               <div className="bg-gray-50 rounded-lg p-6">
@@ -491,7 +567,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   {['Batsman', 'Bowler', 'All-Rounder', 'Wicket-Keeper'].map(role => {
                     const rolePlayers = tournament.players.filter(p => p.role === role);
-                    const soldInRole = rolePlayers.filter(p => p.soldPrice && !p.isCaptain); // Exclude captains
+                    const soldInRole = rolePlayers.filter(p => (p.soldPrice || p.draftPick) && !p.isCaptain); // Exclude captains
                     const avgPrice = soldInRole.length > 0
                       ? soldInRole.reduce((sum, p) => sum + (p.soldPrice || 0), 0) / soldInRole.length
                       : 0;
@@ -505,13 +581,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onRestart, onNewTournament }) =>
                             <span>{rolePlayers.length}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-gray-500">Sold:</span>
+                            <span className="text-gray-500">{draftMode ? 'Drafted:' : 'Sold:'}</span>
                             <span>{soldInRole.length}</span>
                           </div>
-                          <div className="flex justify-between">
-                            <span className="text-gray-500">Avg Price:</span>
-                            <span>{showPrices ? formatCurrency(avgPrice) : '***'}</span>
-                          </div>
+                          {!draftMode && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-500">Avg Price:</span>
+                              <span>{showPrices ? formatCurrency(avgPrice) : '***'}</span>
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import { Timer, Trophy, Undo, Redo, Save, ListOrdered } from 'lucide-react';
+import { useAuctionStore } from '../store/auctionStore';
+import {
+  canTeamAcquirePlayer,
+  getAuctionablePlayers,
+  getAutoDraftPick,
+  getDraftPickCount,
+  getDraftRound,
+  getDraftTurn,
+  isPlayerAvailable,
+} from '../engine/auctionEngine';
+import { formatDraftPick, formatRejectionReason } from '../utils/excelUtils';
+import ToastContainer from './ToastContainer';
+import { useToast } from '../hooks/useToast';
+import TeamCard from './TeamCard';
+import PlayerImage from './PlayerImage';
+import SaveAuctionDialog from './SaveAuctionDialog';
+
+interface DraftRoomProps {
+  onComplete: () => void;
+}
+
+/**
+ * Draft format: no bidding, teams take turns picking in snake order (1..N, then N..1).
+ * A team that runs out of time gets its highest-rated eligible player.
+ */
+const DraftRoom: React.FC<DraftRoomProps> = ({ onComplete }) => {
+  const {
+    tournament,
+    startAuction,
+    draftPlayer,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    endAuction,
+    saveCurrentAuction,
+  } = useAuctionStore();
+
+  const [timer, setTimer] = useState(tournament?.settings.timerDuration || 30);
+  const [showEndDialog, setShowEndDialog] = useState(false);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [allTeamsExpanded, setAllTeamsExpanded] = useState<boolean | null>(true);
+
+  const { toasts, removeToast, success, warning, info } = useToast();
+
+  const turn = tournament ? getDraftTurn(tournament) : null;
+  const turnSlot = turn?.slot;
+
+  // Start the draft when the component mounts
+  useEffect(() => {
+    if (tournament && !tournament.isAuctionStarted) {
+      startAuction();
+    }
+  }, [tournament, startAuction]);
+
+  useEffect(() => {
+    if (tournament?.isAuctionCompleted) {
+      onComplete();
+    }
+  }, [tournament?.isAuctionCompleted, onComplete]);
+
+  const timerDuration = tournament?.settings.timerDuration || 30;
+  const isTimerRunning = !!tournament?.settings.enableTimer && !!tournament.isAuctionStarted && turnSlot !== undefined;
+
+  // Every pick gets a fresh clock
+  useEffect(() => {
+    setTimer(timerDuration);
+  }, [turnSlot, timerDuration]);
+
+  // Pick timer - the team on the clock gets the best available player when it runs out
+  useEffect(() => {
+    if (!isTimerRunning) return;
+
+    const interval = setInterval(() => {
+      setTimer((prev) => {
+        if (prev <= 1) {
+          const { tournament: latestTournament } = useAuctionStore.getState();
+          const latestTurn = latestTournament ? getDraftTurn(latestTournament) : null;
+          const autoPick = latestTournament ? getAutoDraftPick(latestTournament) : null;
+          if (latestTurn && autoPick) {
+            info(`${autoPick.name} AUTO-PICKED`, `Time expired - drafted by ${latestTurn.team.name}`, 5000);
+            draftPlayer(latestTurn.team.id, autoPick.id);
+          }
+          return timerDuration;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isTimerRunning, turnSlot, timerDuration, draftPlayer, info]);
+
+  if (!tournament) {
+    return <div>No tournament data found</div>;
+  }
+
+  const handlePick = (playerId: string) => {
+    if (!turn) return;
+
+    const player = tournament.players.find(p => p.id === playerId);
+    const pick = getDraftPickCount(tournament) + 1;
+    const result = draftPlayer(turn.team.id, playerId);
+    if (result.ok) {
+      success(`${player?.name} DRAFTED!`, `Pick #${pick} - ${turn.team.name}`, 4000);
+    } else {
+      warning(`Can't draft ${player?.name}`, formatRejectionReason(result.reason), 4000);
+    }
+  };
+
+  const handleEndDraft = () => {
+    endAuction();
+    setShowEndDialog(false);
+  };
+
+  const handleSaveDraft = (name: string) => {
+    const savedId = saveCurrentAuction(name);
+    if (savedId) {
+      success('Draft Saved!', `"${name}" has been saved and can be resumed later from the auction history.`, 5000);
+    }
+  };
+
+  const availablePlayers = getAuctionablePlayers(tournament).filter(p => isPlayerAvailable(tournament, p));
+  const recentPicks = tournament.players
+    .filter(p => p.draftPick !== undefined)
+    .sort((a, b) => (b.draftPick ?? 0) - (a.draftPick ?? 0))
+    .slice(0, 10);
+
+  const teamsPerRound = tournament.teams.length;
+  const round = turn ? getDraftRound(tournament, turn.slot) : 0;
+  const pickInRound = turn ? (turn.slot % teamsPerRound) + 1 : 0;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <ToastContainer toasts={toasts} onRemoveToast={removeToast} />
+
+      {/* Header */}
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          {/* Timer */}
+          <div className="flex-shrink-0">
+            {tournament.settings.enableTimer ? (
+              <div className="inline-flex items-center bg-gradient-to-r from-red-500 to-orange-500 rounded-xl p-4 shadow-lg">
+                <Timer className="w-6 h-6 text-white mr-2" />
+                <div className="text-2xl font-bold text-white">
+                  {Math.floor(timer / 60)}:{(timer % 60).toString().padStart(2, '0')}
+                </div>
+              </div>
+            ) : (
+              <div className="inline-flex items-center bg-gradient-to-r from-gray-400 to-gray-500 rounded-xl p-4 shadow-lg">
+                <Timer className="w-6 h-6 text-white mr-2" />
+                <div className="text-lg font-medium text-white">
+                  No Timer
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* On the Clock */}
+          <div className="text-center">
+            {turn ? (
+              <>
+                <p className="text-sm text-gray-500">
+                  Round {round} • Pick {pickInRound} of {teamsPerRound} • Overall #{getDraftPickCount(tournament) + 1}
+                </p>
+                <h1 className="text-3xl font-bold text-gray-900">
+                  {turn.team.name} is on the clock
+                </h1>
+              </>
+            ) : (
+              <h1 className="text-3xl font-bold text-gray-900">No picks left</h1>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center space-x-2">
+            {canUndo() && (
+              <button onClick={undo} className="btn-secondary flex items-center" title="Undo last pick">
+                <Undo className="w-4 h-4 mr-1" />
+                Undo
+              </button>
+            )}
+            {canRedo() && (
+              <button onClick={redo} className="btn-secondary flex items-center" title="Redo last undone pick">
+                <Redo className="w-4 h-4 mr-1" />
+                Redo
+              </button>
+            )}
+            <button onClick={() => setShowSaveDialog(true)} className="btn-secondary flex items-center" title="Save draft progress">
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </button>
+            <button onClick={() => setShowEndDialog(true)} className="btn-danger flex items-center" title="Manually end the draft">
+              <Trophy className="w-4 h-4 mr-1" />
+              End Draft
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Available Players */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-sm font-semibold text-gray-900">Available Players</h3>
+            <div className="text-lg font-bold text-orange-600">{availablePlayers.length}</div>
+          </div>
+
+          {availablePlayers.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 max-h-[32rem] overflow-y-auto">
+              {availablePlayers.map((player) => {
+                const canPick = turn !== null && canTeamAcquirePlayer(tournament, turn.team, player);
+
+                return (
+                  <div key={player.id} className="flex items-center justify-between text-sm rounded-lg p-3 bg-gray-50">
+                    <div className="flex items-center min-w-0 flex-1">
+                      <PlayerImage
+                        imageUrl={player.imageUrl}
+                        playerName={player.name}
+                        size="sm"
+                        className="flex-shrink-0 mr-2 shadow-sm"
+                        isOverseas={player.isOverseas}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <div className="font-medium text-gray-900 truncate">{player.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {player.role || 'N/A'}
+                          {player.rating && ` • ⭐ ${player.rating}`}
+                        </div>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handlePick(player.id)}
+                      disabled={!canPick}
+                      className="btn-primary text-xs py-1 px-3 ml-2 flex-shrink-0 disabled:opacity-50"
+                      title={canPick ? `Draft for ${turn?.team.name}` : 'Squad, role or overseas limit reached'}
+                    >
+                      Pick
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center text-gray-500 text-sm py-8">
+              Everyone has been drafted
+            </div>
+          )}
+        </div>
+
+        {/* Recent Picks */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-4 flex items-center">
+            <ListOrdered className="w-4 h-4 mr-2" />
+            Recent Picks
+          </h3>
+          {recentPicks.length > 0 ? (
+            <div className="space-y-2">
+              {recentPicks.map((player) => (
+                <div key={player.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-md">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 truncate">{player.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {tournament.teams.find(t => t.id === player.teamId)?.name || 'Unknown Team'}
+                    </div>
+                  </div>
+                  <span className="text-xs font-semibold text-green-600 flex-shrink-0 ml-2">
+                    {formatDraftPick(player)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 text-sm py-8">No picks yet</p>
+          )}
+        </div>
+      </div>
+
+      {/* Teams */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold text-gray-900">Squads</h2>
+          <button
+            onClick={() => setAllTeamsExpanded(allTeamsExpanded !== true)}
+            className="text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            {allTeamsExpanded === true ? 'Collapse All' : 'Expand All'}
+          </button>
+        </div>
+        <div className="team-grid">
+          {tournament.teams.map((team) => (
+            <TeamCard
+              key={team.id}
+              team={team}
+              isSelected={false}
+              isEligible={false}
+              isHighestBidder={turn?.team.id === team.id}
+              forceExpanded={allTeamsExpanded}
+              onSelect={() => {}}
+              onPass={() => {}}
+              viewerMode={true}
+              draftMode={true}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* End Draft Confirmation Dialog */}
+      {showEndDialog && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 max-w-md mx-4 shadow-2xl">
+            <div className="text-center">
+              <div className="w-16 h-16 mx-auto mb-4 bg-gradient-to-br from-yellow-400 to-yellow-600 rounded-full flex items-center justify-center">
+                <Trophy className="w-8 h-8 text-white" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">
+                End Draft?
+              </h3>
+              <p className="text-gray-600 mb-4">
+                {turn
+                  ? 'Are you sure you want to end the draft early? Some teams still have picks to make.'
+                  : 'Are you sure you want to end the draft?'}
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setShowEndDialog(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleEndDraft}
+                  className="flex-1 px-4 py-2 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg hover:from-green-600 hover:to-green-700 transition-colors"
+                >
+                  End Draft
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Save Draft Dialog */}
+      <SaveAuctionDialog
+        isOpen={showSaveDialog}
+        onClose={() => setShowSaveDialog(false)}
+        onSave={handleSaveDraft}
+        currentName={tournament.name || 'My Draft'}
+        isCompleted={false}
+      />
+    </div>
+  );
+};
+
+export default DraftRoom;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Hand, TrendingDown } from 'lucide-react';
+import { useAuctionStore } from '../store/auctionStore';
+import { formatCurrency } from '../utils/excelUtils';
+import { getDutchPrice, getDutchStartingPrice, getEligibleTeams, getMaxBidForTeam } from '../engine/auctionEngine';
+import type { Player } from '../types';
+
+interface DutchAuctionPanelProps {
+  currentPlayer: Player;
+  disabled?: boolean;
+  onClaim: (teamId: string) => void;
+}
+
+/**
+ * Claim buttons for the Dutch format. The price falls by one increment every second and
+ * the first team to claim takes the player at the price on the clock.
+ */
+const DutchAuctionPanel: React.FC<DutchAuctionPanelProps> = ({ currentPlayer, disabled = false, onClaim }) => {
+  const { tournament, auctionState } = useAuctionStore();
+
+  if (!tournament) {
+    return null;
+  }
+
+  const eligibleTeams = getEligibleTeams(tournament, auctionState);
+  const price = getDutchPrice(tournament, auctionState, currentPlayer);
+  const startingPrice = getDutchStartingPrice(tournament, currentPlayer);
+  const floor = currentPlayer.basePrice || tournament.settings.minimumBid;
+  const isOpen = !auctionState.highestBid && !auctionState.pendingRtm;
+
+  return (
+    <div className="space-y-4 mb-4">
+      {/* Falling Price */}
+      <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 flex items-center justify-between">
+        <div>
+          <p className="text-sm text-purple-700 flex items-center">
+            <TrendingDown className="w-4 h-4 mr-1" />
+            {isOpen ? 'Price on the clock' : 'Claimed at'}
+          </p>
+          <p className="text-3xl font-bold text-purple-900">
+            {formatCurrency(auctionState.highestBid?.amount ?? price)}
+          </p>
+        </div>
+        <p className="text-xs text-purple-700 text-right">
+          Opened at {formatCurrency(startingPrice)}
+          <br />
+          Goes unsold below {formatCurrency(floor)}
+        </p>
+      </div>
+
+      {/* Claims */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {tournament.teams.map((team) => {
+          const maxBid = getMaxBidForTeam(tournament, team.id, currentPlayer);
+          const canClaim = isOpen && eligibleTeams.some(t => t.id === team.id)
+            && price <= team.remainingBudget && price <= maxBid;
+
+          return (
+            <div
+              key={team.id}
+              className={`border rounded-lg p-3 ${canClaim ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium text-gray-900 text-sm truncate">{team.name}</h4>
+                {auctionState.highestBid?.teamId === team.id && (
+                  <span className="text-xs text-green-700">Claimed</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                Budget: {formatCurrency(team.remainingBudget)} • Max: {formatCurrency(maxBid)}
+              </p>
+              <button
+                onClick={() => onClaim(team.id)}
+                disabled={!canClaim || disabled}
+                className="btn-primary w-full text-sm py-2 flex items-center justify-center disabled:opacity-50"
+              >
+                <Hand className="w-4 h-4 mr-1" />
+                Claim
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DutchAuctionPanel;
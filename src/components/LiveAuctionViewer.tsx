@@ -2,10 +2,21 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Wifi, WifiOff, Eye, Clock, RefreshCw, Trophy } from 'lucide-react';
 import { auctionSharingService, type SharedAuctionData } from '../services/auctionSharingService';
-import { formatCurrency } from '../utils/excelUtils';
+import { formatCurrency, formatHammerPhase } from '../utils/excelUtils';
+import {
+  areAcceleratedNominationsOpen,
+  areNominationsOpen,
+  getDutchPrice,
+  getMaxBidForTeam,
+  getMinimumNextBid,
+  getPlayersLeftInSet,
+  isDutchAuction,
+  isSealedBid,
+} from '../engine/auctionEngine';
 import TeamCard from './TeamCard';
 import ToastContainer from './ToastContainer';
 import { useToast } from '../hooks/useToast';
+import { useCountdown } from '../hooks/useCountdown';
 import PlayerImage from './PlayerImage';
 
 const LiveAuctionViewer: React.FC = () => {
@@ -23,6 +34,18 @@ const LiveAuctionViewer: React.FC = () => {
   // Price visibility is controlled by tournament settings, not user preference
   const showPrices = auctionData ? !auctionData.tournament.settings?.hidePricesInLiveView : true;
 
+  const [serverTimeOffset, setServerTimeOffset] = useState(0);
+  useEffect(() => auctionSharingService.monitorServerTimeOffset(setServerTimeOffset), []);
+
+  // Counted down here from the time left as of the sync, so the clock moves between updates.
+  // The sync time is the sharing backend's, so this machine's clock being off doesn't matter.
+  const sharedClock = auctionData?.auctionState;
+  const syncedAt = sharedClock?.timerSyncedAt !== undefined ? sharedClock.timerSyncedAt - serverTimeOffset : undefined;
+  const deadline = syncedAt !== undefined && sharedClock?.timerRemainingMs !== undefined
+    ? syncedAt + sharedClock.timerRemainingMs
+    : undefined;
+  const secondsLeft = useCountdown(deadline, auctionData?.tournament.pause ? syncedAt : undefined);
+
   // Track previous state for notifications
   const previousDataRef = useRef<SharedAuctionData | null>(null);
 
@@ -46,39 +69,59 @@ const LiveAuctionViewer: React.FC = () => {
           // Check for player state changes and show notifications
           if (previousDataRef.current) {
             const prevData = previousDataRef.current;
-            const prevPlayerIndex = prevData.tournament.currentPlayerIndex;
-            const currentPlayerIndex = data.tournament.currentPlayerIndex;
+            // Go by id - the shared order is shuffled when the unsold status is hidden
+            const prevPlayer = prevData.tournament.players[prevData.tournament.currentPlayerIndex];
+            const currentPlayer = data.tournament.players[data.tournament.currentPlayerIndex];
 
             // Player moved to next (either sold or unsold)
-            if (currentPlayerIndex > prevPlayerIndex) {
-              const prevPlayer = prevData.tournament.players[prevPlayerIndex];
-              if (prevPlayer) {
-                // Check if player was sold by looking at the current player state
-                const currentPlayerState = data.tournament.players[prevPlayerIndex];
-                if (currentPlayerState && currentPlayerState.soldPrice && currentPlayerState.teamId) {
-                  // Player was sold - find the team that bought them
-                  const soldTeam = data.tournament.teams?.find(t => t.id === currentPlayerState.teamId);
-                  const shouldShowPrice = !data.tournament.settings?.hidePricesInLiveView;
-                  const priceText = shouldShowPrice ? ` for ${formatCurrency(currentPlayerState.soldPrice)}` : '';
-                  success(
-                    `${prevPlayer.name} SOLD!`,
-                    `Bought by ${soldTeam?.name || 'Unknown Team'}${priceText}`,
-                    6000
-                  );
-                } else if (currentPlayerState && currentPlayerState.isUnsold) {
-                  // Player was marked as unsold
-                  warning(
-                    `${prevPlayer.name} UNSOLD`,
-                    'No bids received - player goes back to pool',
-                    4000
-                  );
-                }
+            if (prevPlayer && prevPlayer.id !== currentPlayer?.id) {
+              // Check if player was sold by looking at the current player state
+              const currentPlayerState = data.tournament.players.find(p => p.id === prevPlayer.id);
+              // Prices may be left out of the shared data, so go by the team
+              if (currentPlayerState && currentPlayerState.teamId) {
+                // Player was sold - find the team that bought them
+                const soldTeam = data.tournament.teams?.find(t => t.id === currentPlayerState.teamId);
+                const shouldShowPrice = !data.tournament.settings?.hidePricesInLiveView && currentPlayerState.soldPrice !== undefined;
+                const priceText = shouldShowPrice ? ` for ${formatCurrency(currentPlayerState.soldPrice ?? 0)}` : '';
+                success(
+                  `${prevPlayer.name} SOLD${currentPlayerState.acquiredViaRtm ? ' via RTM' : ''}!`,
+                  `Bought by ${soldTeam?.name || 'Unknown Team'}${priceText}`,
+                  6000
+                );
+              } else if (currentPlayerState && currentPlayerState.isUnsold) {
+                // Player was marked as unsold
+                warning(
+                  `${prevPlayer.name} UNSOLD`,
+                  'No bids received - player goes back to pool',
+                  4000
+                );
               }
             }
 
+            // Former team is deciding whether to use a Right-to-Match card
+            const rtmOffer = data.auctionState.pendingRtm;
+            if (rtmOffer && !prevData.auctionState.pendingRtm) {
+              const rtmPlayer = data.tournament.players.find(p => p.id === rtmOffer.playerId);
+              const rtmTeam = data.tournament.teams?.find(t => t.id === rtmOffer.teamId);
+              info(
+                `Right to Match: ${rtmPlayer?.name || 'Player'}`,
+                `${rtmTeam?.name || 'Former team'} can match the winning bid`,
+                4000
+              );
+            }
+
+            const reveal = data.auctionState.sealedReveal;
+            if (reveal && !prevData.auctionState.sealedReveal) {
+              const winner = data.tournament.teams?.find(t => t.id === reveal.winningTeamId);
+              info(
+                'Sealed bids revealed',
+                winner ? `${winner.name} has the winning bid` : reveal.tiedTeamIds ? 'Tied - the teams bid again' : 'No bids were handed in',
+                4000
+              );
+            }
+
             // New player started
-            const currentPlayer = data.tournament.players[currentPlayerIndex];
-            if (currentPlayer && currentPlayerIndex !== prevPlayerIndex) {
+            if (currentPlayer && currentPlayer.id !== prevPlayer?.id) {
               const shouldShowPrice = !data.tournament.settings?.hidePricesInLiveView;
               const basePriceText = shouldShowPrice
                 ? `Base price: ${formatCurrency(currentPlayer.basePrice || data.tournament.settings?.minimumBid || 100)}`
@@ -228,12 +271,17 @@ const LiveAuctionViewer: React.FC = () => {
 
   const { tournament, auctionState, isShuffling } = auctionData;
   const currentPlayer = tournament.players && tournament.players[tournament.currentPlayerIndex];
+  const playersLeftInSet = currentPlayer?.set ? getPlayersLeftInSet(tournament, currentPlayer.set).length : 0;
+  const nominatingTeam = tournament.teams?.find(
+    t => t.id === tournament.nominationQueue?.find(entry => entry.playerId === currentPlayer?.id)?.teamId
+  );
+  const isNominating = areNominationsOpen(tournament) || areAcceleratedNominationsOpen(tournament);
 
   // Helper function to get auctionable player count (excluding captains)
   const getAuctionablePlayerCount = () => {
     const captains = tournament.players.filter(p => p.isCaptain);
     const hasCaptains = captains.length === tournament.numberOfTeams;
-    return tournament.players.filter(p => !hasCaptains || !p.isCaptain).length;
+    return tournament.players.filter(p => !p.isRetained && (!hasCaptains || !p.isCaptain)).length;
   };
 
   // Helper function to get current auction progress (excluding captains)
@@ -241,11 +289,17 @@ const LiveAuctionViewer: React.FC = () => {
     const captains = tournament.players.filter(p => p.isCaptain);
     const hasCaptains = captains.length === tournament.numberOfTeams;
 
+    // The shared order says nothing when unsold status is hidden, so count the sales instead
+    if (tournament.settings?.hideUnsoldStatusInLiveView) {
+      const sold = tournament.players.filter(p => p.teamId && !p.isRetained && (!hasCaptains || !p.isCaptain)).length;
+      return Math.min(sold + 1, getAuctionablePlayerCount());
+    }
+
     // Find the current player's position in the auctionable players list
     let currentAuctionableIndex = 0;
     for (let i = 0; i <= tournament.currentPlayerIndex && i < tournament.players.length; i++) {
       const player = tournament.players[i];
-      if (!hasCaptains || !player.isCaptain) {
+      if (!player.isRetained && (!hasCaptains || !player.isCaptain)) {
         if (i === tournament.currentPlayerIndex) {
           break;
         }
@@ -255,26 +309,6 @@ const LiveAuctionViewer: React.FC = () => {
     return currentAuctionableIndex + 1;
   };
 
-  // Helper function to calculate max bid for a team (same logic as auction store)
-  const getMaxBidForTeam = (team: any) => {
-    if (!tournament) return 0;
-
-    const remainingSlots = team.maxPlayers - team.players.length;
-
-    // If this is the last slot, team can bid their entire remaining budget
-    if (remainingSlots <= 1) {
-      return team.remainingBudget;
-    }
-
-    // Calculate maximum bid: remaining budget minus minimum required for remaining slots
-    const minimumBid = tournament.settings?.minimumBid || 100;
-    const reserveForRemainingSlots = (remainingSlots - 1) * minimumBid;
-    const maxBid = team.remainingBudget - reserveForRemainingSlots;
-
-    // Ensure max bid is at least the minimum bid
-    return Math.max(maxBid, minimumBid);
-  };
-
   // When shuffling, keep showing the previous bid info to maintain consistency
   const shouldShowPreviousBid = isShuffling && previousDataRef.current &&
     previousDataRef.current.auctionState.highestBid !== null;
@@ -283,6 +317,8 @@ const LiveAuctionViewer: React.FC = () => {
   const displayBid = shouldShowPreviousBid ? previousDataRef.current!.auctionState.highestBid : auctionState.highestBid;
   const displayTeams = shouldShowPreviousBid ? previousDataRef.current!.tournament.teams : tournament.teams;
 
+  const { hammerPhase } = auctionState;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Toast Container */}
@@ -404,6 +440,16 @@ const LiveAuctionViewer: React.FC = () => {
                             {currentPlayer.role}
                           </span>
                         )}
+                        {currentPlayer?.set && (
+                          <span className="inline-block bg-amber-100 text-amber-800 text-sm font-medium px-2 py-1 rounded-full mt-1 ml-1">
+                            {currentPlayer.set} • {playersLeftInSet} left
+                          </span>
+                        )}
+                        {nominatingTeam && (
+                          <span className="inline-block bg-purple-100 text-purple-800 text-sm font-medium px-2 py-1 rounded-full mt-1 ml-1">
+                            Nominated by {nominatingTeam.name}
+                          </span>
+                        )}
                         <div className="mt-2 text-sm text-gray-500">
                           Player {getCurrentAuctionProgress()} of {getAuctionablePlayerCount()}
                         </div>
@@ -497,6 +543,16 @@ const LiveAuctionViewer: React.FC = () => {
                             {currentPlayer.role}
                           </span>
                         )}
+                        {currentPlayer?.set && (
+                          <span className="inline-block bg-amber-100 text-amber-800 text-sm font-medium px-2 py-1 rounded-full mt-1 ml-1">
+                            {currentPlayer.set} • {playersLeftInSet} left
+                          </span>
+                        )}
+                        {nominatingTeam && (
+                          <span className="inline-block bg-purple-100 text-purple-800 text-sm font-medium px-2 py-1 rounded-full mt-1 ml-1">
+                            Nominated by {nominatingTeam.name}
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -542,6 +598,83 @@ const LiveAuctionViewer: React.FC = () => {
           </div>
         )}
 
+        {/* Nominations */}
+        {isNominating && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 mb-4 text-sm text-purple-900">
+            <span className="font-semibold">Nominations open:</span> teams are picking which players come up next
+          </div>
+        )}
+
+        {/* Sealed Bids */}
+        {isSealedBid(tournament) && !isShuffling && (auctionState.sealedReveal || auctionState.sealedBids) && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 mb-4 text-sm text-purple-900">
+            {auctionState.sealedReveal ? (
+              <>
+                <span className="font-semibold">Sealed bids revealed:</span>{' '}
+                {auctionState.sealedReveal.bids.length > 0
+                  ? auctionState.sealedReveal.bids
+                      .map(bid => `${tournament.teams.find(t => t.id === bid.teamId)?.name || 'Unknown Team'}${showPrices ? ` ${formatCurrency(bid.amount)}` : ''}`)
+                      .join(' • ')
+                  : 'no bids'}
+                {auctionState.sealedReveal.tiedTeamIds && !auctionState.sealedReveal.winningTeamId && ' - tied teams are bidding again'}
+              </>
+            ) : (
+              <>
+                <span className="font-semibold">Sealed bidding:</span>{' '}
+                {Object.keys(auctionState.sealedBids ?? {}).length} team(s) have handed in a bid
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Paused */}
+        {tournament.pause && (
+          <div className="bg-yellow-50 border-2 border-yellow-300 rounded-lg p-4 mb-4 text-center text-yellow-900">
+            <p className="text-xl font-bold uppercase tracking-wide">Paused</p>
+            {tournament.pause.teamId && (
+              <p className="text-sm mt-1 flex items-center justify-center">
+                <Clock className="w-4 h-4 mr-1" />
+                Timeout called by {tournament.teams.find(t => t.id === tournament.pause?.teamId)?.name || 'Unknown Team'}
+                {tournament.pause.endsAt && ` until ${new Date(tournament.pause.endsAt).toLocaleTimeString()}`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Countdown to the auctioneer's deadline */}
+        {secondsLeft !== undefined && !isShuffling && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4 text-sm text-orange-900 flex items-center">
+            <Clock className="w-4 h-4 mr-2" />
+            <span className="font-semibold">
+              {Math.floor(secondsLeft / 60)}:{(secondsLeft % 60).toString().padStart(2, '0')}
+            </span>
+            {hammerPhase && (
+              <span className="ml-2 font-semibold uppercase animate-pulse">{formatHammerPhase(hammerPhase)}</span>
+            )}
+          </div>
+        )}
+
+        {/* Dutch Price */}
+        {isDutchAuction(tournament) && currentPlayer && !isShuffling && !auctionState.highestBid && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 mb-4 text-sm text-purple-900">
+            <span className="font-semibold">Price falling:</span>{' '}
+            {showPrices
+              ? <>{formatCurrency(getDutchPrice(tournament, auctionState, currentPlayer))} - first team to claim gets {currentPlayer.name}</>
+              : <>first team to claim gets {currentPlayer.name}</>}
+          </div>
+        )}
+
+        {/* Right-to-Match Decision */}
+        {auctionState.pendingRtm && (
+          <div className="bg-purple-50 border border-purple-200 rounded-lg p-3 mb-4 text-sm text-purple-900">
+            <span className="font-semibold">Right to Match:</span>{' '}
+            {tournament.teams.find(t => t.id === auctionState.pendingRtm?.teamId)?.name || 'The former team'} is deciding whether to match
+            {' '}{tournament.teams.find(t => t.id === auctionState.pendingRtm?.winningTeamId)?.name || 'the winning'} bid
+            {showPrices && ` of ${formatCurrency(auctionState.pendingRtm.amount)}`}
+            {' '}for {tournament.players.find(p => p.id === auctionState.pendingRtm?.playerId)?.name || 'this player'}
+          </div>
+        )}
+
         {/* Teams Grid - Compact */}
         <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4">
           <h3 className="text-lg font-semibold text-gray-900 mb-3">Teams</h3>
@@ -559,16 +692,15 @@ const LiveAuctionViewer: React.FC = () => {
                 };
 
                 // Calculate minBid for display purposes
-                const currentPlayerForBid = tournament.players && tournament.players[tournament.currentPlayerIndex];
-                const basePrice = currentPlayerForBid ? (currentPlayerForBid.basePrice || tournament.settings?.minimumBid || 100) : 100;
-                const currentBid = displayBid?.amount || 0;
-                const minBid = Math.max(basePrice, currentBid + (tournament.settings?.minimumBid || 100));
+                const minBid = currentPlayer
+                  ? getMinimumNextBid(tournament, { ...auctionState, highestBid: displayBid }, currentPlayer)
+                  : tournament.settings?.minimumBid || 100;
 
                 // For live viewer, calculate eligibility to show proper status messages
                 // but don't gray out teams (they should still be visible)
                 // Check squad space first (hard constraint), then budget
                 const hasSquadSpace = (safeTeam.players?.length || 0) < safeTeam.maxPlayers;
-                const hasBudget = safeTeam.remainingBudget >= minBid;
+                const hasBudget = !showPrices || safeTeam.remainingBudget >= minBid;
                 const isEligible = hasSquadSpace && hasBudget;
 
                 return (
@@ -583,7 +715,7 @@ const LiveAuctionViewer: React.FC = () => {
                     onPass={() => {}}
                     disabled={true}
                     minBid={minBid}
-                    maxBid={getMaxBidForTeam(safeTeam)}
+                    maxBid={getMaxBidForTeam({ ...tournament, teams: [safeTeam] }, safeTeam.id, currentPlayer)}
                     viewerMode={true}
                     showPrices={showPrices}
                   />
@@ -606,7 +738,7 @@ const LiveAuctionViewer: React.FC = () => {
                 {(() => {
                   const captains = tournament.players.filter(p => p.isCaptain);
                   const hasCaptains = captains.length === tournament.numberOfTeams;
-                  return tournament.players.filter(p => !p.soldPrice && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold)).length;
+                  return tournament.players.filter(p => !p.teamId && !p.isRetained && (!hasCaptains || !p.isCaptain) && tournament.players.indexOf(p) !== tournament.currentPlayerIndex).length;
                 })()}
               </div>
               <div className="text-xs md:text-sm text-gray-500">Left</div>
@@ -616,14 +748,14 @@ const LiveAuctionViewer: React.FC = () => {
           {(() => {
             const captains = tournament.players.filter(p => p.isCaptain);
             const hasCaptains = captains.length === tournament.numberOfTeams;
-            return tournament.players.filter(p => !p.soldPrice && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold)).length > 0;
+            return tournament.players.filter(p => !p.teamId && !p.isRetained && (!hasCaptains || !p.isCaptain) && tournament.players.indexOf(p) !== tournament.currentPlayerIndex).length > 0;
           })() ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 md:gap-3 max-h-64 overflow-y-auto">
               {(() => {
                 const captains = tournament.players.filter(p => p.isCaptain);
                 const hasCaptains = captains.length === tournament.numberOfTeams;
                 return tournament.players
-                  .filter(p => !p.soldPrice && (!hasCaptains || !p.isCaptain) && (tournament.players.indexOf(p) > tournament.currentPlayerIndex || p.isUnsold));
+                  .filter(p => !p.teamId && !p.isRetained && (!hasCaptains || !p.isCaptain) && tournament.players.indexOf(p) !== tournament.currentPlayerIndex);
               })()
                 .sort((a, b) => {
                   // First sort by captain status (captains first)
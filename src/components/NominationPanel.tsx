@@ -0,0 +1,112 @@
+import React from 'react';
+import { ListChecks, Play } from 'lucide-react';
+import type { Player, Team } from '../types';
+import { formatCurrency } from '../utils/excelUtils';
+import PlayerImage from './PlayerImage';
+
+interface NominationPanelProps {
+  title: string;
+  description: string;
+  players: Player[];
+  teams: Team[];
+  nominations: Record<string, string[]>;
+  minimumBid: number;
+  onNominate: (teamId: string, playerIds: string[]) => void;
+  onStart: () => void;
+}
+
+/**
+ * Nomination step where each team ticks the players it wants to bid on. Used before an
+ * accelerated unsold round and when switching the auction to accelerated mode.
+ */
+const NominationPanel: React.FC<NominationPanelProps> = ({
+  title,
+  description,
+  players,
+  teams,
+  nominations,
+  minimumBid,
+  onNominate,
+  onStart,
+}) => {
+  const nominatedCount = new Set(Object.values(nominations).flat()).size;
+
+  const toggleNomination = (teamId: string, playerId: string) => {
+    const current = nominations[teamId] ?? [];
+    const updated = current.includes(playerId)
+      ? current.filter(id => id !== playerId)
+      : [...current, playerId];
+    onNominate(teamId, updated);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+              <ListChecks className="w-6 h-6 mr-2 text-primary-600" />
+              {title}
+            </h2>
+            <p className="text-gray-600">{description}</p>
+          </div>
+          <button
+            onClick={onStart}
+            className="btn-success flex items-center justify-center flex-shrink-0"
+          >
+            <Play className="w-4 h-4 mr-2" />
+            {nominatedCount > 0 ? `Start with ${nominatedCount} Player(s)` : 'Skip'}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {teams.map((team) => {
+            const teamNominations = nominations[team.id] ?? [];
+
+            return (
+              <div key={team.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-gray-900">{team.name}</h4>
+                  <span className="text-sm text-gray-500">{teamNominations.length} nominated</span>
+                </div>
+                <p className="text-sm text-gray-500 mb-3">
+                  Remaining Budget: {formatCurrency(team.remainingBudget)} •
+                  Slots Left: {team.maxPlayers - team.players.length}
+                </p>
+                <div className="space-y-1 max-h-72 overflow-y-auto">
+                  {players.map((player) => (
+                    <label key={player.id} className="flex items-center p-2 rounded-md hover:bg-gray-50 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={teamNominations.includes(player.id)}
+                        onChange={() => toggleNomination(team.id, player.id)}
+                        className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2 flex-shrink-0"
+                      />
+                      <PlayerImage
+                        imageUrl={player.imageUrl}
+                        playerName={player.name}
+                        size="sm"
+                        className="flex-shrink-0 mr-2"
+                        isOverseas={player.isOverseas}
+                      />
+                      <span className="flex-1 min-w-0 truncate">
+                        {player.name}
+                        {player.role && <span className="text-gray-500 ml-1">({player.role})</span>}
+                        {player.isUnsold && <span className="text-red-500 ml-1">• Unsold</span>}
+                      </span>
+                      <span className="text-xs text-gray-500 ml-2 flex-shrink-0">
+                        {formatCurrency(player.basePrice || minimumBid)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NominationPanel;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User, Crown } from 'lucide-react';
+import { User, Crown, Plane } from 'lucide-react';
 import { imageCacheService } from '../services/imageCacheService';
 
 interface PlayerImageProps {
@@ -8,6 +8,7 @@ interface PlayerImageProps {
   size?: 'sm' | 'md' | 'lg' | 'xl' | '2xl';
   className?: string;
   isCaptain?: boolean;
+  isOverseas?: boolean;
 }
 
 const PlayerImage: React.FC<PlayerImageProps> = ({
@@ -15,7 +16,8 @@ const PlayerImage: React.FC<PlayerImageProps> = ({
   playerName,
   size = 'md',
   className = '',
-  isCaptain = false
+  isCaptain = false,
+  isOverseas = false
 }) => {
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
@@ -133,6 +135,13 @@ const PlayerImage: React.FC<PlayerImageProps> = ({
           <Crown className={`${captainIconSizes[size]} text-yellow-800`} />
         </div>
       )}
+
+      {/* Overseas Indicator */}
+      {isOverseas && (
+        <div className="absolute -bottom-1 -right-1 bg-sky-400 rounded-full p-1 border-2 border-white shadow-lg" title="Overseas player">
+          <Plane className={`${captainIconSizes[size]} text-sky-900`} />
+        </div>
+      )}
     </div>
   );
 };
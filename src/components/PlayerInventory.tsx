@@ -1,8 +1,9 @@
 import React, { useState, useRef } from 'react';
-import { Upload, Download, FileSpreadsheet, AlertCircle, CheckCircle, Image } from 'lucide-react';
+import { Upload, Download, FileSpreadsheet, AlertCircle, CheckCircle, Image, ArrowUp, ArrowDown } from 'lucide-react';
 import { useAuctionStore } from '../store/auctionStore';
 import { readExcelFile, validatePlayerData, generateSampleExcelFile, formatCurrency } from '../utils/excelUtils';
 import { imageCacheService } from '../services/imageCacheService';
+import { getSetOrder } from '../engine/auctionEngine';
 import type { Player } from '../types';
 
 interface PlayerInventoryProps {
@@ -24,8 +25,24 @@ const PlayerInventory: React.FC<PlayerInventoryProps> = ({ onNext, onBack }) =>
     loaded: number;
     total: number;
   } | null>(null);
+  const [setOrder, setSetOrder] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Sets found in the upload, in the order they will be auctioned
+  const auctionSets = validationResult
+    ? getSetOrder(validationResult.validPlayers, setOrder.length > 0 ? setOrder : tournament?.settings.setOrder)
+        .filter(name => validationResult.validPlayers.some(p => p.set === name))
+    : [];
+
+  const moveSet = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= auctionSets.length) return;
+
+    const reordered = [...auctionSets];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSetOrder(reordered);
+  };
+
   const handleFileUpload = async (file: File) => {
     if (!file.name.endsWith('.xlsx') && !file.name.endsWith('.xls')) {
       alert('Please upload an Excel file (.xlsx or .xls)');
@@ -100,7 +117,7 @@ const PlayerInventory: React.FC<PlayerInventoryProps> = ({ onNext, onBack }) =>
 
   const handleConfirmPlayers = () => {
     if (validationResult?.validPlayers) {
-      setPlayers(validationResult.validPlayers);
+      setPlayers(validationResult.validPlayers, auctionSets.length > 0 ? auctionSets : undefined);
       onNext();
     }
   };
@@ -309,6 +326,47 @@ const PlayerInventory: React.FC<PlayerInventoryProps> = ({ onNext, onBack }) =>
                   </div>
                 </div>
 
+                {/* Auction Sets */}
+                {auctionSets.length > 0 && (
+                  <div className="bg-white rounded border p-4 mb-4">
+                    <h5 className="font-medium mb-1">Auction Order by Set:</h5>
+                    <p className="text-sm text-gray-500 mb-3">
+                      Sets are auctioned top to bottom and shuffled within each set. Players without a set go last.
+                    </p>
+                    <div className="space-y-2">
+                      {auctionSets.map((name, index) => (
+                        <div key={name} className="flex items-center justify-between p-2 bg-gray-50 rounded-md text-sm">
+                          <span>
+                            <span className="text-gray-500 mr-2">{index + 1}.</span>
+                            <span className="font-medium">{name}</span>
+                            <span className="text-gray-500 ml-2">
+                              ({validationResult.validPlayers.filter(p => p.set === name).length} players)
+                            </span>
+                          </span>
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={() => moveSet(index, -1)}
+                              disabled={index === 0}
+                              className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                              title="Move up"
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => moveSet(index, 1)}
+                              disabled={index === auctionSets.length - 1}
+                              className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                              title="Move down"
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <button
                   onClick={handleConfirmPlayers}
                   className="btn-success"
@@ -349,6 +407,7 @@ const PlayerInventory: React.FC<PlayerInventoryProps> = ({ onNext, onBack }) =>
               <li><strong>Rating</strong> (Optional): Player skill rating from 0-100</li>
               <li><strong>Image URL</strong> (Optional): Direct link to player's photo (e.g., https://example.com/player.jpg)</li>
               <li><strong>Captain</strong> (Optional): Mark as captain with "yes" (exactly {tournament?.numberOfTeams || 4} captains required)</li>
+              <li><strong>Set</strong> (Optional): Auction set such as Marquee or Uncapped - players are auctioned set by set</li>
             </ul>
           </div>
         </div>
@@ -360,7 +419,7 @@ const PlayerInventory: React.FC<PlayerInventoryProps> = ({ onNext, onBack }) =>
           </button>
           {validationResult?.isValid && (
             <button onClick={handleConfirmPlayers} className="btn-primary">
-              Next: Team Setup
+              Next: Retentions
             </button>
           )}
         </div>
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Bot, Plus, Trash2 } from 'lucide-react';
+import { useAuctionStore } from '../store/auctionStore';
+import { formatCurrency } from '../utils/excelUtils';
+import { getAuctionablePlayers, isPlayerAvailable } from '../engine/auctionEngine';
+import type { PlayerRole } from '../types';
+
+const PLAYER_ROLES: PlayerRole[] = ['Batsman', 'Bowler', 'All-Rounder', 'Wicket-Keeper'];
+
+/**
+ * Standing instructions for owners who can't be in the room, e.g. "up to ₹8 Cr for Player X"
+ * or "up to ₹2 Cr on any Wicket-Keeper". Every rival bid is answered automatically by one
+ * increment while the limit and the team's maximum bid allow it.
+ */
+const ProxyBidPanel: React.FC = () => {
+  const { tournament, proxyBids, addProxyBid, removeProxyBid } = useAuctionStore();
+  const [teamId, setTeamId] = useState('');
+  const [target, setTarget] = useState('');
+  const [maxAmount, setMaxAmount] = useState<number>(0);
+
+  if (!tournament) {
+    return null;
+  }
+
+  const players = getAuctionablePlayers(tournament).filter(p => isPlayerAvailable(tournament, p));
+  const teamName = (id: string) => tournament.teams.find(t => t.id === id)?.name || 'Unknown Team';
+  const targetName = (playerId?: string, role?: PlayerRole) => {
+    if (playerId) return tournament.players.find(p => p.id === playerId)?.name || 'Unknown Player';
+    return `Any ${role}`;
+  };
+
+  // Role targets are stored as "role:<role>", player targets as the player id
+  const handleAdd = () => {
+    if (!teamId || !target || maxAmount <= 0) return;
+
+    const role = target.startsWith('role:') ? target.slice('role:'.length) as PlayerRole : undefined;
+    addProxyBid({ teamId, maxAmount, ...(role ? { role } : { playerId: target }) });
+    setTarget('');
+    setMaxAmount(0);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center">
+        <Bot className="w-4 h-4 mr-1" />
+        Proxy Bids
+      </h3>
+
+      <div className="space-y-2 mb-3">
+        <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className="input-field text-sm">
+          <option value="">Team...</option>
+          {tournament.teams.map((team) => (
+            <option key={team.id} value={team.id}>{team.name}</option>
+          ))}
+        </select>
+        <select value={target} onChange={(e) => setTarget(e.target.value)} className="input-field text-sm">
+          <option value="">Player or role...</option>
+          <optgroup label="Any player in a role">
+            {PLAYER_ROLES.map((role) => (
+              <option key={role} value={`role:${role}`}>Any {role}</option>
+            ))}
+          </optgroup>
+          <optgroup label="A specific player">
+            {players.map((player) => (
+              <option key={player.id} value={player.id}>{player.name}</option>
+            ))}
+          </optgroup>
+        </select>
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <input
+              type="number"
+              value={maxAmount || ''}
+              onChange={(e) => setMaxAmount(Number(e.target.value))}
+              min={0}
+              step={tournament.settings.bidIncrement}
+              className="input-field text-sm pr-20"
+              placeholder="Bid up to"
+            />
+            <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+              <span className="text-xs text-gray-600">{formatCurrency(maxAmount || 0)}</span>
+            </div>
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!teamId || !target || maxAmount <= 0}
+            className="btn-primary text-sm py-2 px-3 flex items-center disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </button>
+        </div>
+      </div>
+
+      {proxyBids.length > 0 ? (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {proxyBids.map((proxyBid) => (
+            <div key={proxyBid.id} className="flex items-center justify-between text-sm">
+              <span className="truncate">
+                <span className="font-medium">{teamName(proxyBid.teamId)}</span>
+                <span className="text-gray-500"> • {targetName(proxyBid.playerId, proxyBid.role)}</span>
+              </span>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <span className="font-semibold text-blue-600">{formatCurrency(proxyBid.maxAmount)}</span>
+                <button
+                  onClick={() => removeProxyBid(proxyBid.id)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove proxy bid"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-gray-500 text-sm py-4">No proxy bids</p>
+      )}
+    </div>
+  );
+};
+
+export default ProxyBidPanel;
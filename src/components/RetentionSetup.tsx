@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Unlock, FileSpreadsheet } from 'lucide-react';
+import { useAuctionStore } from '../store/auctionStore';
+import { formatCurrency, formatRejectionReason } from '../utils/excelUtils';
+import { usesCaptains } from '../engine/auctionEngine';
+import PlayerImage from './PlayerImage';
+import ToastContainer from './ToastContainer';
+import { useToast } from '../hooks/useToast';
+
+interface RetentionSetupProps {
+  onNext: () => void;
+  onBack: () => void;
+}
+
+const RetentionSetup: React.FC<RetentionSetupProps> = ({ onNext, onBack }) => {
+  const {
+    tournament,
+    assignCaptainsToTeams,
+    retainPlayer,
+    releaseRetention,
+    applyImportedRetentions,
+  } = useAuctionStore();
+  const { toasts, removeToast, success, warning } = useToast();
+  const [selectedPlayers, setSelectedPlayers] = useState<Record<string, string>>({});
+  const [prices, setPrices] = useState<Record<string, number>>({});
+
+  // Captains are retained automatically, so they show up here straight away
+  useEffect(() => {
+    assignCaptainsToTeams();
+  }, [assignCaptainsToTeams]);
+
+  if (!tournament) {
+    return <div>No tournament data found</div>;
+  }
+
+  const maxRetentions = tournament.settings.maxRetentionsPerTeam;
+  const hasCaptains = usesCaptains(tournament);
+  const availablePlayers = tournament.players.filter(p => !p.isRetained && !p.teamId && (!hasCaptains || !p.isCaptain));
+  const pendingImports = tournament.players.filter(p => p.retainedBy && !p.isRetained);
+
+  const getDefaultPrice = (playerId: string): number => {
+    const player = tournament.players.find(p => p.id === playerId);
+    return player?.retentionPrice ?? tournament.settings.retentionPrice ?? (player?.basePrice || tournament.settings.minimumBid);
+  };
+
+  const handleSelectPlayer = (teamId: string, playerId: string) => {
+    setSelectedPlayers(prev => ({ ...prev, [teamId]: playerId }));
+    setPrices(prev => ({ ...prev, [teamId]: playerId ? getDefaultPrice(playerId) : 0 }));
+  };
+
+  const handleRetain = (teamId: string) => {
+    const playerId = selectedPlayers[teamId];
+    if (!playerId) return;
+
+    const player = tournament.players.find(p => p.id === playerId);
+    const result = retainPlayer(playerId, teamId, prices[teamId]);
+    if (result.ok) {
+      setSelectedPlayers(prev => ({ ...prev, [teamId]: '' }));
+      success(`${player?.name} retained`, `Retained for ${formatCurrency(prices[teamId] || 0)}`, 3000);
+    } else {
+      warning(
+        `Can't retain ${player?.name}`,
+        result.reason === 'NOT_ALLOWED'
+          ? 'Check the retention limit, remaining budget, squad size and role limits'
+          : formatRejectionReason(result.reason),
+        5000
+      );
+    }
+  };
+
+  const handleApplyImported = () => {
+    const failed = applyImportedRetentions();
+    if (failed.length > 0) {
+      warning('Some retentions could not be applied', failed.join(', '), 6000);
+    } else {
+      success('Imported retentions applied', undefined, 3000);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <ToastContainer toasts={toasts} onRemoveToast={removeToast} />
+
+      <div className="card">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            Player Retentions
+          </h2>
+          <p className="text-gray-600">
+            Let each team keep players before the auction. The retention price comes out of the team's budget and the player fills a squad slot.
+            {maxRetentions !== undefined && ` Each team can retain up to ${maxRetentions} player(s), captains included.`}
+          </p>
+        </div>
+
+        {/* Imported Retentions */}
+        {pendingImports.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+            <div className="flex items-center text-sm text-blue-800">
+              <FileSpreadsheet className="w-5 h-5 mr-2 flex-shrink-0" />
+              {pendingImports.length} player(s) marked as retained in your Excel file
+            </div>
+            <button onClick={handleApplyImported} className="btn-primary text-sm">
+              Apply Imported Retentions
+            </button>
+          </div>
+        )}
+
+        {/* Team Retentions */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          {tournament.teams.map((team) => {
+            const retained = team.players.filter(p => p.isRetained);
+            const isAtLimit = maxRetentions !== undefined && retained.length >= maxRetentions;
+
+            return (
+              <div key={team.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-gray-900">{team.name}</h4>
+                  <span className="text-sm text-gray-500">
+                    {retained.length}{maxRetentions !== undefined && `/${maxRetentions}`} retained
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 mb-3">
+                  Remaining Budget: {formatCurrency(team.remainingBudget)} •
+                  Slots Left: {team.maxPlayers - team.players.length}
+                </p>
+
+                {retained.length > 0 ? (
+                  <div className="space-y-2 mb-3">
+                    {retained.map((player) => (
+                      <div key={player.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md">
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <PlayerImage
+                            imageUrl={player.imageUrl}
+                            playerName={player.name}
+                            size="sm"
+                            className="flex-shrink-0"
+                            isCaptain={player.isCaptain}
+                            isOverseas={player.isOverseas}
+                          />
+                          <span className="text-sm font-medium text-gray-900 truncate">
+                            {player.name}
+                            {player.isCaptain && (
+                              <span className="text-xs font-bold text-blue-600 ml-1">(C)</span>
+                            )}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <span className="text-xs font-semibold text-green-600">
+                            {player.soldPrice ? formatCurrency(player.soldPrice) : 'Free'}
+                          </span>
+                          {!(player.isCaptain && hasCaptains) && (
+                            <button
+                              onClick={() => releaseRetention(player.id)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Release back into the auction pool"
+                            >
+                              <Unlock className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-400 mb-3">No retained players</p>
+                )}
+
+                {!isAtLimit && (
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={selectedPlayers[team.id] || ''}
+                      onChange={(e) => handleSelectPlayer(team.id, e.target.value)}
+                      className="input-field text-sm flex-1 min-w-0"
+                    >
+                      <option value="">Select a player</option>
+                      {availablePlayers.map((player) => (
+                        <option key={player.id} value={player.id}>
+                          {player.name}{player.role ? ` (${player.role})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={prices[team.id] ?? ''}
+                      onChange={(e) => setPrices(prev => ({ ...prev, [team.id]: Number(e.target.value) }))}
+                      disabled={!selectedPlayers[team.id]}
+                      className="input-field text-sm w-28"
+                      placeholder="Price"
+                    />
+                    <button
+                      onClick={() => handleRetain(team.id)}
+                      disabled={!selectedPlayers[team.id]}
+                      className="btn-secondary text-sm py-2 flex items-center disabled:opacity-50"
+                    >
+                      <Lock className="w-4 h-4 mr-1" />
+                      Retain
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex justify-between pt-6 border-t border-gray-200">
+          <button onClick={onBack} className="btn-secondary">
+            Back to Player Upload
+          </button>
+          <button onClick={onNext} className="btn-primary">
+            Next: Team Setup
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RetentionSetup;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Eye, Lock, CheckCircle } from 'lucide-react';
+import { useAuctionStore } from '../store/auctionStore';
+import { formatCurrency, formatRejectionReason } from '../utils/excelUtils';
+import { getEligibleTeams, getMaxBidForTeam, getMinimumSealedBid, type RejectionReason } from '../engine/auctionEngine';
+import type { Player, SealedBidTieBreak } from '../types';
+
+interface SealedBidPanelProps {
+  currentPlayer: Player;
+}
+
+const TIE_BREAK_LABELS: Record<SealedBidTieBreak, string> = {
+  'budget': 'settled on remaining budget',
+  'coin-toss': 'settled by a coin toss',
+  'rebid': 'sent to a re-bid',
+};
+
+/**
+ * Bid collection for the sealed-bid format. Amounts are typed into masked fields and stay
+ * hidden until the auctioneer reveals them.
+ */
+const SealedBidPanel: React.FC<SealedBidPanelProps> = ({ currentPlayer }) => {
+  const { tournament, auctionState, submitSealedBid, revealSealedBids, passTeam } = useAuctionStore();
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [rejected, setRejected] = useState<Record<string, RejectionReason | undefined>>({});
+
+  if (!tournament) {
+    return null;
+  }
+
+  const eligibleTeams = getEligibleTeams(tournament, auctionState);
+  const sealedBids = auctionState.sealedBids ?? {};
+  const reveal = auctionState.sealedReveal;
+  const isCollecting = !auctionState.highestBid;
+  const minBid = getMinimumSealedBid(tournament, auctionState, currentPlayer);
+  const teamName = (teamId: string) => tournament.teams.find(t => t.id === teamId)?.name || 'Unknown Team';
+
+  const handleSubmit = (teamId: string) => {
+    const result = submitSealedBid(teamId, Number(amounts[teamId]));
+    setRejected(prev => ({ ...prev, [teamId]: result.ok ? undefined : result.reason }));
+    if (result.ok) {
+      setAmounts(prev => ({ ...prev, [teamId]: '' }));
+    }
+  };
+
+  return (
+    <div className="space-y-4 mb-4">
+      {/* Reveal Results */}
+      {reveal && (
+        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-purple-900 mb-2">
+            {reveal.winningTeamId
+              ? `${teamName(reveal.winningTeamId)} wins with ${formatCurrency(reveal.bids[0].amount)}`
+              : reveal.tiedTeamIds
+                ? `Tie at ${formatCurrency(reveal.bids[0].amount)} - ${reveal.tiedTeamIds.map(teamName).join(' and ')} bid again (min ${formatCurrency(minBid)})`
+                : 'No sealed bids were handed in'}
+          </h3>
+          {reveal.winningTeamId && reveal.tiedTeamIds && (
+            <p className="text-xs text-purple-700 mb-2">
+              Tie {TIE_BREAK_LABELS[tournament.settings.sealedBidTieBreak ?? 'budget']}
+            </p>
+          )}
+          {reveal.bids.length > 0 && (
+            <div className="space-y-1">
+              {reveal.bids.map((bid) => (
+                <div key={bid.teamId} className="flex items-center justify-between text-sm">
+                  <span className={bid.teamId === reveal.winningTeamId ? 'font-semibold text-purple-900' : 'text-gray-700'}>
+                    {teamName(bid.teamId)}
+                  </span>
+                  <span className="font-medium">{formatCurrency(bid.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bid Collection */}
+      {isCollecting && (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {Object.keys(sealedBids).length} of {eligibleTeams.length} eligible team(s) have handed in a bid.
+              Min: <span className="font-semibold text-green-600">{formatCurrency(minBid)}</span>
+            </p>
+            <button
+              onClick={revealSealedBids}
+              className="btn-primary flex items-center text-sm py-2 px-3"
+            >
+              <Eye className="w-4 h-4 mr-1" />
+              Reveal Bids
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {tournament.teams.map((team) => {
+              const isEligible = eligibleTeams.some(t => t.id === team.id)
+                && (!auctionState.rebidTeamIds || auctionState.rebidTeamIds.includes(team.id));
+              const hasBid = sealedBids[team.id] !== undefined;
+              const hasPassed = auctionState.passedTeams.includes(team.id);
+              const maxBid = getMaxBidForTeam(tournament, team.id, currentPlayer);
+              const rejection = rejected[team.id];
+
+              return (
+                <div
+                  key={team.id}
+                  className={`border rounded-lg p-3 ${isEligible ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="font-medium text-gray-900 text-sm truncate">{team.name}</h4>
+                    {hasBid ? (
+                      <span className="flex items-center text-xs text-green-700">
+                        <CheckCircle className="w-3 h-3 mr-1" />
+                        Bid sealed
+                      </span>
+                    ) : hasPassed ? (
+                      <span className="text-xs text-gray-500">Passed</span>
+                    ) : null}
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Budget: {formatCurrency(team.remainingBudget)} • Max: {formatCurrency(maxBid)}
+                  </p>
+                  {isEligible && (
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        value={amounts[team.id] ?? ''}
+                        onChange={(e) => setAmounts(prev => ({ ...prev, [team.id]: e.target.value }))}
+                        className="input-field text-sm flex-1 min-w-0"
+                        placeholder={hasBid ? 'Change bid' : 'Hidden bid'}
+                      />
+                      <button
+                        onClick={() => handleSubmit(team.id)}
+                        disabled={!amounts[team.id]}
+                        className="btn-primary text-xs py-2 px-2 flex items-center disabled:opacity-50"
+                      >
+                        <Lock className="w-3 h-3 mr-1" />
+                        Seal
+                      </button>
+                      <button
+                        onClick={() => passTeam(team.id)}
+                        className="btn-secondary text-xs py-2 px-2"
+                      >
+                        Pass
+                      </button>
+                    </div>
+                  )}
+                  {rejection && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {formatRejectionReason(rejection)} - bids run from {formatCurrency(minBid)} to {formatCurrency(maxBid)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SealedBidPanel;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Check, Star } from 'lucide-react';
 import type { Team } from '../types';
-import { formatCurrency } from '../utils/excelUtils';
+import { formatCurrency, formatDraftPick } from '../utils/excelUtils';
 import PlayerImage from './PlayerImage';
 
 // Role icons mapping
@@ -28,12 +28,15 @@ interface TeamCardProps {
   onSelect: () => void;
   onPass: () => void;
   onQuickBid?: () => void;
+  onTimeout?: () => void; // Strategic timeout called by the auctioneer for this team
+  timeoutsLeft?: number;
   disabled?: boolean;
   maxBid?: number;
   minBid?: number;
   forceExpanded?: boolean | null;
   viewerMode?: boolean; // New prop for live viewer mode
   showPrices?: boolean; // New prop to control price visibility
+  draftMode?: boolean; // Show pick numbers instead of budgets and prices
 }
 
 const TeamCard: React.FC<TeamCardProps> = ({
@@ -44,12 +47,15 @@ const TeamCard: React.FC<TeamCardProps> = ({
   onSelect,
   onPass,
   onQuickBid,
+  onTimeout,
+  timeoutsLeft = 0,
   disabled = false,
   maxBid,
   minBid,
   forceExpanded = null,
   viewerMode = false,
   showPrices = true,
+  draftMode = false,
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -103,12 +109,14 @@ const TeamCard: React.FC<TeamCardProps> = ({
         {/* Budget and Players - Clean Row */}
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-3">
-            <div className="text-left">
-              <div className="text-lg font-semibold text-gray-900">
-                {showPrices ? formatCurrency(team.remainingBudget) : '***'}
+            {!draftMode && (
+              <div className="text-left">
+                <div className="text-lg font-semibold text-gray-900">
+                  {showPrices ? formatCurrency(team.remainingBudget) : '***'}
+                </div>
+                <div className="text-xs text-gray-500">Budget Left</div>
               </div>
-              <div className="text-xs text-gray-500">Budget Left</div>
-            </div>
+            )}
             <div className="text-left">
               <div className="text-sm font-medium text-gray-700">
                 {team.players?.length || 0}/{team.maxPlayers}
@@ -129,7 +137,7 @@ const TeamCard: React.FC<TeamCardProps> = ({
         </div>
 
         {/* Action Buttons - Compact */}
-        {isEligible && !disabled && (
+        {isEligible && !disabled && !draftMode && (
           <div className="flex space-x-2">
             {/* BID Button */}
             {onQuickBid && minBid !== undefined && maxBid !== undefined && maxBid >= minBid && (
@@ -161,7 +169,22 @@ const TeamCard: React.FC<TeamCardProps> = ({
           </div>
         )}
 
-        {!isEligible && (
+        {/* Timeout Button */}
+        {onTimeout && !viewerMode && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onTimeout();
+            }}
+            disabled={timeoutsLeft <= 0}
+            className="w-full py-1 rounded-md text-xs font-medium bg-yellow-50 text-yellow-800 hover:bg-yellow-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={`${timeoutsLeft} timeout(s) left`}
+          >
+            Timeout ({timeoutsLeft})
+          </button>
+        )}
+
+        {!isEligible && !draftMode && (
           <div className="text-center py-1 text-sm text-gray-500">
             {(team.players?.length || 0) >= team.maxPlayers ? 'Squad Full' :
              team.remainingBudget < (minBid || 100) ? 'Insufficient Budget' : 'Passed'}
@@ -177,13 +200,15 @@ const TeamCard: React.FC<TeamCardProps> = ({
               <h4 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
                 Squad ({team.players?.length || 0}/{team.maxPlayers})
               </h4>
-              <div className="text-xs text-gray-500">
-                Spent: {showPrices ? formatCurrency(
-                  team.players
-                    .filter(p => !p.isCaptain) // Exclude captains from budget calculations
-                    .reduce((sum, p) => sum + (p.soldPrice || 0), 0)
-                ) : '***'}
-              </div>
+              {!draftMode && (
+                <div className="text-xs text-gray-500">
+                  Spent: {showPrices ? formatCurrency(
+                    team.players
+                      .filter(p => !p.isCaptain) // Exclude captains from budget calculations
+                      .reduce((sum, p) => sum + (p.soldPrice || 0), 0)
+                  ) : '***'}
+                </div>
+              )}
             </div>
 
             <div className="grid gap-1.5">
@@ -192,7 +217,8 @@ const TeamCard: React.FC<TeamCardProps> = ({
                   // First sort by captain status (captains first)
                   if (a.isCaptain && !b.isCaptain) return -1;
                   if (!a.isCaptain && b.isCaptain) return 1;
-                  // Then sort by price descending
+                  // Then by pick order in a draft, or by price descending
+                  if (draftMode) return (a.draftPick ?? 0) - (b.draftPick ?? 0);
                   return (b.soldPrice || 0) - (a.soldPrice || 0);
                 })
                 .map((player) => (
@@ -207,6 +233,7 @@ const TeamCard: React.FC<TeamCardProps> = ({
                         playerName={player.name}
                         size="sm"
                         className="flex-shrink-0"
+                        isOverseas={player.isOverseas}
                       />
 
                       <div className="min-w-0 flex-1">
@@ -217,6 +244,9 @@ const TeamCard: React.FC<TeamCardProps> = ({
                             {player.isCaptain && (
                               <span className="text-xs font-bold text-blue-600 ml-1">(C)</span>
                             )}
+                            {player.acquiredViaRtm && (
+                              <span className="text-xs font-bold text-purple-600 ml-1">(RTM)</span>
+                            )}
                           </span>
                           {player.rating && player.rating >= 85 && (
                             <Star className="w-3 h-3 text-yellow-500 flex-shrink-0" />
@@ -230,7 +260,9 @@ const TeamCard: React.FC<TeamCardProps> = ({
                       </div>
                     </div>
                     <div className="text-xs font-semibold text-green-600 flex-shrink-0">
-                      {showPrices ? (
+                      {draftMode ? (
+                        formatDraftPick(player) || <span className="text-gray-400">-</span>
+                      ) : showPrices ? (
                         player.isCaptain ? (
                           <span className="text-gray-400">-</span>
                         ) : (
@@ -282,6 +314,16 @@ const TeamCard: React.FC<TeamCardProps> = ({
                     </div>
                     <div className="text-gray-500">Keepers</div>
                   </div>
+                  <div className="text-center col-span-2">
+                    <div className="flex items-center justify-center space-x-1 mb-1">
+                      <span>✈️</span>
+                      <span className="font-medium text-gray-900">
+                        {(team.players || []).filter(p => p.isOverseas).length}
+                        {team.maxForeignPlayers !== undefined && ` / ${team.maxForeignPlayers}`}
+                      </span>
+                    </div>
+                    <div className="text-gray-500">Overseas</div>
+                  </div>
                 </div>
               </div>
             )}
@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Wifi, WifiOff, Gavel, Hand, Lock } from 'lucide-react';
+import { auctionSharingService, type RemoteBidRequest, type SharedAuctionData } from '../services/auctionSharingService';
+import { formatCurrency, formatRejectionReason } from '../utils/excelUtils';
+import {
+  getCurrentPlayer,
+  getDutchPrice,
+  getMaxBidForTeam,
+  getMinimumNextBid,
+  getMinimumSealedBid,
+  isDraft,
+  isDutchAuction,
+  isSealedBid,
+} from '../engine/auctionEngine';
+import PlayerImage from './PlayerImage';
+
+/**
+ * A team owner's console, reached from the team's own share link. It shows the controls for the
+ * tournament's format; bids, passes and claims go into the shared auction's queue with the team's
+ * key from the link, and the auctioneer's screen checks the key, then applies them or turns them
+ * down with a reason.
+ */
+const TeamOwnerConsole: React.FC = () => {
+  const { auctionId, teamId } = useParams<{ auctionId: string; teamId: string }>();
+  const [searchParams] = useSearchParams();
+  const key = searchParams.get('key');
+
+  const [auctionData, setAuctionData] = useState<SharedAuctionData | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bidAmount, setBidAmount] = useState<number>(0);
+  const [lastRequestId, setLastRequestId] = useState<string | null>(null);
+  const [lastRequest, setLastRequest] = useState<RemoteBidRequest | null>(null);
+
+  useEffect(() => {
+    if (!auctionId) {
+      setError('Invalid auction link');
+      return;
+    }
+
+    const unsubscribe = auctionSharingService.subscribeToAuction(
+      auctionId,
+      (data) => {
+        setAuctionData(data);
+        setIsConnected(true);
+        setError(null);
+      },
+      (error) => {
+        setError(error.message);
+        setIsConnected(false);
+      }
+    );
+    const unsubscribeConnection = auctionSharingService.monitorConnection(setIsConnected);
+
+    return () => {
+      unsubscribe();
+      unsubscribeConnection();
+    };
+  }, [auctionId]);
+
+  // Follow the request this console sent last
+  useEffect(() => {
+    if (!auctionId || !lastRequestId) return;
+
+    return auctionSharingService.subscribeToBidRequest(auctionId, lastRequestId, setLastRequest);
+  }, [auctionId, lastRequestId]);
+
+  if (error || !auctionData?.tournament) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <p className="text-gray-600">{error || 'Connecting to auction...'}</p>
+      </div>
+    );
+  }
+
+  const { tournament, auctionState, isShuffling } = auctionData;
+  const team = tournament.teams?.find(t => t.id === teamId);
+  if (!team || !auctionId || !key) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <p className="text-gray-600">
+          {!key ? 'This console link is missing its team key - ask the auctioneer for a new link' : 'This team is not part of the auction'}
+        </p>
+      </div>
+    );
+  }
+
+  // Firebase drops empty arrays, so fill them back in before asking the engine
+  const safeTeam = { ...team, players: team.players || [] };
+  const safeTournament = { ...tournament, players: tournament.players || [], teams: tournament.teams.map(t => ({ ...t, players: t.players || [] })) };
+  const safeAuctionState = { ...auctionState, passedTeams: auctionState.passedTeams || [] };
+
+  const currentPlayer = !isShuffling ? getCurrentPlayer(safeTournament, safeAuctionState) : null;
+  const minBid = currentPlayer ? getMinimumNextBid(safeTournament, safeAuctionState, currentPlayer) : 0;
+  const maxBid = currentPlayer ? getMaxBidForTeam(safeTournament, safeTeam.id, currentPlayer) : 0;
+  const isHighestBidder = auctionState.highestBid?.teamId === team.id;
+  const hasPassed = safeAuctionState.passedTeams.includes(team.id);
+  const canAct = !!currentPlayer && !tournament.pause && !isHighestBidder && !hasPassed;
+  // Only the tied teams bid again in a sealed re-bid; the shared data says who has bid, not how much
+  const hasSealedBid = auctionState.sealedBids?.[team.id] !== undefined;
+  const canSeal = !!currentPlayer && !tournament.pause && !hasPassed && !auctionState.highestBid
+    && (!auctionState.rebidTeamIds || auctionState.rebidTeamIds.includes(team.id));
+  const minSealedBid = currentPlayer ? getMinimumSealedBid(safeTournament, safeAuctionState, currentPlayer) : 0;
+  const dutchPrice = currentPlayer ? getDutchPrice(safeTournament, safeAuctionState, currentPlayer) : 0;
+  const isWaiting = lastRequest?.status === 'pending' || (!!lastRequestId && !lastRequest);
+  // With prices hidden the shared data has no purses or bids, so bids go in at the auctioneer's next step
+  const showPrices = !tournament.settings.hidePricesInLiveView;
+
+  const sendRequest = async (type: RemoteBidRequest['type'], amount?: number) => {
+    if (!currentPlayer) return;
+
+    try {
+      const requestId = await auctionSharingService.submitBidRequest(auctionId, {
+        teamId: team.id,
+        key,
+        playerId: currentPlayer.id,
+        type,
+        amount,
+      });
+      setLastRequest(null);
+      setLastRequestId(requestId);
+      setBidAmount(0);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to send bid request');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200 p-3">
+        <div className="max-w-md mx-auto flex items-center justify-between">
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">{team.name}</h1>
+            <p className="text-xs text-gray-600">Owner console</p>
+          </div>
+          <div className={`flex items-center text-xs ${isConnected ? 'text-green-600' : 'text-red-600'}`}>
+            {isConnected ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
+            {isConnected ? 'Connected' : 'Disconnected'}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        {/* Purse */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 grid grid-cols-3 gap-2 text-center">
+          <div>
+            <div className="text-lg font-semibold text-gray-900">{showPrices ? formatCurrency(team.remainingBudget) : '***'}</div>
+            <div className="text-xs text-gray-500">Purse</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-orange-600">{!currentPlayer ? '-' : showPrices ? formatCurrency(maxBid) : '***'}</div>
+            <div className="text-xs text-gray-500">Max Bid</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-gray-900">{safeTeam.players.length}/{team.maxPlayers}</div>
+            <div className="text-xs text-gray-500">Players</div>
+          </div>
+        </div>
+
+        {/* Current Player */}
+        {currentPlayer ? (
+          <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 space-y-4">
+            <div className="flex items-center space-x-3">
+              <PlayerImage imageUrl={currentPlayer.imageUrl} playerName={currentPlayer.name} size="md" isOverseas={currentPlayer.isOverseas} />
+              <div className="min-w-0">
+                <h2 className="text-lg font-bold text-gray-900 truncate">{currentPlayer.name}</h2>
+                <p className="text-sm text-gray-600">
+                  {currentPlayer.role || 'Player'}{showPrices && <> • Base {formatCurrency(currentPlayer.basePrice || tournament.settings.minimumBid)}</>}
+                </p>
+              </div>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-3 text-sm">
+              {auctionState.highestBid ? (
+                <>
+                  Highest bid: <span className="font-semibold">{showPrices ? formatCurrency(auctionState.highestBid.amount) : '***'}</span>
+                  {' '}by {isHighestBidder ? 'you' : tournament.teams.find(t => t.id === auctionState.highestBid?.teamId)?.name || 'Unknown Team'}
+                </>
+              ) : (
+                'No bids yet'
+              )}
+            </div>
+
+            {tournament.pause && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">The auction is paused</p>
+            )}
+
+            {isDraft(safeTournament) ? (
+              <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-3">
+                Picks are made on the auctioneer's screen in the draft order
+              </p>
+            ) : isDutchAuction(safeTournament) ? (
+              <button
+                onClick={() => sendRequest('CLAIM')}
+                disabled={!canAct || isWaiting || (showPrices && dutchPrice > maxBid)}
+                className="btn-primary w-full py-3 flex items-center justify-center disabled:opacity-50"
+              >
+                <Hand className="w-5 h-5 mr-2" />
+                {showPrices ? `Claim at ${formatCurrency(dutchPrice)}` : 'Claim at the current price'}
+              </button>
+            ) : isSealedBid(safeTournament) ? (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">
+                  {hasSealedBid
+                    ? 'Your sealed bid is in - a new one replaces it until the auctioneer reveals the bids'
+                    : 'Hand in one hidden bid - the highest bid wins when the auctioneer reveals them'}
+                </p>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    value={bidAmount || ''}
+                    onChange={(e) => setBidAmount(Number(e.target.value))}
+                    min={showPrices ? minSealedBid : undefined}
+                    max={showPrices ? maxBid : undefined}
+                    step={tournament.settings.bidIncrement}
+                    className="input-field flex-1 min-w-0"
+                    placeholder={showPrices ? `${minSealedBid} - ${maxBid}` : 'Amount'}
+                  />
+                  <button
+                    onClick={() => sendRequest('SEALED_BID', bidAmount)}
+                    disabled={!canSeal || isWaiting || bidAmount <= 0 || (showPrices && (bidAmount < minSealedBid || bidAmount > maxBid))}
+                    className="btn-primary py-2 px-3 flex items-center disabled:opacity-50"
+                  >
+                    <Lock className="w-4 h-4 mr-1" />
+                    Seal
+                  </button>
+                </div>
+                <button
+                  onClick={() => sendRequest('PASS')}
+                  disabled={!canSeal || isWaiting}
+                  className="w-full py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center justify-center disabled:opacity-50"
+                >
+                  <Hand className="w-4 h-4 mr-1" />
+                  Pass
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <button
+                  onClick={() => sendRequest('BID', showPrices ? minBid : undefined)}
+                  disabled={!canAct || isWaiting || (showPrices && minBid > maxBid)}
+                  className="btn-primary w-full py-3 flex items-center justify-center disabled:opacity-50"
+                >
+                  <Gavel className="w-5 h-5 mr-2" />
+                  {showPrices ? `Bid ${formatCurrency(minBid)}` : 'Bid'}
+                </button>
+                {showPrices && (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      value={bidAmount || ''}
+                      onChange={(e) => setBidAmount(Number(e.target.value))}
+                      min={minBid}
+                      max={maxBid}
+                      step={tournament.settings.bidIncrement}
+                      className="input-field flex-1 min-w-0"
+                      placeholder={`${minBid} - ${maxBid}`}
+                    />
+                    <button
+                      onClick={() => sendRequest('BID', bidAmount)}
+                      disabled={!canAct || isWaiting || bidAmount < minBid || bidAmount > maxBid}
+                      className="btn-secondary py-2 px-3 disabled:opacity-50"
+                    >
+                      Bid
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={() => sendRequest('PASS')}
+                  disabled={!canAct || isWaiting}
+                  className="w-full py-2 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center justify-center disabled:opacity-50"
+                >
+                  <Hand className="w-4 h-4 mr-1" />
+                  Pass
+                </button>
+              </div>
+            )}
+
+            {/* Last Request */}
+            {lastRequestId && (
+              <p className={`text-sm ${lastRequest?.status === 'rejected' ? 'text-red-600' : lastRequest?.status === 'accepted' ? 'text-green-700' : 'text-gray-500'}`}>
+                {lastRequest?.status === 'accepted'
+                  ? 'The auctioneer applied your request'
+                  : lastRequest?.status === 'rejected'
+                    ? `Rejected: ${lastRequest.reason ? formatRejectionReason(lastRequest.reason) : 'not allowed right now'}`
+                    : 'Waiting for the auctioneer...'}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 text-center text-gray-600">
+            {isShuffling ? 'Selecting the next player...' : 'No player is up for auction'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeamOwnerConsole;
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
-import { Edit2, Users, DollarSign } from 'lucide-react';
+import { Edit2, Users, DollarSign, Shuffle } from 'lucide-react';
 import { useAuctionStore } from '../store/auctionStore';
-import { formatCurrency } from '../utils/excelUtils';
+import { useConfirmation } from '../hooks/useConfirmation';
+import { formatCurrency, formatFeasibilityIssue } from '../utils/excelUtils';
+import { getFeasibilityIssues } from '../engine/auctionEngine';
 
 interface TeamSetupProps {
   onNext: () => void;
@@ -9,11 +11,16 @@ interface TeamSetupProps {
 }
 
 const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
-  const { tournament, setupTeams, assignCaptainsToTeams } = useAuctionStore();
+  const { tournament, setupTeams, assignCaptainsToTeams, reshufflePlayers } = useAuctionStore();
+  const { showConfirmation, ConfirmationComponent } = useConfirmation();
   const [teamNames, setTeamNames] = useState<string[]>(
     tournament?.teams.map(team => team.name) || []
   );
+  const [rtmCards, setRtmCards] = useState<number[]>(
+    tournament?.teams.map(team => team.rtmCards || 0) || []
+  );
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [seedInput, setSeedInput] = useState('');
 
   const handleTeamNameChange = (index: number, newName: string) => {
     const updatedNames = [...teamNames];
@@ -26,8 +33,19 @@ const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
     setupTeams(teamNames);
   };
 
-  const handleStartAuction = () => {
-    setupTeams(teamNames);
+  const handleRtmCardsChange = (index: number, cards: number) => {
+    const updatedCards = [...rtmCards];
+    updatedCards[index] = Math.max(0, cards || 0);
+    setRtmCards(updatedCards);
+  };
+
+  const handleApplySeed = () => {
+    reshufflePlayers(seedInput);
+    setSeedInput('');
+  };
+
+  const handleStartAuction = async () => {
+    setupTeams(teamNames, rtmCards);
 
     // Automatically assign captains to their teams only if we have the exact right number
     const captains = tournament?.players.filter(p => p.isCaptain) || [];
@@ -36,6 +54,21 @@ const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
     }
     // If captains.length is 0 or doesn't match numberOfTeams, proceed without captain functionality
 
+    // Pre-flight: make sure the pool and budgets can still fill every squad
+    const { tournament: latestTournament } = useAuctionStore.getState();
+    const issues = latestTournament ? getFeasibilityIssues(latestTournament) : [];
+    if (latestTournament && issues.length > 0) {
+      const details = issues.map(issue => `• ${formatFeasibilityIssue(latestTournament, issue)}`).join('\n');
+      const confirmed = await showConfirmation({
+        title: 'Squads Cannot Be Completed',
+        message: `Not every squad can be completed:\n${details}\n\nStart the auction anyway?`,
+        confirmText: 'Start Anyway',
+        cancelText: 'Cancel',
+        type: 'warning',
+      });
+      if (!confirmed) return;
+    }
+
     onNext();
   };
 
@@ -230,6 +263,16 @@ const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
                             Budget: {formatCurrency(team.budget)} • 
                             Max Players: {team.maxPlayers}
                           </p>
+                          <label className="flex items-center text-sm text-gray-500 mt-1">
+                            RTM Cards:
+                            <input
+                              type="number"
+                              min={0}
+                              value={rtmCards[index] ?? 0}
+                              onChange={(e) => handleRtmCardsChange(index, Number(e.target.value))}
+                              className="input-field text-sm py-0.5 px-2 ml-2 w-16"
+                            />
+                          </label>
                         </div>
                         <button
                           onClick={() => setEditingIndex(index)}
@@ -262,6 +305,33 @@ const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
           </div>
         </div>
 
+        {/* Auction Order Seed */}
+        <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+          <h4 className="font-medium text-gray-900 mb-1 flex items-center">
+            <Shuffle className="w-4 h-4 mr-2 text-gray-500" />
+            Auction Order Seed
+          </h4>
+          <p className="text-sm text-gray-600 mb-3">
+            The player order is drawn from this seed. Share it with the teams - the same seed and player list always
+            give the same order, so anyone can check it.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-mono text-lg font-bold tracking-wider text-gray-900 bg-gray-100 rounded px-3 py-1">
+              {tournament.shuffleSeed || 'Not drawn yet'}
+            </span>
+            <input
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              className="input-field text-sm w-40"
+              placeholder="Agreed seed"
+            />
+            <button onClick={handleApplySeed} className="btn-secondary text-sm">
+              {seedInput.trim() ? 'Use This Seed' : 'Draw New Seed'}
+            </button>
+          </div>
+        </div>
+
         {/* Auction Rules Info */}
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
           <h4 className="font-medium text-yellow-900 mb-2">Auction Rules</h4>
@@ -278,13 +348,15 @@ const TeamSetup: React.FC<TeamSetupProps> = ({ onNext, onBack }) => {
         {/* Navigation */}
         <div className="flex justify-between pt-6 border-t border-gray-200">
           <button onClick={onBack} className="btn-secondary">
-            Back to Player Upload
+            Back to Retentions
           </button>
           <button onClick={handleStartAuction} className="btn-success">
             Start Auction
           </button>
         </div>
       </div>
+
+      <ConfirmationComponent />
     </div>
   );
 };
@@ -1,7 +1,10 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { useAuctionStore } from '../store/auctionStore';
 import { formatCurrency } from '../utils/excelUtils';
+import type { AuctionConstraints, AuctionFormat, BidIncrementSlab, PlayerRole, SealedBidTieBreak, UnsoldRoundConfig } from '../types';
+
+const PLAYER_ROLES: PlayerRole[] = ['Batsman', 'Bowler', 'All-Rounder', 'Wicket-Keeper'];
 
 interface TournamentFormData {
   name: string;
@@ -10,11 +13,24 @@ interface TournamentFormData {
   teamBudget: number;
   minimumBid: number;
   bidIncrement: number;
+  bidIncrementSlabs: { upTo?: number; increment: number }[];
   enableUnsoldPlayerReturn: boolean;
+  unsoldRounds: { basePriceReduction?: number; accelerated: boolean }[];
+  auctionFormat: AuctionFormat;
+  sealedBidTieBreak: SealedBidTieBreak;
+  dutchStartMultiple: number;
   enableTimer: boolean;
   timerDuration: number;
+  goingOnceAt: number;
+  goingTwiceAt: number;
+  teamTimeouts: number;
+  teamTimeoutSeconds: number;
   hidePricesInLiveView: boolean;
   hideUnsoldStatusInLiveView: boolean;
+  maxForeignPlayers?: number;
+  maxRetentionsPerTeam?: number;
+  retentionPrice?: number;
+  roleLimits: Record<PlayerRole, { min?: number; max?: number }>;
 }
 
 interface TournamentSetupProps {
@@ -29,6 +45,8 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
     handleSubmit,
     watch,
     setValue,
+    getValues,
+    control,
     formState: { errors },
   } = useForm<TournamentFormData>({
     defaultValues: {
@@ -38,14 +56,41 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
       teamBudget: 3000000000, // ₹300 crores default budget
       minimumBid: 10000000, // ₹1 crore minimum bid
       bidIncrement: 10000000, // ₹1 crore bid increment
+      bidIncrementSlabs: [],
       enableUnsoldPlayerReturn: true,
+      unsoldRounds: [{ basePriceReduction: undefined, accelerated: false }],
+      auctionFormat: 'open',
+      sealedBidTieBreak: 'budget',
+      dutchStartMultiple: 5,
       enableTimer: false,
       timerDuration: 30,
+      goingOnceAt: 10,
+      goingTwiceAt: 5,
+      teamTimeouts: 2,
+      teamTimeoutSeconds: 90,
       hidePricesInLiveView: false,
       hideUnsoldStatusInLiveView: true, // Default to hiding unsold status for cleaner live view
+      roleLimits: {
+        'Batsman': {},
+        'Bowler': {},
+        'All-Rounder': {},
+        'Wicket-Keeper': {},
+      },
     },
   });
 
+  const {
+    fields: slabFields,
+    append: appendSlab,
+    remove: removeSlab,
+  } = useFieldArray({ control, name: 'bidIncrementSlabs' });
+
+  const {
+    fields: unsoldRoundFields,
+    append: appendUnsoldRound,
+    remove: removeUnsoldRound,
+  } = useFieldArray({ control, name: 'unsoldRounds' });
+
   const watchedBudget = watch('teamBudget');
   const watchedPlayersPerTeam = watch('playersPerTeam');
 
@@ -87,6 +132,70 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
     return true;
   };
 
+  // Empty number inputs come back as NaN - treat them as "no limit"
+  const toLimit = (value?: number): number | undefined => {
+    return value === undefined || Number.isNaN(value) ? undefined : Number(value);
+  };
+
+  // Role minimums have to fit in a squad together
+  const validateRoleMinimums = (): string | boolean => {
+    const { roleLimits, playersPerTeam } = getValues();
+    const totalMinimum = PLAYER_ROLES.reduce((sum, role) => sum + (toLimit(roleLimits[role].min) || 0), 0);
+
+    if (totalMinimum > Number(playersPerTeam)) {
+      return `Role minimums add up to ${totalMinimum} players but teams only have ${playersPerTeam} slots`;
+    }
+    return true;
+  };
+
+  const buildConstraints = (data: TournamentFormData): AuctionConstraints | undefined => {
+    const roleBasedLimits: AuctionConstraints['roleBasedLimits'] = {};
+    PLAYER_ROLES.forEach(role => {
+      const min = toLimit(data.roleLimits[role].min);
+      const max = toLimit(data.roleLimits[role].max);
+      if (min !== undefined || max !== undefined) {
+        roleBasedLimits[role] = { min, max };
+      }
+    });
+
+    const maxForeignPlayers = toLimit(data.maxForeignPlayers);
+    if (maxForeignPlayers === undefined && Object.keys(roleBasedLimits).length === 0) {
+      return undefined;
+    }
+    return { maxForeignPlayers, roleBasedLimits };
+  };
+
+  // Slab thresholds must go up; only the last slab may be left open-ended
+  const validateSlabThreshold = (index: number) => (upTo?: number): string | boolean => {
+    const slabs = getValues('bidIncrementSlabs');
+    const limit = toLimit(upTo);
+    if (limit === undefined) {
+      return index === slabs.length - 1 || 'Only the last slab can be left without a limit';
+    }
+
+    const previous = index > 0 ? toLimit(slabs[index - 1].upTo) : undefined;
+    if (previous !== undefined && limit <= previous) {
+      return `Must be higher than ${formatCurrency(previous)}`;
+    }
+    return true;
+  };
+
+  const buildIncrementSlabs = (data: TournamentFormData): BidIncrementSlab[] | undefined => {
+    if (data.bidIncrementSlabs.length === 0) return undefined;
+
+    return data.bidIncrementSlabs.map(slab => ({
+      upTo: toLimit(slab.upTo),
+      increment: Number(slab.increment),
+    }));
+  };
+
+  const buildUnsoldRounds = (data: TournamentFormData): UnsoldRoundConfig[] => {
+    return data.unsoldRounds.map(round => ({
+      basePriceReduction: toLimit(round.basePriceReduction),
+      accelerated: round.accelerated,
+    }));
+  };
+
   const onSubmit = (data: TournamentFormData) => {
     createTournament({
       name: data.name,
@@ -95,14 +204,26 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
       teamBudget: data.teamBudget,
       settings: {
         enableUnsoldPlayerReturn: data.enableUnsoldPlayerReturn,
-        unsoldPlayerReturnRound: 1,
+        unsoldPlayerReturnRound: data.unsoldRounds.length,
+        unsoldRounds: buildUnsoldRounds(data),
+        auctionFormat: data.auctionFormat,
+        sealedBidTieBreak: data.auctionFormat === 'sealed' ? data.sealedBidTieBreak : undefined,
+        dutchStartMultiple: data.auctionFormat === 'dutch' ? Number(data.dutchStartMultiple) : undefined,
         enableTimer: data.enableTimer,
         timerDuration: data.timerDuration,
+        goingOnceAt: data.enableTimer ? Number(data.goingOnceAt) : undefined,
+        goingTwiceAt: data.enableTimer ? Number(data.goingTwiceAt) : undefined,
+        teamTimeouts: Number(data.teamTimeouts),
+        teamTimeoutSeconds: Number(data.teamTimeoutSeconds),
         minimumBid: Number(data.minimumBid),
         bidIncrement: Number(data.bidIncrement),
+        bidIncrementSlabs: buildIncrementSlabs(data),
         hidePricesInLiveView: data.hidePricesInLiveView,
         hideUnsoldStatusInLiveView: data.hideUnsoldStatusInLiveView,
+        maxRetentionsPerTeam: toLimit(data.maxRetentionsPerTeam),
+        retentionPrice: toLimit(data.retentionPrice),
       },
+      constraints: buildConstraints(data),
     });
     onNext();
   };
@@ -337,6 +458,64 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
             </div>
           </div>
 
+          {/* Bid Increment Slabs */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bid Increment Slabs
+            </label>
+            <p className="text-sm text-gray-500 mb-3">
+              Optional. Step bids up by larger amounts as the price rises, e.g. +₹5L up to ₹1Cr, +₹10L up to ₹2Cr, +₹20L beyond. Without slabs the flat increment above is used.
+            </p>
+            <div className="space-y-2">
+              {slabFields.map((field, index) => (
+                <div key={field.id}>
+                  <div className="grid grid-cols-5 gap-2 items-center">
+                    <span className="text-sm text-gray-700">Bids below</span>
+                    <input
+                      type="number"
+                      {...register(`bidIncrementSlabs.${index}.upTo`, {
+                        valueAsNumber: true,
+                        validate: validateSlabThreshold(index),
+                      })}
+                      className="input-field col-span-2"
+                      placeholder="No limit"
+                    />
+                    <input
+                      type="number"
+                      {...register(`bidIncrementSlabs.${index}.increment`, {
+                        valueAsNumber: true,
+                        required: 'Increment is required',
+                        min: { value: 1, message: 'Increment must be at least ₹1' },
+                      })}
+                      className="input-field"
+                      placeholder="Increment"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSlab(index)}
+                      className="btn-secondary text-sm py-1"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  {errors.bidIncrementSlabs?.[index]?.upTo && (
+                    <p className="mt-1 text-sm text-red-600">{errors.bidIncrementSlabs[index]?.upTo?.message}</p>
+                  )}
+                  {errors.bidIncrementSlabs?.[index]?.increment && (
+                    <p className="mt-1 text-sm text-red-600">{errors.bidIncrementSlabs[index]?.increment?.message}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => appendSlab({ upTo: undefined, increment: Number(watch('bidIncrement')) || 1 })}
+              className="btn-secondary text-sm py-1 mt-2"
+            >
+              Add Slab
+            </button>
+          </div>
+
           {/* Unsold Players Setting */}
           <div>
             <div className="flex items-center">
@@ -353,6 +532,226 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
             <p className="mt-1 text-sm text-gray-500">
               Unsold players will be brought back for auction after all players have been auctioned once
             </p>
+
+            {watch('enableUnsoldPlayerReturn') && (
+              <div className="mt-3 space-y-2">
+                {unsoldRoundFields.map((field, index) => (
+                  <div key={field.id}>
+                    <div className="grid grid-cols-6 gap-2 items-center">
+                      <span className="text-sm text-gray-700">Round {index + 1}</span>
+                      <input
+                        type="number"
+                        {...register(`unsoldRounds.${index}.basePriceReduction`, {
+                          valueAsNumber: true,
+                          min: { value: 0, message: 'Reduction cannot be negative' },
+                          max: { value: 100, message: 'Reduction cannot be more than 100%' },
+                        })}
+                        className="input-field col-span-2"
+                        placeholder="Base price cut %"
+                      />
+                      <label className="flex items-center text-sm text-gray-700 col-span-2">
+                        <input
+                          type="checkbox"
+                          {...register(`unsoldRounds.${index}.accelerated`)}
+                          className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded mr-2"
+                        />
+                        Teams nominate
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => removeUnsoldRound(index)}
+                        className="btn-secondary text-sm py-1"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {errors.unsoldRounds?.[index]?.basePriceReduction && (
+                      <p className="mt-1 text-sm text-red-600">{errors.unsoldRounds[index]?.basePriceReduction?.message}</p>
+                    )}
+                  </div>
+                ))}
+                <p className="text-sm text-gray-500">
+                  Each round can cut the original base price by a percentage. In a nomination round only the unsold players the teams pick come back.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => appendUnsoldRound({ basePriceReduction: undefined, accelerated: false })}
+                  className="btn-secondary text-sm py-1"
+                >
+                  Add Round
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Retention Settings */}
+          <div className="space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Player Retentions</h4>
+              <p className="mt-1 text-sm text-gray-500">
+                Teams can keep players before the auction. Captains count as free retentions. Leave a field empty for no limit.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="maxRetentionsPerTeam" className="block text-sm font-medium text-gray-700 mb-2">
+                  Maximum Retentions per Team
+                </label>
+                <input
+                  type="number"
+                  id="maxRetentionsPerTeam"
+                  {...register('maxRetentionsPerTeam', {
+                    valueAsNumber: true,
+                    min: { value: 0, message: 'Retention limit cannot be negative' },
+                  })}
+                  className="input-field"
+                  placeholder="No limit"
+                />
+                {errors.maxRetentionsPerTeam && (
+                  <p className="mt-1 text-sm text-red-600">{errors.maxRetentionsPerTeam.message}</p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="retentionPrice" className="block text-sm font-medium text-gray-700 mb-2">
+                  Default Retention Price
+                </label>
+                <input
+                  type="number"
+                  id="retentionPrice"
+                  {...register('retentionPrice', {
+                    valueAsNumber: true,
+                    min: { value: 0, message: 'Retention price cannot be negative' },
+                  })}
+                  className="input-field"
+                  placeholder="Player's base price"
+                />
+                {errors.retentionPrice && (
+                  <p className="mt-1 text-sm text-red-600">{errors.retentionPrice.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Squad Constraints */}
+          <div className="space-y-4">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Squad Constraints</h4>
+              <p className="mt-1 text-sm text-gray-500">
+                Optional limits enforced while bidding. Leave a field empty for no limit.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="maxForeignPlayers" className="block text-sm font-medium text-gray-700 mb-2">
+                Maximum Overseas Players per Team
+              </label>
+              <input
+                type="number"
+                id="maxForeignPlayers"
+                {...register('maxForeignPlayers', {
+                  valueAsNumber: true,
+                  min: { value: 0, message: 'Overseas limit cannot be negative' },
+                })}
+                className="input-field"
+                placeholder="No limit"
+              />
+              {errors.maxForeignPlayers && (
+                <p className="mt-1 text-sm text-red-600">{errors.maxForeignPlayers.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Players per Role
+              </label>
+              <div className="space-y-2">
+                {PLAYER_ROLES.map((role) => (
+                  <div key={role} className="grid grid-cols-3 gap-2 items-center">
+                    <span className="text-sm text-gray-700">{role}</span>
+                    <input
+                      type="number"
+                      {...register(`roleLimits.${role}.min`, {
+                        valueAsNumber: true,
+                        min: { value: 0, message: `${role} minimum cannot be negative` },
+                        validate: validateRoleMinimums,
+                      })}
+                      className="input-field"
+                      placeholder="Min"
+                    />
+                    <input
+                      type="number"
+                      {...register(`roleLimits.${role}.max`, {
+                        valueAsNumber: true,
+                        validate: (max) => {
+                          const min = toLimit(getValues(`roleLimits.${role}.min`));
+                          const limit = toLimit(max);
+                          return limit === undefined || min === undefined || limit >= min || `${role} maximum must be at least the minimum`;
+                        },
+                      })}
+                      className="input-field"
+                      placeholder="Max"
+                    />
+                    {errors.roleLimits?.[role]?.min && (
+                      <p className="col-span-3 text-sm text-red-600">{errors.roleLimits[role]?.min?.message}</p>
+                    )}
+                    {errors.roleLimits?.[role]?.max && (
+                      <p className="col-span-3 text-sm text-red-600">{errors.roleLimits[role]?.max?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-sm text-gray-500">
+                Teams keep budget and slots in reserve for roles they still need, and can't bid once a role is full
+              </p>
+            </div>
+          </div>
+
+          {/* Auction Format */}
+          <div>
+            <label htmlFor="auctionFormat" className="block text-sm font-medium text-gray-700 mb-2">
+              Auction Format
+            </label>
+            <select id="auctionFormat" {...register('auctionFormat')} className="input-field">
+              <option value="open">Open outcry - teams bid against each other live</option>
+              <option value="sealed">Sealed bid - one hidden bid per team, revealed together</option>
+              <option value="dutch">Dutch - price starts high and falls until a team claims the player</option>
+              <option value="draft">Snake draft - no money, teams take turns picking (1..N, then N..1)</option>
+            </select>
+            {watch('auctionFormat') === 'draft' && (
+              <p className="mt-1 text-sm text-gray-500">
+                Budgets and bid settings are ignored. The timer below becomes the pick clock.
+              </p>
+            )}
+
+            {watch('auctionFormat') === 'sealed' && (
+              <div className="mt-3">
+                <label htmlFor="sealedBidTieBreak" className="block text-sm font-medium text-gray-700 mb-2">
+                  When the top sealed bids are tied
+                </label>
+                <select id="sealedBidTieBreak" {...register('sealedBidTieBreak')} className="input-field">
+                  <option value="budget">Team with the most budget left wins</option>
+                  <option value="coin-toss">Coin toss (drawn from the auction seed)</option>
+                  <option value="rebid">Tied teams bid again</option>
+                </select>
+              </div>
+            )}
+
+            {watch('auctionFormat') === 'dutch' && (
+              <div className="mt-3">
+                <label htmlFor="dutchStartMultiple" className="block text-sm font-medium text-gray-700 mb-2">
+                  Opening price
+                </label>
+                <select id="dutchStartMultiple" {...register('dutchStartMultiple')} className="input-field">
+                  <option value={2}>2x base price</option>
+                  <option value={3}>3x base price</option>
+                  <option value={5}>5x base price</option>
+                  <option value={10}>10x base price</option>
+                </select>
+                <p className="mt-1 text-sm text-gray-500">
+                  The price drops by one bid increment every second. Players nobody claims by their base price go unsold.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Timer Settings */}
@@ -392,8 +791,63 @@ const TournamentSetup: React.FC<TournamentSetupProps> = ({ onNext }) => {
                 {errors.timerDuration && (
                   <p className="mt-1 text-sm text-red-600">{errors.timerDuration.message}</p>
                 )}
+
+                <div className="grid grid-cols-2 gap-4 mt-3">
+                  <div>
+                    <label htmlFor="goingOnceAt" className="block text-sm font-medium text-gray-700 mb-2">
+                      "Going once" at
+                    </label>
+                    <select id="goingOnceAt" {...register('goingOnceAt')} className="input-field">
+                      <option value={0}>Off</option>
+                      <option value={10}>10 seconds left</option>
+                      <option value={15}>15 seconds left</option>
+                      <option value={20}>20 seconds left</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="goingTwiceAt" className="block text-sm font-medium text-gray-700 mb-2">
+                      "Going twice" at
+                    </label>
+                    <select id="goingTwiceAt" {...register('goingTwiceAt')} className="input-field">
+                      <option value={0}>Off</option>
+                      <option value={3}>3 seconds left</option>
+                      <option value={5}>5 seconds left</option>
+                      <option value={10}>10 seconds left</option>
+                    </select>
+                  </div>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  Each new bid restarts the clock. Live viewers see the same countdown and calls.
+                </p>
               </div>
             )}
+
+            <div className="grid grid-cols-2 gap-4 mt-3">
+              <div>
+                <label htmlFor="teamTimeouts" className="block text-sm font-medium text-gray-700 mb-2">
+                  Timeouts per team
+                </label>
+                <select id="teamTimeouts" {...register('teamTimeouts')} className="input-field">
+                  <option value={0}>None</option>
+                  <option value={1}>1</option>
+                  <option value={2}>2</option>
+                  <option value={3}>3</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="teamTimeoutSeconds" className="block text-sm font-medium text-gray-700 mb-2">
+                  Timeout length
+                </label>
+                <select id="teamTimeoutSeconds" {...register('teamTimeoutSeconds')} className="input-field">
+                  <option value={60}>60 seconds</option>
+                  <option value={90}>90 seconds</option>
+                  <option value={120}>120 seconds</option>
+                </select>
+              </div>
+            </div>
+            <p className="mt-1 text-sm text-gray-500">
+              The auctioneer can pause bidding for a team to regroup. Bidding resumes when the timeout runs out.
+            </p>
           </div>
 
           {/* Live View Settings */}
@@ -1,5 +1,6 @@
 import { initializeApp } from 'firebase/app';
 import { getDatabase } from 'firebase/database';
+import { getAuth } from 'firebase/auth';
 
 // Firebase configuration
 // You'll need to replace these with your actual Firebase config
@@ -19,6 +20,9 @@ const app = initializeApp(firebaseConfig);
 // Initialize Realtime Database and get a reference to the service
 export const database = getDatabase(app);
 
+// Sharing signs in anonymously - the database rules only let an auction's creator change it
+export const auth = getAuth(app);
+
 // Check if Firebase is properly configured
 export const isFirebaseConfigured = true; // Since you have real config
 
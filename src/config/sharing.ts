@@ -0,0 +1,21 @@
+import type { TransportKind } from '../services/transports/types';
+
+const TRANSPORT_KINDS: TransportKind[] = ['firebase', 'websocket', 'broadcast'];
+
+const isTransportKind = (value: string | null | undefined): value is TransportKind => {
+  return TRANSPORT_KINDS.includes(value as TransportKind);
+};
+
+// Backend for live sharing. Set VITE_SHARING_TRANSPORT at build time, or add
+// ?transport=websocket|broadcast to the page URL - share links carry it over to viewers.
+const fromUrl = new URLSearchParams(window.location.search).get('transport');
+const fromEnv = import.meta.env.VITE_SHARING_TRANSPORT;
+
+export const sharingTransportKind: TransportKind = isTransportKind(fromUrl)
+  ? fromUrl
+  : isTransportKind(fromEnv) ? fromEnv : 'firebase';
+
+// Where the self-hosted relay (npm run relay) listens
+export const sharingRelayUrl: string = new URLSearchParams(window.location.search).get('relay')
+  || import.meta.env.VITE_SHARING_RELAY_URL
+  || `ws://${window.location.hostname || 'localhost'}:8787`;
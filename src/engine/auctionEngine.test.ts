@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest';
+import type { Tournament } from '../types';
+import {
+  applyCommand,
+  canTeamAcquirePlayer,
+  getBidRejection,
+  getMaxBidForTeam,
+  initialAuctionState,
+  type AuctionCommand,
+  type EngineState,
+} from './auctionEngine';
+import { appendAction, emptyEventLog, replayEventLog } from './eventLog';
+import { makePlayer, makeTeam, makeTournament, now } from '../test/fixtures';
+
+// Run commands one after another, failing the test if any is turned down
+const run = (state: EngineState, commands: AuctionCommand[]): EngineState => {
+  return commands.reduce((current, command) => {
+    const result = applyCommand(current, command, { now });
+    expect(result.rejection).toBeUndefined();
+    return { tournament: result.tournament, auctionState: result.auctionState };
+  }, state);
+};
+
+const startedState = (tournament: Tournament = makeTournament()): EngineState => {
+  return run({ tournament, auctionState: initialAuctionState }, [{ type: 'START' }]);
+};
+
+describe('getMaxBidForTeam', () => {
+  it('holds back the cheapest way to fill the other open slots', () => {
+    const tournament = makeTournament({
+      players: [
+        makePlayer('p1', { basePrice: 100 }),
+        makePlayer('p2', { basePrice: 50 }),
+        makePlayer('p3', { basePrice: 200 }),
+        makePlayer('p4', { basePrice: 80 }),
+      ],
+    });
+
+    // Two other slots, filled by the 50 and 80 players
+    expect(getMaxBidForTeam(tournament, 'team-1', tournament.players[0])).toBe(1000 - 130);
+  });
+
+  it('fills the roles the team still needs first', () => {
+    const tournament = makeTournament({
+      constraints: { roleBasedLimits: { 'Wicket-Keeper': { min: 1 } } },
+      players: [
+        makePlayer('p1', { basePrice: 100 }),
+        makePlayer('p2', { basePrice: 50 }),
+        makePlayer('p3', { basePrice: 60 }),
+        makePlayer('keeper', { basePrice: 300, role: 'Wicket-Keeper' }),
+      ],
+    });
+
+    expect(getMaxBidForTeam(tournament, 'team-1', tournament.players[0])).toBe(1000 - 300 - 50);
+  });
+
+  it('lets a team spend everything on its last slot', () => {
+    const tournament = makeTournament({
+      teams: [makeTeam('team-1', { maxPlayers: 1, remainingBudget: 400 }), makeTeam('team-2')],
+    });
+
+    expect(getMaxBidForTeam(tournament, 'team-1', tournament.players[0])).toBe(400);
+  });
+
+  it('is zero for a player the team has no room for', () => {
+    const tournament = makeTournament({
+      teams: [makeTeam('team-1', { maxPlayers: 0 }), makeTeam('team-2')],
+    });
+
+    expect(getMaxBidForTeam(tournament, 'team-1', tournament.players[0])).toBe(0);
+  });
+});
+
+describe('canTeamAcquirePlayer', () => {
+  it('keeps a team within its role maximum', () => {
+    const tournament = makeTournament({ constraints: { roleBasedLimits: { Bowler: { max: 1 } } } });
+    const team = makeTeam('team-1', { players: [makePlayer('b1', { role: 'Bowler' })] });
+
+    expect(canTeamAcquirePlayer(tournament, team, makePlayer('b2', { role: 'Bowler' }))).toBe(false);
+    expect(canTeamAcquirePlayer(tournament, team, makePlayer('bat'))).toBe(true);
+  });
+
+  it('keeps a team within its overseas quota, a team limit winning over the tournament one', () => {
+    const tournament = makeTournament({ constraints: { maxForeignPlayers: 2 } });
+    const overseas = makePlayer('o2', { isOverseas: true });
+    const team = makeTeam('team-1', { players: [makePlayer('o1', { isOverseas: true })] });
+
+    expect(canTeamAcquirePlayer(tournament, team, overseas)).toBe(true);
+    expect(canTeamAcquirePlayer(tournament, { ...team, maxForeignPlayers: 1 }, overseas)).toBe(false);
+  });
+
+  it('leaves slots for the roles the team still has to fill', () => {
+    const tournament = makeTournament({ constraints: { roleBasedLimits: { 'Wicket-Keeper': { min: 1 } } } });
+    const team = makeTeam('team-1', { maxPlayers: 2, players: [makePlayer('bat1')] });
+
+    expect(canTeamAcquirePlayer(tournament, team, makePlayer('bat2'))).toBe(false);
+    expect(canTeamAcquirePlayer(tournament, team, makePlayer('wk', { role: 'Wicket-Keeper' }))).toBe(true);
+  });
+
+  it('turns a team down once its squad is full', () => {
+    const tournament = makeTournament();
+    const team = makeTeam('team-1', { maxPlayers: 1, players: [makePlayer('bat1')] });
+
+    expect(canTeamAcquirePlayer(tournament, team, makePlayer('bat2'))).toBe(false);
+  });
+});
+
+describe('getBidRejection', () => {
+  const { tournament, auctionState } = startedState();
+  const player = tournament.players[0];
+
+  it('accepts a bid the team can afford', () => {
+    expect(getBidRejection(tournament, auctionState, tournament.teams[0], player, 200)).toBeNull();
+  });
+
+  it('explains why a bid is turned down', () => {
+    const team = tournament.teams[0];
+    expect(getBidRejection(tournament, auctionState, { ...team, maxPlayers: 0 }, player, 200)).toBe('SQUAD_FULL');
+    expect(getBidRejection(tournament, { ...auctionState, passedTeams: [team.id] }, team, player, 200)).toBe('TEAM_PASSED');
+    expect(getBidRejection(tournament, auctionState, team, player, 1200)).toBe('EXCEEDS_BUDGET');
+    expect(getBidRejection(tournament, auctionState, team, player, 950)).toBe('EXCEEDS_MAX_BID');
+  });
+});
+
+describe('applyCommand', () => {
+  it('turns down invalid commands without changing anything', () => {
+    const state = run(startedState(), [{ type: 'BID', teamId: 'team-1', amount: 100 }]);
+
+    const cases: [AuctionCommand, string][] = [
+      [{ type: 'BID', teamId: 'team-2', amount: 105 }, 'BELOW_MIN_INCREMENT'],
+      [{ type: 'BID', teamId: 'team-1', amount: 200 }, 'ALREADY_HIGHEST_BIDDER'],
+      [{ type: 'BID', teamId: 'team-9', amount: 200 }, 'UNKNOWN_TEAM'],
+      [{ type: 'CLAIM', teamId: 'team-2' }, 'WRONG_FORMAT'],
+      [{ type: 'RTM_MATCH' }, 'NO_RTM_OFFER'],
+      [{ type: 'RESUME' }, 'NOT_PAUSED'],
+      [{ type: 'SETUP_TEAMS', teams: [{ teamId: 'team-1', name: 'Renamed' }] }, 'AUCTION_STARTED'],
+      [{ type: 'START' }, 'AUCTION_STARTED'],
+    ];
+    cases.forEach(([command, reason]) => {
+      const result = applyCommand(state, command, { now });
+      expect(result.rejection).toBe(reason);
+      expect(result.events).toEqual([]);
+      expect(result.tournament).toBe(state.tournament);
+      expect(result.auctionState).toBe(state.auctionState);
+    });
+  });
+
+  it('only moves on to the next player once the auction has started', () => {
+    const state = { tournament: makeTournament(), auctionState: initialAuctionState };
+
+    expect(applyCommand(state, { type: 'ADVANCE' }, { now }).rejection).toBe('AUCTION_NOT_ACTIVE');
+  });
+
+  it('needs a bid before a player can be sold', () => {
+    expect(applyCommand(startedState(), { type: 'SELL' }, { now }).rejection).toBe('NO_BIDS');
+  });
+
+  it('turns down open bids in a sealed-bid auction', () => {
+    const tournament = makeTournament();
+    const state = startedState({ ...tournament, settings: { ...tournament.settings, auctionFormat: 'sealed' } });
+
+    expect(applyCommand(state, { type: 'BID', teamId: 'team-1', amount: 100 }, { now }).rejection).toBe('WRONG_FORMAT');
+  });
+
+  it('sells to the highest bidder and charges its purse', () => {
+    const state = run(startedState(), [
+      { type: 'BID', teamId: 'team-1', amount: 100 },
+      { type: 'BID', teamId: 'team-2', amount: 110 },
+      { type: 'SELL' },
+    ]);
+
+    const team = state.tournament.teams.find(t => t.id === 'team-2');
+    expect(team?.remainingBudget).toBe(890);
+    expect(team?.players.map(p => p.id)).toEqual(['p1']);
+    expect(state.tournament.players[0]).toMatchObject({ teamId: 'team-2', soldPrice: 110 });
+    expect(state.auctionState.highestBid).toBeUndefined();
+  });
+});
+
+describe('captains', () => {
+  it('assigns each team its captain for free', () => {
+    const tournament = makeTournament({
+      players: [makePlayer('c1', { isCaptain: true }), makePlayer('p2'), makePlayer('c2', { isCaptain: true })],
+    });
+    const result = applyCommand({ tournament, auctionState: initialAuctionState }, { type: 'ASSIGN_CAPTAINS' }, { now });
+
+    expect(result.events.map(event => event.type)).toEqual(['CaptainAssigned', 'CaptainAssigned']);
+    expect(result.tournament.teams.map(team => [team.players.map(p => p.id), team.remainingBudget])).toEqual([
+      [['c1'], 1000],
+      [['c2'], 1000],
+    ]);
+  });
+});
+
+describe('pause', () => {
+  const paused = run(startedState(), [{ type: 'PAUSE' }]);
+
+  it('holds every command except resuming or ending the auction', () => {
+    expect(applyCommand(paused, { type: 'BID', teamId: 'team-1', amount: 100 }, { now }).rejection).toBe('AUCTION_PAUSED');
+    expect(applyCommand(paused, { type: 'PASS', teamId: 'team-1' }, { now }).rejection).toBe('AUCTION_PAUSED');
+    expect(applyCommand(paused, { type: 'PAUSE' }, { now }).rejection).toBe('AUCTION_PAUSED');
+    expect(applyCommand(paused, { type: 'END' }, { now }).rejection).toBeUndefined();
+  });
+
+  it('lets bidding carry on once resumed', () => {
+    const resumed = run(paused, [{ type: 'RESUME' }]);
+    expect(applyCommand(resumed, { type: 'BID', teamId: 'team-1', amount: 100 }, { now }).rejection).toBeUndefined();
+  });
+});
+
+describe('replayEventLog', () => {
+  it('rebuilds the live state from the logged events', () => {
+    const commands: AuctionCommand[] = [
+      { type: 'SETUP_TEAMS', teams: [{ teamId: 'team-1', name: 'Strikers', rtmCards: 1 }, { teamId: 'team-2', name: 'Titans' }] },
+      { type: 'START' },
+      { type: 'BID', teamId: 'team-1', amount: 100 },
+      { type: 'BID', teamId: 'team-2', amount: 110 },
+      { type: 'SELL' },
+      { type: 'ADVANCE' },
+      { type: 'PASS', teamId: 'team-1' },
+      { type: 'MARK_UNSOLD' },
+      { type: 'ADVANCE' },
+      { type: 'TEAM_TIMEOUT', teamId: 'team-1' },
+      { type: 'RESUME' },
+      { type: 'BID', teamId: 'team-1', amount: 100 },
+      { type: 'SELL' },
+    ];
+
+    let state: EngineState = { tournament: makeTournament(), auctionState: initialAuctionState };
+    let log = emptyEventLog;
+    commands.forEach(command => {
+      const result = applyCommand(state, command, { now });
+      expect(result.rejection).toBeUndefined();
+      log = appendAction(log, state, { action: command.type, events: result.events, undoable: state.tournament.isAuctionStarted });
+      state = { tournament: result.tournament, auctionState: result.auctionState };
+    });
+
+    expect(replayEventLog(log)).toEqual(state);
+    expect(replayEventLog(log)?.tournament.teams.map(t => t.name)).toEqual(['Strikers', 'Titans']);
+  });
+});
@@ -0,0 +1,1700 @@
+import type {
+  Tournament,
+  Team,
+  Player,
+  AuctionState,
+  AuctionStatus,
+  Bid,
+  PlayerRole,
+  HammerPhase,
+  Nomination,
+  ProxyBid,
+  SealedBidReveal,
+  UnsoldRoundConfig,
+} from '../types';
+import { createSeededRandom, shuffle } from './shuffle';
+
+/**
+ * Framework-free auction rules.
+ *
+ * Every state change goes through `applyCommand`: the command is validated against the
+ * current tournament/auction state, turned into one or more events, and the events are
+ * folded into a new state with `applyEvent`. Nothing here touches React, zustand or the
+ * network, so the store, the live viewer and any future server can share the same rules.
+ */
+
+export interface EngineState {
+  tournament: Tournament;
+  auctionState: AuctionState;
+}
+
+// Names and Right-to-Match cards a team goes into the auction with
+export interface TeamSetup {
+  teamId: string;
+  name: string;
+  rtmCards?: number;
+}
+
+export type AuctionCommand =
+  | { type: 'SETUP_TEAMS'; teams: TeamSetup[] }
+  | { type: 'ASSIGN_CAPTAINS' }
+  | { type: 'RETAIN'; playerId: string; teamId: string; price: number }
+  | { type: 'RELEASE'; playerId: string }
+  | { type: 'START' }
+  | { type: 'BID'; teamId: string; amount: number; automatic?: boolean }
+  | { type: 'SEALED_BID'; teamId: string; amount: number }
+  | { type: 'REVEAL' }
+  | { type: 'CLAIM'; teamId: string }
+  | { type: 'PASS'; teamId: string }
+  | { type: 'SELL' }
+  | { type: 'RTM_MATCH' }
+  | { type: 'RTM_DECLINE' }
+  | { type: 'MARK_UNSOLD' }
+  | { type: 'ADVANCE' }
+  | { type: 'NOMINATE_UNSOLD'; teamId: string; playerIds: string[] }
+  | { type: 'OPEN_ACCELERATED' }
+  | { type: 'NOMINATE'; teamId: string; playerIds: string[] }
+  | { type: 'DRAFT_PICK'; teamId: string; playerId: string }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'TEAM_TIMEOUT'; teamId: string }
+  | { type: 'END' };
+
+export type AuctionEvent =
+  | { type: 'TeamsSetUp'; teams: TeamSetup[]; timestamp: Date }
+  | { type: 'CaptainAssigned'; playerId: string; teamId: string; timestamp: Date }
+  | { type: 'PlayerRetained'; playerId: string; teamId: string; price: number; timestamp: Date }
+  | { type: 'RetentionReleased'; playerId: string; teamId: string; price: number; timestamp: Date }
+  | { type: 'AuctionStarted'; timestamp: Date }
+  | { type: 'BidPlaced'; playerId: string; teamId: string; amount: number; automatic?: boolean; timestamp: Date }
+  | { type: 'TeamPassed'; playerId: string; teamId: string; timestamp: Date }
+  | { type: 'SealedBidSubmitted'; playerId: string; teamId: string; amount: number; timestamp: Date }
+  | { type: 'SealedBidsRevealed'; reveal: SealedBidReveal; timestamp: Date }
+  | { type: 'RtmOffered'; playerId: string; teamId: string; winningTeamId: string; amount: number; timestamp: Date }
+  | { type: 'RtmExercised'; playerId: string; teamId: string; amount: number; timestamp: Date }
+  | { type: 'RtmDeclined'; playerId: string; teamId: string; timestamp: Date }
+  | { type: 'PlayerSold'; playerId: string; teamId: string; amount: number; timestamp: Date }
+  | { type: 'PlayerUnsold'; playerId: string; timestamp: Date }
+  | { type: 'PlayerAdvanced'; playerId: string; index: number; timestamp: Date }
+  | { type: 'UnsoldNominationsOpened'; round: number; timestamp: Date }
+  | { type: 'UnsoldPlayersNominated'; teamId: string; playerIds: string[]; timestamp: Date }
+  | { type: 'AcceleratedNominationsOpened'; timestamp: Date }
+  | { type: 'PlayersNominated'; teamId: string; playerIds: string[]; timestamp: Date }
+  | { type: 'AcceleratedRoundStarted'; queue: Nomination[]; timestamp: Date }
+  | { type: 'NominationAdvanced'; playerId: string; teamId: string; timestamp: Date }
+  | { type: 'AcceleratedRoundEnded'; timestamp: Date }
+  | { type: 'UnsoldRoundStarted'; round: number; playerIds: string[]; basePriceReduction: number; timestamp: Date }
+  | { type: 'PlayerDrafted'; playerId: string; teamId: string; pick: number; slot: number; timestamp: Date }
+  | { type: 'AuctionPaused'; timestamp: Date }
+  | { type: 'TeamTimeoutCalled'; teamId: string; seconds: number; timestamp: Date }
+  | { type: 'AuctionResumed'; timestamp: Date }
+  | { type: 'AuctionEnded'; reason: 'manual' | 'exhausted'; timestamp: Date };
+
+export interface EngineOptions {
+  now?: () => Date;
+  random?: () => number; // Orders returning unsold players and tosses coins; defaults to the tournament's shuffle seed
+}
+
+// Why a command was turned down. Shared by the auctioneer's screen and remote bidding clients.
+export type RejectionReason =
+  | 'NO_TOURNAMENT'
+  | 'AUCTION_STARTED' // setup steps once the auction is under way
+  | 'AUCTION_NOT_ACTIVE'
+  | 'AUCTION_COMPLETED'
+  | 'AUCTION_PAUSED'
+  | 'NOT_PAUSED'
+  | 'NO_TIMEOUTS_LEFT'
+  | 'WRONG_FORMAT' // not how this auction format works
+  | 'NO_CURRENT_PLAYER'
+  | 'UNKNOWN_TEAM'
+  | 'UNKNOWN_PLAYER'
+  | 'PLAYER_UNAVAILABLE'
+  | 'RTM_PENDING'
+  | 'NO_RTM_OFFER'
+  | 'NO_BIDS'
+  | 'BIDDING_CLOSED' // sealed bids already revealed, or the Dutch price already claimed
+  | 'ALREADY_HIGHEST_BIDDER'
+  | 'BELOW_MIN_INCREMENT'
+  | 'EXCEEDS_BUDGET'
+  | 'EXCEEDS_MAX_BID'
+  | 'SQUAD_FULL'
+  | 'SQUAD_LIMIT' // overseas or role limits
+  | 'TEAM_PASSED'
+  | 'NOT_ELIGIBLE' // not this team's turn, or not in a re-bid
+  | 'NOMINATIONS_CLOSED'
+  | 'NOT_ALLOWED';
+
+export type ActionResult =
+  | { ok: true; events: AuctionEvent[] }
+  | { ok: false; reason: RejectionReason };
+
+// Something that would stop the auction from filling every squad
+export interface FeasibilityIssue {
+  type: 'POOL_TOO_SMALL' | 'ROLE_SHORT' | 'BUDGET_SHORT';
+  teamId?: string; // BUDGET_SHORT
+  role?: PlayerRole; // ROLE_SHORT
+  shortfall: number; // players missing, or money for BUDGET_SHORT
+}
+
+// Events for an accepted command, or why it was turned down
+type Decision = AuctionEvent[] | RejectionReason;
+
+export interface EngineResult extends EngineState {
+  events: AuctionEvent[];
+  rejection?: RejectionReason; // set when the command was turned down and nothing changed
+}
+
+export const initialAuctionState: AuctionState = {
+  currentBids: [],
+  passedTeams: [],
+  timer: 30,
+  isActive: false,
+};
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+/**
+ * Captains are only pre-assigned when there is exactly one per team
+ */
+export const usesCaptains = (tournament: Tournament): boolean => {
+  const captains = tournament.players.filter(p => p.isCaptain);
+  return captains.length > 0 && captains.length === tournament.numberOfTeams;
+};
+
+/**
+ * Whether a player can still come up for auction in the current pass
+ */
+export const isPlayerAvailable = (tournament: Tournament, player: Player): boolean => {
+  // Drafted players have a team but no price
+  return (
+    !player.soldPrice &&
+    !player.teamId &&
+    !player.isUnsold &&
+    !player.isRetained &&
+    (!usesCaptains(tournament) || !player.isCaptain)
+  );
+};
+
+/**
+ * Players that go through the auction (retained players and pre-assigned captains excluded)
+ */
+export const getAuctionablePlayers = (tournament: Tournament): Player[] => {
+  const hasCaptains = usesCaptains(tournament);
+  return tournament.players.filter(p => !p.isRetained && (!hasCaptains || !p.isCaptain));
+};
+
+/**
+ * Set names in auction order: the configured order first, then any other sets in the order they appear
+ */
+export const getSetOrder = (players: Player[], setOrder: string[] = []): string[] => {
+  const names = [...setOrder];
+  players.forEach(player => {
+    if (player.set && !names.includes(player.set)) {
+      names.push(player.set);
+    }
+  });
+  return names;
+};
+
+/**
+ * Groups players set by set in auction order, shuffled within each set. Players without a set go last.
+ *
+ * Each set is put in a fixed order (by name) before shuffling, so the same seed and player list
+ * always give the same auction order no matter how the list was uploaded.
+ */
+export const orderPlayersBySet = (players: Player[], setOrder: string[] | undefined, random: () => number): Player[] => {
+  const groups = [
+    ...getSetOrder(players, setOrder).map(name => players.filter(p => p.set === name)),
+    players.filter(p => !p.set),
+  ];
+  const byName = (a: Player, b: Player) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+  return groups.flatMap(group => shuffle([...group].sort(byName), random));
+};
+
+const findAvailableIndex = (tournament: Tournament, fromIndex: number): number => {
+  for (let i = Math.max(0, fromIndex); i < tournament.players.length; i++) {
+    if (isPlayerAvailable(tournament, tournament.players[i])) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * The player currently under the hammer, or null when there is none
+ */
+export const getCurrentPlayer = (tournament: Tournament, auctionState: AuctionState): Player | null => {
+  // Nobody is under the hammer while teams are nominating, or at all in a draft
+  if (areAcceleratedNominationsOpen(tournament) || areNominationsOpen(tournament) || isDraft(tournament)) {
+    return null;
+  }
+
+  if (tournament.nominationQueue) {
+    return getCurrentNominatedPlayer(tournament, auctionState);
+  }
+
+  if (tournament.currentPlayerIndex >= tournament.players.length) {
+    return null;
+  }
+
+  // While the next player is being picked, don't look past the player that was just closed
+  if (auctionState.preventAutoAdvance) {
+    const player = tournament.players[tournament.currentPlayerIndex];
+    return player && isPlayerAvailable(tournament, player) ? player : null;
+  }
+
+  const index = findAvailableIndex(tournament, tournament.currentPlayerIndex);
+  return index === -1 ? null : tournament.players[index];
+};
+
+// In accelerated mode the nomination queue decides who comes up, not the player list order
+const getCurrentNominatedPlayer = (tournament: Tournament, auctionState: AuctionState): Player | null => {
+  const queue = tournament.nominationQueue ?? [];
+  const entries = auctionState.preventAutoAdvance ? queue.slice(0, 1) : queue;
+
+  for (const entry of entries) {
+    const player = tournament.players.find(p => p.id === entry.playerId);
+    if (player && isPlayerAvailable(tournament, player)) {
+      return player;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether the auction is following a nomination queue instead of the player list
+ */
+export const isAccelerated = (tournament: Tournament): boolean => tournament.nominationQueue !== undefined;
+
+/**
+ * Whether teams are picking players for accelerated mode
+ */
+export const areAcceleratedNominationsOpen = (tournament: Tournament): boolean => {
+  return tournament.acceleratedNominations !== undefined;
+};
+
+/**
+ * The nomination that brought the current player up, in accelerated mode
+ */
+export const getCurrentNomination = (tournament: Tournament, auctionState: AuctionState): Nomination | null => {
+  const player = getCurrentPlayer(tournament, auctionState);
+  return tournament.nominationQueue?.find(entry => entry.playerId === player?.id) ?? null;
+};
+
+/**
+ * Players teams can nominate in accelerated mode: everyone still to come up plus the unsold players
+ */
+export const getNominationShortlist = (tournament: Tournament): Player[] => {
+  return [
+    ...getAuctionablePlayers(tournament).filter(p => isPlayerAvailable(tournament, p)),
+    ...getUnsoldPlayers(tournament),
+  ];
+};
+
+/**
+ * Accelerated mode can be switched on between players, once per auction
+ */
+export const canStartAccelerated = (tournament: Tournament, auctionState: AuctionState): boolean => {
+  return (
+    tournament.isAuctionStarted &&
+    !tournament.isAuctionCompleted &&
+    !isDraft(tournament) &&
+    !isAccelerated(tournament) &&
+    !areAcceleratedNominationsOpen(tournament) &&
+    !areNominationsOpen(tournament) &&
+    !auctionState.highestBid &&
+    !auctionState.pendingRtm
+  );
+};
+
+/**
+ * Players from the given set that are still waiting to be auctioned, the current one included
+ */
+export const getPlayersLeftInSet = (tournament: Tournament, set: string): Player[] => {
+  return tournament.players.filter(p => p.set === set && isPlayerAvailable(tournament, p));
+};
+
+/**
+ * 0 during the main round, then the number of the unsold round in progress
+ */
+export const getAuctionRound = (tournament: Tournament): number => tournament.auctionRound ?? 0;
+
+/**
+ * Options for the given unsold round (1-based)
+ */
+export const getUnsoldRoundConfig = (tournament: Tournament, round: number): UnsoldRoundConfig => {
+  return tournament.settings.unsoldRounds?.[round - 1] ?? {};
+};
+
+/**
+ * Whether teams are picking which unsold players come back in an accelerated round
+ */
+export const areNominationsOpen = (tournament: Tournament): boolean => tournament.unsoldNominations !== undefined;
+
+/**
+ * Players waiting for an unsold round (pre-assigned captains excluded)
+ */
+export const getUnsoldPlayers = (tournament: Tournament): Player[] => {
+  const hasCaptains = usesCaptains(tournament);
+  return tournament.players.filter(p => p.isUnsold && !p.soldPrice && (!hasCaptains || !p.isCaptain));
+};
+
+/**
+ * How much a bid at the given amount has to be raised by, following the increment slabs
+ */
+export const getBidIncrement = (tournament: Tournament, amount: number): number => {
+  const slabs = tournament.settings.bidIncrementSlabs;
+  if (!slabs || slabs.length === 0) {
+    return Number(tournament.settings.bidIncrement);
+  }
+
+  const ordered = [...slabs].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+  const slab = ordered.find(s => s.upTo === undefined || amount < s.upTo);
+  return Number(slab ? slab.increment : tournament.settings.bidIncrement);
+};
+
+/**
+ * Lowest amount the next bid on the given player may be
+ */
+export const getMinimumNextBid = (tournament: Tournament, auctionState: AuctionState, player: Player): number => {
+  return auctionState.highestBid?.amount
+    ? auctionState.highestBid.amount + getBidIncrement(tournament, auctionState.highestBid.amount)
+    : player.basePrice || tournament.settings.minimumBid;
+};
+
+/**
+ * Warning the auctioneer should be calling with this many seconds left on the clock
+ */
+export const getHammerPhase = (tournament: Tournament, secondsLeft: number): HammerPhase | undefined => {
+  const { goingOnceAt = 10, goingTwiceAt = 5 } = tournament.settings;
+  if (secondsLeft <= goingTwiceAt) return 'going-twice';
+  if (secondsLeft <= goingOnceAt) return 'going-once';
+  return undefined;
+};
+
+/**
+ * Whether teams hand in hidden bids instead of bidding in the open
+ */
+export const isSealedBid = (tournament: Tournament): boolean => tournament.settings.auctionFormat === 'sealed';
+
+/**
+ * Lowest sealed bid a team can hand in: the base price, or above the tied amount in a re-bid
+ */
+export const getMinimumSealedBid = (tournament: Tournament, auctionState: AuctionState, player: Player): number => {
+  const tiedAmount = auctionState.rebidTeamIds ? auctionState.sealedReveal?.bids[0]?.amount : undefined;
+  if (tiedAmount !== undefined) {
+    return tiedAmount + getBidIncrement(tournament, tiedAmount);
+  }
+  return getMinimumNextBid(tournament, auctionState, player);
+};
+
+/**
+ * Whether the price starts high and falls until a team claims the player
+ */
+export const isDutchAuction = (tournament: Tournament): boolean => tournament.settings.auctionFormat === 'dutch';
+
+/**
+ * Price a player opens at in a Dutch auction
+ */
+export const getDutchStartingPrice = (tournament: Tournament, player: Player): number => {
+  return (player.basePrice || tournament.settings.minimumBid) * (tournament.settings.dutchStartMultiple ?? 5);
+};
+
+/**
+ * Price a team would pay by claiming the player right now
+ */
+export const getDutchPrice = (tournament: Tournament, auctionState: AuctionState, player: Player): number => {
+  return auctionState.dutchPrice ?? getDutchStartingPrice(tournament, player);
+};
+
+/**
+ * Price after the next tick of the clock - one increment lower, never below the base price.
+ * Null once the price has reached the base price.
+ */
+export const getNextDutchPrice = (tournament: Tournament, auctionState: AuctionState, player: Player): number | null => {
+  const floor = player.basePrice || tournament.settings.minimumBid;
+  const price = getDutchPrice(tournament, auctionState, player);
+  if (price <= floor) return null;
+  return Math.max(floor, price - getBidIncrement(tournament, price));
+};
+
+/**
+ * Whether teams take turns picking players instead of bidding for them
+ */
+export const isDraft = (tournament: Tournament): boolean => tournament.settings.auctionFormat === 'draft';
+
+/**
+ * Number of players picked so far in a draft
+ */
+export const getDraftPickCount = (tournament: Tournament): number => {
+  return tournament.players.filter(p => p.draftPick !== undefined).length;
+};
+
+/**
+ * Draft round (1-based) a slot in the snake order belongs to
+ */
+export const getDraftRound = (tournament: Tournament, slot: number): number => {
+  return Math.floor(slot / Math.max(1, tournament.teams.length)) + 1;
+};
+
+// Snake order: teams pick 1..N in odd rounds and N..1 in even ones
+const getSnakeTeam = (tournament: Tournament, slot: number): Team => {
+  const count = tournament.teams.length;
+  const position = slot % count;
+  return tournament.teams[getDraftRound(tournament, slot) % 2 === 1 ? position : count - 1 - position];
+};
+
+/**
+ * The team on the clock and its slot in the snake order. Teams that can't add any of the
+ * players left are skipped; null once nobody can pick.
+ */
+export const getDraftTurn = (tournament: Tournament): { team: Team; slot: number } | null => {
+  if (!isDraft(tournament) || tournament.teams.length === 0) return null;
+
+  const available = getAuctionablePlayers(tournament).filter(p => isPlayerAvailable(tournament, p));
+  const start = tournament.draftSlot ?? 0;
+
+  // Two rounds' worth of slots passes every team at least once
+  for (let slot = start; slot < start + tournament.teams.length * 2; slot++) {
+    const team = getSnakeTeam(tournament, slot);
+    if (available.some(p => canTeamAcquirePlayer(tournament, team, p))) {
+      return { team, slot };
+    }
+  }
+  return null;
+};
+
+/**
+ * The pick made for a team that runs out of time: its highest-rated eligible player,
+ * falling back to the player list order
+ */
+export const getAutoDraftPick = (tournament: Tournament): Player | null => {
+  const turn = getDraftTurn(tournament);
+  if (!turn) return null;
+
+  const candidates = getAuctionablePlayers(tournament)
+    .filter(p => isPlayerAvailable(tournament, p) && canTeamAcquirePlayer(tournament, turn.team, p));
+  return candidates.reduce<Player | null>(
+    (best, player) => (!best || (player.rating ?? 0) > (best.rating ?? 0) ? player : best),
+    null
+  );
+};
+
+/**
+ * Where the auction stands, paused counting as its own status
+ */
+export const getAuctionStatus = (tournament: Tournament): AuctionStatus => {
+  if (tournament.isAuctionCompleted) return 'completed';
+  if (tournament.pause) return 'paused';
+  return tournament.isAuctionStarted ? 'in-progress' : 'not-started';
+};
+
+/**
+ * Strategic timeouts each team gets per auction
+ */
+export const getTeamTimeouts = (tournament: Tournament): number => tournament.settings.teamTimeouts ?? 2;
+
+/**
+ * How long a strategic timeout lasts, in seconds
+ */
+export const getTeamTimeoutSeconds = (tournament: Tournament): number => tournament.settings.teamTimeoutSeconds ?? 90;
+
+/**
+ * Strategic timeouts the team can still call
+ */
+export const getTimeoutsLeft = (tournament: Tournament, team: Team): number => {
+  return Math.max(0, getTeamTimeouts(tournament) - (team.timeoutsUsed ?? 0));
+};
+
+// ---------------------------------------------------------------------------
+// Squad constraints
+// ---------------------------------------------------------------------------
+
+const PLAYER_ROLES: PlayerRole[] = ['Batsman', 'Bowler', 'All-Rounder', 'Wicket-Keeper'];
+
+const countRole = (team: Team, role: PlayerRole): number => {
+  return team.players.filter(p => p.role === role).length;
+};
+
+/**
+ * Overseas quota for a team - a per-team limit wins over the tournament-wide one
+ */
+export const getOverseasLimit = (tournament: Tournament, team: Team): number | undefined => {
+  return team.maxForeignPlayers ?? tournament.constraints?.maxForeignPlayers;
+};
+
+/**
+ * Slots a team still has to fill with each role to meet the role minimums,
+ * counting the given player as already bought
+ */
+export const getRequiredRoleSlots = (
+  tournament: Tournament,
+  team: Team,
+  incoming?: Player | null
+): Partial<Record<PlayerRole, number>> => {
+  const limits = tournament.constraints?.roleBasedLimits;
+  const required: Partial<Record<PlayerRole, number>> = {};
+  if (!limits) return required;
+
+  PLAYER_ROLES.forEach(role => {
+    const min = limits[role]?.min;
+    if (!min) return;
+
+    const have = countRole(team, role) + (incoming?.role === role ? 1 : 0);
+    if (have < min) {
+      required[role] = min - have;
+    }
+  });
+  return required;
+};
+
+/**
+ * Whether buying the player would keep the team within its squad size, role maximums and
+ * overseas quota, while leaving enough slots for the roles it still has to fill
+ */
+export const canTeamAcquirePlayer = (tournament: Tournament, team: Team, player: Player): boolean => {
+  const remainingSlots = team.maxPlayers - team.players.length;
+  if (remainingSlots <= 0) return false;
+
+  const max = player.role ? tournament.constraints?.roleBasedLimits?.[player.role]?.max : undefined;
+  if (player.role && max !== undefined && countRole(team, player.role) >= max) return false;
+
+  const overseasLimit = getOverseasLimit(tournament, team);
+  if (player.isOverseas && overseasLimit !== undefined) {
+    if (team.players.filter(p => p.isOverseas).length >= overseasLimit) return false;
+  }
+
+  const required = Object.values(getRequiredRoleSlots(tournament, team, player));
+  const requiredSlots = required.reduce((sum, count) => sum + count, 0);
+  return requiredSlots <= remainingSlots - 1;
+};
+
+// Players squads can still be filled from - unsold players only while they can come back
+const getRemainingPool = (tournament: Tournament): Player[] => {
+  const hasCaptains = usesCaptains(tournament);
+  return tournament.players.filter(p =>
+    !p.soldPrice &&
+    !p.teamId &&
+    (!p.isUnsold || tournament.settings.enableUnsoldPlayerReturn) &&
+    (!hasCaptains || !p.isCaptain)
+  );
+};
+
+// Cheapest way to fill open slots from the pool at base prices, taking the roles
+// still to be filled first
+const getCheapestFill = (
+  tournament: Tournament,
+  required: Partial<Record<PlayerRole, number>>,
+  openSlots: number,
+  pool: Player[]
+): number => {
+  if (openSlots <= 0) return 0;
+
+  const minimumBid = tournament.settings.minimumBid;
+  const price = (player: Player) => player.basePrice || minimumBid;
+  const byPrice = [...pool].sort((a, b) => price(a) - price(b));
+
+  const picked = PLAYER_ROLES.flatMap(role => byPrice.filter(p => p.role === role).slice(0, required[role] || 0));
+  const pickedIds = new Set(picked.map(p => p.id));
+  picked.push(...byPrice.filter(p => !pickedIds.has(p.id)).slice(0, Math.max(0, openSlots - picked.length)));
+
+  // Slots the pool can't cover are reported as a shortage of players; count them at the minimum bid
+  const total = picked.reduce((sum, p) => sum + price(p), 0);
+  return total + Math.max(0, openSlots - picked.length) * minimumBid;
+};
+
+/**
+ * Highest bid a team can make while keeping enough budget to fill its remaining slots
+ * with the cheapest players still left. When the player being bid on is known, role minimums and quotas are taken into account:
+ * a team that can't take the player can't bid at all, and budget is held back for the
+ * roles it still has to fill.
+ */
+export const getMaxBidForTeam = (tournament: Tournament, teamId: string, player?: Player | null): number => {
+  const team = tournament.teams.find(t => t.id === teamId);
+  if (!team) return 0;
+  if (player && !canTeamAcquirePlayer(tournament, team, player)) return 0;
+
+  const remainingSlots = team.maxPlayers - team.players.length;
+
+  // If this is the last slot, team can bid their entire remaining budget
+  if (remainingSlots <= 1) {
+    return team.remainingBudget;
+  }
+
+  // Reserve what the cheapest players left in the pool would cost for every other slot,
+  // filling the still-needed roles first
+  const pool = getRemainingPool(tournament).filter(p => p.id !== player?.id);
+  const required = getRequiredRoleSlots(tournament, team, player);
+  const maxBid = team.remainingBudget - getCheapestFill(tournament, required, remainingSlots - 1, pool);
+
+  // Ensure max bid is at least the minimum bid
+  return Math.max(maxBid, tournament.settings.minimumBid);
+};
+
+/**
+ * Teams that can still bid on the current player
+ */
+export const getEligibleTeams = (tournament: Tournament, auctionState: AuctionState): Team[] => {
+  const currentPlayer = getCurrentPlayer(tournament, auctionState);
+  if (!currentPlayer) return [];
+
+  const minBid = getMinimumNextBid(tournament, auctionState, currentPlayer);
+
+  return tournament.teams.filter(team => {
+    // Check squad size, role limits and overseas quota (hard constraints - check first)
+    if (!canTeamAcquirePlayer(tournament, team, currentPlayer)) return false;
+
+    // Check if team hasn't passed
+    if (auctionState.passedTeams.includes(team.id)) return false;
+
+    // Check if team has budget for minimum bid (only if they have space)
+    return team.remainingBudget >= minBid;
+  });
+};
+
+export const areAllTeamsFull = (tournament: Tournament): boolean => {
+  return tournament.teams.every(team => team.players.length >= team.maxPlayers);
+};
+
+/**
+ * The player's former team, if it holds an RTM card and could match the given price
+ */
+export const getRtmTeam = (tournament: Tournament, player: Player, winningTeamId: string, amount: number): Team | null => {
+  const previousTeam = player.previousTeam?.trim().toLowerCase();
+  if (!previousTeam) return null;
+
+  const team = tournament.teams.find(t => t.id.toLowerCase() === previousTeam || t.name.trim().toLowerCase() === previousTeam);
+  if (!team || team.id === winningTeamId || !team.rtmCards) return null;
+
+  const canMatch = team.remainingBudget >= amount && amount <= getMaxBidForTeam(tournament, team.id, player);
+  return canMatch ? team : null;
+};
+
+/**
+ * Why a team can't put this amount on the player, or null if it can. The team-side checks
+ * shared by open bids, sealed bids and Dutch claims.
+ */
+export const getBidRejection = (
+  tournament: Tournament,
+  auctionState: AuctionState,
+  team: Team,
+  player: Player,
+  amount: number
+): RejectionReason | null => {
+  if (team.players.length >= team.maxPlayers) return 'SQUAD_FULL';
+  if (!canTeamAcquirePlayer(tournament, team, player)) return 'SQUAD_LIMIT';
+  if (auctionState.passedTeams.includes(team.id)) return 'TEAM_PASSED';
+  if (amount > team.remainingBudget) return 'EXCEEDS_BUDGET';
+  if (amount > getMaxBidForTeam(tournament, team.id, player)) return 'EXCEEDS_MAX_BID';
+  return null;
+};
+
+/**
+ * Limit a team's proxy bids allow for a player - an instruction for the player
+ * overrides one for the player's role
+ */
+export const getProxyBidLimit = (proxyBids: ProxyBid[], teamId: string, player: Player): number | null => {
+  const teamProxyBids = proxyBids.filter(p => p.teamId === teamId);
+  const forPlayer = teamProxyBids.find(p => p.playerId === player.id);
+  if (forPlayer) return forPlayer.maxAmount;
+
+  const forRole = teamProxyBids.filter(p => !p.playerId && p.role && p.role === player.role);
+  return forRole.length > 0 ? Math.max(...forRole.map(p => p.maxAmount)) : null;
+};
+
+/**
+ * Automatic answer to the current highest bid: the rival whose proxy bid goes highest raises
+ * by one increment, as long as its limit and maximum bid allow it
+ */
+export const getProxyBid = (
+  tournament: Tournament,
+  auctionState: AuctionState,
+  proxyBids: ProxyBid[]
+): { teamId: string; amount: number } | null => {
+  const { highestBid } = auctionState;
+  const player = getCurrentPlayer(tournament, auctionState);
+  if (!highestBid || !player || auctionState.pendingRtm) return null;
+
+  const amount = getMinimumNextBid(tournament, auctionState, player);
+  let best: { teamId: string; limit: number } | null = null;
+  for (const team of getEligibleTeams(tournament, auctionState)) {
+    if (team.id === highestBid.teamId || amount > getMaxBidForTeam(tournament, team.id, player)) continue;
+
+    const limit = getProxyBidLimit(proxyBids, team.id, player);
+    if (limit !== null && amount <= limit && (!best || limit > best.limit)) {
+      best = { teamId: team.id, limit };
+    }
+  }
+
+  return best ? { teamId: best.teamId, amount } : null;
+};
+
+/**
+ * Whether a team may keep the player before the auction at the given price
+ */
+export const canRetainPlayer = (tournament: Tournament, team: Team, player: Player, price: number): boolean => {
+  if (tournament.isAuctionStarted || player.isRetained || player.teamId) return false;
+  if (price < 0 || price > team.remainingBudget) return false;
+
+  const maxRetentions = tournament.settings.maxRetentionsPerTeam;
+  if (maxRetentions !== undefined && team.players.filter(p => p.isRetained).length >= maxRetentions) return false;
+
+  return canTeamAcquirePlayer(tournament, team, player);
+};
+
+/**
+ * Everything that would stop the auction from filling every squad: too few players left,
+ * too few of a role the teams still need, or a team that can't afford the cheapest players
+ * it needs. Budgets are checked team by team at base prices, so passing this doesn't
+ * guarantee rival bids won't squeeze a team out later.
+ */
+export const getFeasibilityIssues = (tournament: Tournament): FeasibilityIssue[] => {
+  const pool = getRemainingPool(tournament);
+  const issues: FeasibilityIssue[] = [];
+
+  const openSlots = tournament.teams.reduce((sum, team) => sum + Math.max(0, team.maxPlayers - team.players.length), 0);
+  if (openSlots > pool.length) {
+    issues.push({ type: 'POOL_TOO_SMALL', shortfall: openSlots - pool.length });
+  }
+
+  PLAYER_ROLES.forEach(role => {
+    const needed = tournament.teams.reduce((sum, team) => sum + (getRequiredRoleSlots(tournament, team)[role] || 0), 0);
+    const left = pool.filter(p => p.role === role).length;
+    if (needed > left) {
+      issues.push({ type: 'ROLE_SHORT', role, shortfall: needed - left });
+    }
+  });
+
+  tournament.teams.forEach(team => {
+    const openSlots = team.maxPlayers - team.players.length;
+    const cost = getCheapestFill(tournament, getRequiredRoleSlots(tournament, team), openSlots, pool);
+    if (cost > team.remainingBudget) {
+      issues.push({ type: 'BUDGET_SHORT', teamId: team.id, shortfall: cost - team.remainingBudget });
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Issues that selling the player to the team at this price would add to the ones the
+ * auction already has
+ */
+export const getSaleFeasibilityIssues = (
+  tournament: Tournament,
+  teamId: string,
+  player: Player,
+  amount: number
+): FeasibilityIssue[] => {
+  const sold = { ...player, teamId, soldPrice: amount };
+  const after = getFeasibilityIssues({
+    ...tournament,
+    teams: tournament.teams.map(team =>
+      team.id === teamId
+        ? { ...team, players: [...team.players, sold], remainingBudget: team.remainingBudget - amount }
+        : team
+    ),
+    players: tournament.players.map(p => (p.id === player.id ? sold : p)),
+  });
+
+  const before = getFeasibilityIssues(tournament);
+  return after.filter(issue => !before.some(existing =>
+    existing.type === issue.type &&
+    existing.teamId === issue.teamId &&
+    existing.role === issue.role &&
+    existing.shortfall >= issue.shortfall
+  ));
+};
+
+const canAnyTeamAffordAny = (tournament: Tournament, players: Player[]): boolean => {
+  return tournament.teams.some(team =>
+    players.some(player =>
+      canTeamAcquirePlayer(tournament, team, player) &&
+      team.remainingBudget >= (player.basePrice || tournament.settings.minimumBid)
+    )
+  );
+};
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/**
+ * Open the sealed bids: the highest wins, and a tie is settled by the tournament's tie-break rule
+ */
+const revealSealedBids = (state: EngineState, player: Player, options: EngineOptions): SealedBidReveal => {
+  const { tournament, auctionState } = state;
+  const bids = Object.entries(auctionState.sealedBids ?? {})
+    .map(([teamId, amount]) => ({ teamId, amount }))
+    .sort((a, b) => b.amount - a.amount);
+
+  if (bids.length === 0) {
+    return { playerId: player.id, bids };
+  }
+
+  const tiedTeamIds = bids.filter(bid => bid.amount === bids[0].amount).map(bid => bid.teamId);
+  if (tiedTeamIds.length === 1) {
+    return { playerId: player.id, bids, winningTeamId: tiedTeamIds[0] };
+  }
+
+  switch (tournament.settings.sealedBidTieBreak ?? 'budget') {
+    case 'rebid':
+      return { playerId: player.id, bids, tiedTeamIds };
+
+    case 'coin-toss': {
+      const random = options.random
+        ?? (tournament.shuffleSeed ? createSeededRandom(`${tournament.shuffleSeed}:tie:${player.id}`) : Math.random);
+      const winningTeamId = tiedTeamIds[Math.floor(random() * tiedTeamIds.length)];
+      return { playerId: player.id, bids, winningTeamId, tiedTeamIds };
+    }
+
+    case 'budget': {
+      // Most money left wins; if that is level too, the earliest bid stands
+      const budgetOf = (teamId: string) => tournament.teams.find(t => t.id === teamId)?.remainingBudget ?? 0;
+      const winningTeamId = tiedTeamIds.reduce((best, teamId) => (budgetOf(teamId) > budgetOf(best) ? teamId : best));
+      return { playerId: player.id, bids, winningTeamId, tiedTeamIds };
+    }
+  }
+};
+
+/**
+ * Close accelerated nominations: teams take turns putting their picks into the queue, and a player
+ * picked by more than one team is credited to whoever's turn came first
+ */
+const decideAcceleratedRound = (state: EngineState, options: EngineOptions, timestamp: Date): AuctionEvent[] => {
+  const { tournament } = state;
+  const picks = tournament.teams.map(team => tournament.acceleratedNominations?.[team.id] ?? []);
+  const queue: Nomination[] = [];
+  const queued = new Set<string>();
+
+  for (let turn = 0; turn < Math.max(0, ...picks.map(list => list.length)); turn++) {
+    tournament.teams.forEach((team, index) => {
+      const playerId = picks[index][turn];
+      if (playerId && !queued.has(playerId)) {
+        queued.add(playerId);
+        queue.push({ playerId, teamId: team.id });
+      }
+    });
+  }
+
+  const started: AuctionEvent = { type: 'AcceleratedRoundStarted', queue, timestamp };
+  if (queue.length > 0) {
+    return [started];
+  }
+
+  // Nobody was nominated, so accelerated mode is over as soon as it starts
+  const afterStart = applyEvent(state, started);
+  const ended: AuctionEvent = { type: 'AcceleratedRoundEnded', timestamp };
+  return [started, ended, ...decideNextRound(applyEvent(afterStart, ended), options, timestamp)];
+};
+
+/**
+ * Everyone in the current round has been auctioned - bring unsold players back set by set for
+ * the next unsold round, open nominations for an accelerated one, or end the auction
+ */
+const decideNextRound = (state: EngineState, options: EngineOptions, timestamp: Date): AuctionEvent[] => {
+  const { tournament } = state;
+  const round = getAuctionRound(tournament) + 1;
+  const unsoldPlayers = getUnsoldPlayers(tournament);
+  let returning: Player[];
+
+  if (areNominationsOpen(tournament)) {
+    const nominated = new Set(Object.values(tournament.unsoldNominations ?? {}).flat());
+    returning = unsoldPlayers.filter(p => nominated.has(p.id));
+  } else {
+    const { enableUnsoldPlayerReturn, unsoldPlayerReturnRound } = tournament.settings;
+    if (
+      !enableUnsoldPlayerReturn ||
+      round > unsoldPlayerReturnRound ||
+      unsoldPlayers.length === 0 ||
+      !canAnyTeamAffordAny(tournament, unsoldPlayers)
+    ) {
+      return [{ type: 'AuctionEnded', reason: 'exhausted', timestamp }];
+    }
+
+    if (getUnsoldRoundConfig(tournament, round).accelerated) {
+      return [{ type: 'UnsoldNominationsOpened', round, timestamp }];
+    }
+    returning = unsoldPlayers;
+  }
+
+  const random = options.random
+    ?? (tournament.shuffleSeed ? createSeededRandom(`${tournament.shuffleSeed}:unsold:${round}`) : Math.random);
+  const roundStarted: AuctionEvent = {
+    type: 'UnsoldRoundStarted',
+    round,
+    playerIds: orderPlayersBySet(returning, tournament.settings.setOrder, random).map(p => p.id),
+    basePriceReduction: getUnsoldRoundConfig(tournament, round).basePriceReduction ?? 0,
+    timestamp,
+  };
+  if (returning.length > 0) {
+    return [roundStarted];
+  }
+
+  // Nobody was nominated, so the round is over as soon as it starts
+  return [roundStarted, ...decideNextRound(applyEvent(state, roundStarted), options, timestamp)];
+};
+
+const decide = (state: EngineState, command: AuctionCommand, options: EngineOptions): Decision => {
+  const { tournament, auctionState } = state;
+  const timestamp = (options.now ?? (() => new Date()))();
+
+  // Nothing happens during a pause except ending it, or ending the auction
+  if (tournament.pause && command.type !== 'RESUME' && command.type !== 'END') return 'AUCTION_PAUSED';
+
+  switch (command.type) {
+    case 'SETUP_TEAMS': {
+      if (tournament.isAuctionStarted) return 'AUCTION_STARTED';
+      if (command.teams.some(setup => !tournament.teams.some(t => t.id === setup.teamId))) return 'UNKNOWN_TEAM';
+      if (command.teams.some(setup => !setup.name.trim() || (setup.rtmCards ?? 0) < 0)) return 'NOT_ALLOWED';
+
+      return [{ type: 'TeamsSetUp', teams: command.teams, timestamp }];
+    }
+
+    case 'ASSIGN_CAPTAINS': {
+      if (tournament.isAuctionStarted) return 'AUCTION_STARTED';
+      if (!usesCaptains(tournament)) return 'NOT_ALLOWED';
+
+      // Captains go to teams in the order they appear in the player list, without costing anything
+      const captains = tournament.players.filter(p => p.isCaptain);
+      const events: AuctionEvent[] = [];
+      tournament.teams.forEach((team, index) => {
+        const captain = captains[index];
+        if (captain && !captain.isRetained) {
+          events.push({ type: 'CaptainAssigned', playerId: captain.id, teamId: team.id, timestamp });
+        }
+      });
+      return events;
+    }
+
+    case 'RETAIN': {
+      const player = tournament.players.find(p => p.id === command.playerId);
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!player) return 'UNKNOWN_PLAYER';
+      if (!team) return 'UNKNOWN_TEAM';
+      if (!canRetainPlayer(tournament, team, player, command.price)) return 'NOT_ALLOWED';
+
+      return [{ type: 'PlayerRetained', playerId: player.id, teamId: team.id, price: command.price, timestamp }];
+    }
+
+    case 'RELEASE': {
+      // Captains stay with their teams; anyone else can go back into the pool until the auction starts
+      const player = tournament.players.find(p => p.id === command.playerId);
+      if (tournament.isAuctionStarted) return 'AUCTION_STARTED';
+      if (!player) return 'UNKNOWN_PLAYER';
+      if (!player.isRetained || !player.teamId) return 'NOT_ALLOWED';
+      if (player.isCaptain && usesCaptains(tournament)) return 'NOT_ALLOWED';
+
+      return [{ type: 'RetentionReleased', playerId: player.id, teamId: player.teamId, price: player.soldPrice || 0, timestamp }];
+    }
+
+    case 'START': {
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+      // Starting again would wipe the bidding on the player under the hammer
+      if (tournament.isAuctionStarted) return 'AUCTION_STARTED';
+      return [{ type: 'AuctionStarted', timestamp }];
+    }
+
+    case 'BID': {
+      if (isSealedBid(tournament) || isDutchAuction(tournament) || isDraft(tournament)) return 'WRONG_FORMAT';
+      if (!auctionState.isActive) return 'AUCTION_NOT_ACTIVE';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+
+      const player = getCurrentPlayer(tournament, auctionState);
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (!team) return 'UNKNOWN_TEAM';
+      if (auctionState.highestBid?.teamId === team.id) return 'ALREADY_HIGHEST_BIDDER';
+
+      // Bids have to clear the next step up from the current highest bid
+      if (command.amount < getMinimumNextBid(tournament, auctionState, player)) return 'BELOW_MIN_INCREMENT';
+
+      const rejection = getBidRejection(tournament, auctionState, team, player, command.amount);
+      if (rejection) return rejection;
+
+      return [{
+        type: 'BidPlaced',
+        playerId: player.id,
+        teamId: team.id,
+        amount: command.amount,
+        ...(command.automatic && { automatic: true }),
+        timestamp,
+      }];
+    }
+
+    case 'SEALED_BID': {
+      if (!isSealedBid(tournament)) return 'WRONG_FORMAT';
+      if (!auctionState.isActive) return 'AUCTION_NOT_ACTIVE';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+      if (auctionState.highestBid) return 'BIDDING_CLOSED';
+
+      const player = getCurrentPlayer(tournament, auctionState);
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (!team) return 'UNKNOWN_TEAM';
+      if (auctionState.rebidTeamIds && !auctionState.rebidTeamIds.includes(team.id)) return 'NOT_ELIGIBLE';
+
+      // Sealed bids follow the same limits as open ones
+      if (command.amount < getMinimumSealedBid(tournament, auctionState, player)) return 'BELOW_MIN_INCREMENT';
+
+      const rejection = getBidRejection(tournament, auctionState, team, player, command.amount);
+      if (rejection) return rejection;
+
+      return [{ type: 'SealedBidSubmitted', playerId: player.id, teamId: team.id, amount: command.amount, timestamp }];
+    }
+
+    case 'REVEAL': {
+      if (!isSealedBid(tournament)) return 'WRONG_FORMAT';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+      if (auctionState.highestBid) return 'BIDDING_CLOSED';
+
+      const player = getCurrentPlayer(tournament, auctionState);
+      if (!player) return 'NO_CURRENT_PLAYER';
+
+      return [{ type: 'SealedBidsRevealed', reveal: revealSealedBids(state, player, options), timestamp }];
+    }
+
+    case 'CLAIM': {
+      if (!isDutchAuction(tournament)) return 'WRONG_FORMAT';
+      if (!auctionState.isActive) return 'AUCTION_NOT_ACTIVE';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+      if (auctionState.highestBid) return 'BIDDING_CLOSED';
+
+      const player = getCurrentPlayer(tournament, auctionState);
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (!team) return 'UNKNOWN_TEAM';
+
+      // Claims follow the same limits as bids
+      const amount = getDutchPrice(tournament, auctionState, player);
+      const rejection = getBidRejection(tournament, auctionState, team, player, amount);
+      if (rejection) return rejection;
+
+      // The first claim takes the player at the price on the clock, subject to RTM like any sale
+      const claimed: AuctionEvent = { type: 'BidPlaced', playerId: player.id, teamId: team.id, amount, timestamp };
+      const sale = decide(applyEvent(state, claimed), { type: 'SELL' }, options);
+      return typeof sale === 'string' ? [claimed] : [claimed, ...sale];
+    }
+
+    case 'PASS': {
+      const player = getCurrentPlayer(tournament, auctionState);
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (!team) return 'UNKNOWN_TEAM';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+      if (auctionState.passedTeams.includes(team.id)) return 'TEAM_PASSED';
+
+      return [{ type: 'TeamPassed', playerId: player.id, teamId: team.id, timestamp }];
+    }
+
+    case 'SELL': {
+      const player = getCurrentPlayer(tournament, auctionState);
+      const highestBid = auctionState.highestBid;
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+      if (!highestBid) return 'NO_BIDS';
+      if (!tournament.teams.some(t => t.id === highestBid.teamId)) return 'UNKNOWN_TEAM';
+
+      // Give the player's former team the chance to match before the sale goes through
+      const rtmTeam = getRtmTeam(tournament, player, highestBid.teamId, highestBid.amount);
+      if (rtmTeam) {
+        return [{
+          type: 'RtmOffered',
+          playerId: player.id,
+          teamId: rtmTeam.id,
+          winningTeamId: highestBid.teamId,
+          amount: highestBid.amount,
+          timestamp,
+        }];
+      }
+
+      return [{ type: 'PlayerSold', playerId: player.id, teamId: highestBid.teamId, amount: highestBid.amount, timestamp }];
+    }
+
+    case 'RTM_MATCH': {
+      const offer = auctionState.pendingRtm;
+      const player = offer && tournament.players.find(p => p.id === offer.playerId);
+      if (!offer) return 'NO_RTM_OFFER';
+      if (!player) return 'UNKNOWN_PLAYER';
+      if (!getRtmTeam(tournament, player, offer.winningTeamId, offer.amount)) return 'EXCEEDS_MAX_BID';
+
+      return [
+        { type: 'RtmExercised', playerId: offer.playerId, teamId: offer.teamId, amount: offer.amount, timestamp },
+        { type: 'PlayerSold', playerId: offer.playerId, teamId: offer.teamId, amount: offer.amount, timestamp },
+      ];
+    }
+
+    case 'RTM_DECLINE': {
+      const offer = auctionState.pendingRtm;
+      if (!offer) return 'NO_RTM_OFFER';
+
+      return [
+        { type: 'RtmDeclined', playerId: offer.playerId, teamId: offer.teamId, timestamp },
+        { type: 'PlayerSold', playerId: offer.playerId, teamId: offer.winningTeamId, amount: offer.amount, timestamp },
+      ];
+    }
+
+    case 'MARK_UNSOLD': {
+      const player = getCurrentPlayer(tournament, auctionState);
+      if (!player) return 'NO_CURRENT_PLAYER';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+
+      return [{ type: 'PlayerUnsold', playerId: player.id, timestamp }];
+    }
+
+    case 'ADVANCE': {
+      if (isDraft(tournament)) return 'WRONG_FORMAT';
+      if (!tournament.isAuctionStarted) return 'AUCTION_NOT_ACTIVE';
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+      if (auctionState.pendingRtm) return 'RTM_PENDING';
+
+      if (areAcceleratedNominationsOpen(tournament)) {
+        return decideAcceleratedRound(state, options, timestamp);
+      }
+
+      if (tournament.nominationQueue) {
+        const next = tournament.nominationQueue.slice(1).find(entry => {
+          const player = tournament.players.find(p => p.id === entry.playerId);
+          return player && isPlayerAvailable(tournament, player);
+        });
+        if (next) {
+          return [{ type: 'NominationAdvanced', playerId: next.playerId, teamId: next.teamId, timestamp }];
+        }
+
+        // Every nominated player has been up - carry on with any unsold rounds
+        const ended: AuctionEvent = { type: 'AcceleratedRoundEnded', timestamp };
+        return [ended, ...decideNextRound(applyEvent(state, ended), options, timestamp)];
+      }
+
+      const nextIndex = findAvailableIndex(tournament, tournament.currentPlayerIndex + 1);
+      if (nextIndex !== -1) {
+        return [{ type: 'PlayerAdvanced', playerId: tournament.players[nextIndex].id, index: nextIndex, timestamp }];
+      }
+
+      return decideNextRound(state, options, timestamp);
+    }
+
+    case 'NOMINATE_UNSOLD': {
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!team) return 'UNKNOWN_TEAM';
+      if (!areNominationsOpen(tournament)) return 'NOMINATIONS_CLOSED';
+
+      const unsoldIds = new Set(getUnsoldPlayers(tournament).map(p => p.id));
+      const playerIds = command.playerIds.filter(id => unsoldIds.has(id));
+      return [{ type: 'UnsoldPlayersNominated', teamId: team.id, playerIds, timestamp }];
+    }
+
+    case 'OPEN_ACCELERATED': {
+      if (!canStartAccelerated(tournament, auctionState)) return 'NOT_ALLOWED';
+      return [{ type: 'AcceleratedNominationsOpened', timestamp }];
+    }
+
+    case 'NOMINATE': {
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!team) return 'UNKNOWN_TEAM';
+      if (!areAcceleratedNominationsOpen(tournament)) return 'NOMINATIONS_CLOSED';
+
+      const shortlistIds = new Set(getNominationShortlist(tournament).map(p => p.id));
+      const playerIds = command.playerIds.filter(id => shortlistIds.has(id));
+      return [{ type: 'PlayersNominated', teamId: team.id, playerIds, timestamp }];
+    }
+
+    case 'DRAFT_PICK': {
+      if (!isDraft(tournament)) return 'WRONG_FORMAT';
+      if (!tournament.isAuctionStarted) return 'AUCTION_NOT_ACTIVE';
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+
+      // Only the team on the clock can pick, and only a player it has room for
+      const turn = getDraftTurn(tournament);
+      const player = tournament.players.find(p => p.id === command.playerId);
+      if (!turn || turn.team.id !== command.teamId) return 'NOT_ELIGIBLE';
+      if (!player) return 'UNKNOWN_PLAYER';
+      if (!isPlayerAvailable(tournament, player)) return 'PLAYER_UNAVAILABLE';
+      if (turn.team.players.length >= turn.team.maxPlayers) return 'SQUAD_FULL';
+      if (!canTeamAcquirePlayer(tournament, turn.team, player)) return 'SQUAD_LIMIT';
+
+      const drafted: AuctionEvent = {
+        type: 'PlayerDrafted',
+        playerId: player.id,
+        teamId: turn.team.id,
+        pick: getDraftPickCount(tournament) + 1,
+        slot: turn.slot,
+        timestamp,
+      };
+
+      // The draft is over once nobody is left to pick or nobody has room
+      if (getDraftTurn(applyEvent(state, drafted).tournament)) {
+        return [drafted];
+      }
+      return [drafted, { type: 'AuctionEnded', reason: 'exhausted', timestamp }];
+    }
+
+    case 'PAUSE': {
+      if (!tournament.isAuctionStarted) return 'AUCTION_NOT_ACTIVE';
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+      return [{ type: 'AuctionPaused', timestamp }];
+    }
+
+    case 'RESUME': {
+      if (!tournament.pause) return 'NOT_PAUSED';
+      return [{ type: 'AuctionResumed', timestamp }];
+    }
+
+    case 'TEAM_TIMEOUT': {
+      if (!tournament.isAuctionStarted) return 'AUCTION_NOT_ACTIVE';
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+
+      const team = tournament.teams.find(t => t.id === command.teamId);
+      if (!team) return 'UNKNOWN_TEAM';
+      if (getTimeoutsLeft(tournament, team) <= 0) return 'NO_TIMEOUTS_LEFT';
+
+      return [{ type: 'TeamTimeoutCalled', teamId: team.id, seconds: getTeamTimeoutSeconds(tournament), timestamp }];
+    }
+
+    case 'END': {
+      if (tournament.isAuctionCompleted) return 'AUCTION_COMPLETED';
+      return [{ type: 'AuctionEnded', reason: 'manual', timestamp }];
+    }
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Events
+// ---------------------------------------------------------------------------
+
+const clearBidding = (auctionState: AuctionState): AuctionState => ({
+  ...auctionState,
+  highestBid: undefined,
+  pendingRtm: undefined,
+  sealedBids: undefined,
+  sealedReveal: undefined,
+  rebidTeamIds: undefined,
+  dutchPrice: undefined,
+  currentBids: [],
+  passedTeams: [],
+});
+
+const freshAuctionState = (tournament: Tournament): AuctionState => ({
+  ...initialAuctionState,
+  timer: tournament.settings.timerDuration || initialAuctionState.timer,
+  isActive: true,
+});
+
+// A captain or retained player fills a slot before the auction and costs the retention price
+const retainPlayer = (state: EngineState, playerId: string, teamId: string, price: number): EngineState => {
+  const { tournament, auctionState } = state;
+  const player = tournament.players.find(p => p.id === playerId);
+  if (!player) return state;
+
+  const retainedPlayer: Player = { ...player, teamId, soldPrice: price, isRetained: true };
+
+  return {
+    tournament: {
+      ...tournament,
+      players: tournament.players.map(p => (p.id === retainedPlayer.id ? retainedPlayer : p)),
+      teams: tournament.teams.map(team =>
+        team.id === teamId
+          ? {
+              ...team,
+              players: [...team.players.filter(p => p.id !== retainedPlayer.id), retainedPlayer],
+              remainingBudget: team.remainingBudget - price,
+            }
+          : team
+      ),
+    },
+    auctionState,
+  };
+};
+
+/**
+ * Fold a single event into the state. Pure and deterministic, so replaying the same
+ * events over the same starting state always gives the same result.
+ */
+export const applyEvent = (state: EngineState, event: AuctionEvent): EngineState => {
+  const { tournament, auctionState } = state;
+
+  switch (event.type) {
+    case 'TeamsSetUp':
+      return {
+        tournament: {
+          ...tournament,
+          teams: tournament.teams.map(team => {
+            const setup = event.teams.find(t => t.teamId === team.id);
+            return setup ? { ...team, name: setup.name, rtmCards: setup.rtmCards ?? team.rtmCards } : team;
+          }),
+        },
+        auctionState,
+      };
+
+    case 'CaptainAssigned':
+      return retainPlayer(state, event.playerId, event.teamId, 0);
+
+    case 'PlayerRetained':
+      return retainPlayer(state, event.playerId, event.teamId, event.price);
+
+    case 'RetentionReleased':
+      return {
+        tournament: {
+          ...tournament,
+          players: tournament.players.map(p =>
+            p.id === event.playerId ? { ...p, teamId: undefined, soldPrice: undefined, isRetained: false } : p
+          ),
+          teams: tournament.teams.map(team =>
+            team.id === event.teamId
+              ? {
+                  ...team,
+                  players: team.players.filter(p => p.id !== event.playerId),
+                  remainingBudget: team.remainingBudget + event.price,
+                }
+              : team
+          ),
+        },
+        auctionState,
+      };
+
+    case 'AuctionStarted': {
+      const firstIndex = findAvailableIndex(tournament, 0);
+      return {
+        tournament: {
+          ...tournament,
+          isAuctionStarted: true,
+          currentPlayerIndex: firstIndex === -1 ? tournament.players.length : firstIndex,
+        },
+        auctionState: freshAuctionState(tournament),
+      };
+    }
+
+    case 'BidPlaced': {
+      const bid: Bid = {
+        teamId: event.teamId,
+        amount: event.amount,
+        timestamp: event.timestamp,
+        ...(event.automatic && { automatic: true }),
+      };
+      return {
+        tournament,
+        auctionState: {
+          ...auctionState,
+          currentBids: [...auctionState.currentBids, bid],
+          highestBid: bid,
+          timer: tournament.settings.timerDuration || initialAuctionState.timer,
+        },
+      };
+    }
+
+    case 'TeamPassed': {
+      // Passing withdraws any sealed bid the team had handed in
+      const sealedBids = auctionState.sealedBids ? { ...auctionState.sealedBids } : undefined;
+      delete sealedBids?.[event.teamId];
+
+      return {
+        tournament,
+        auctionState: {
+          ...auctionState,
+          passedTeams: [...auctionState.passedTeams, event.teamId],
+          sealedBids,
+        },
+      };
+    }
+
+    case 'SealedBidSubmitted':
+      return {
+        tournament,
+        auctionState: {
+          ...auctionState,
+          sealedBids: { ...auctionState.sealedBids, [event.teamId]: event.amount },
+        },
+      };
+
+    case 'SealedBidsRevealed': {
+      const { reveal } = event;
+      const winningBid = reveal.bids.find(bid => bid.teamId === reveal.winningTeamId);
+
+      // A winner turns into an ordinary highest bid, so selling and RTM work as usual
+      if (winningBid) {
+        const highestBid: Bid = { ...winningBid, timestamp: event.timestamp };
+        return {
+          tournament,
+          auctionState: {
+            ...auctionState,
+            currentBids: reveal.bids.map(bid => ({ ...bid, timestamp: event.timestamp })).reverse(),
+            highestBid,
+            sealedBids: undefined,
+            sealedReveal: reveal,
+            rebidTeamIds: undefined,
+          },
+        };
+      }
+
+      // No bids, or a tie going to a re-bid between the tied teams
+      return {
+        tournament,
+        auctionState: {
+          ...auctionState,
+          sealedBids: reveal.tiedTeamIds ? {} : undefined,
+          sealedReveal: reveal,
+          rebidTeamIds: reveal.tiedTeamIds,
+        },
+      };
+    }
+
+    case 'RtmOffered':
+      return {
+        tournament,
+        auctionState: {
+          ...auctionState,
+          pendingRtm: {
+            playerId: event.playerId,
+            teamId: event.teamId,
+            winningTeamId: event.winningTeamId,
+            amount: event.amount,
+          },
+        },
+      };
+
+    case 'RtmExercised':
+      // The card is spent here; the sale itself follows as a PlayerSold event
+      return {
+        tournament: {
+          ...tournament,
+          players: tournament.players.map(p => (p.id === event.playerId ? { ...p, acquiredViaRtm: true } : p)),
+          teams: tournament.teams.map(team =>
+            team.id === event.teamId ? { ...team, rtmCards: Math.max(0, (team.rtmCards || 0) - 1) } : team
+          ),
+        },
+        auctionState: { ...auctionState, pendingRtm: undefined },
+      };
+
+    case 'RtmDeclined':
+      return {
+        tournament,
+        auctionState: { ...auctionState, pendingRtm: undefined },
+      };
+
+    case 'PlayerSold': {
+      const player = tournament.players.find(p => p.id === event.playerId);
+      if (!player) return state;
+
+      const soldPlayer: Player = {
+        ...player,
+        soldPrice: event.amount,
+        teamId: event.teamId,
+        soldInRound: getAuctionRound(tournament),
+      };
+
+      return {
+        tournament: {
+          ...tournament,
+          players: tournament.players.map(p => (p.id === soldPlayer.id ? soldPlayer : p)),
+          teams: tournament.teams.map(team =>
+            team.id === event.teamId
+              ? {
+                  ...team,
+                  players: [...team.players, soldPlayer],
+                  remainingBudget: team.remainingBudget - event.amount,
+                }
+              : team
+          ),
+        },
+        auctionState: clearBidding(auctionState),
+      };
+    }
+
+    case 'PlayerUnsold':
+      return {
+        tournament: {
+          ...tournament,
+          players: tournament.players.map(p => (p.id === event.playerId ? { ...p, isUnsold: true } : p)),
+        },
+        auctionState: clearBidding(auctionState),
+      };
+
+    case 'PlayerAdvanced':
+      return {
+        tournament: { ...tournament, currentPlayerIndex: event.index },
+        auctionState: freshAuctionState(tournament),
+      };
+
+    case 'AcceleratedNominationsOpened':
+      return {
+        tournament: { ...tournament, acceleratedNominations: {} },
+        auctionState: clearBidding(auctionState),
+      };
+
+    case 'PlayersNominated':
+      return {
+        tournament: {
+          ...tournament,
+          acceleratedNominations: { ...tournament.acceleratedNominations, [event.teamId]: event.playerIds },
+        },
+        auctionState,
+      };
+
+    case 'AcceleratedRoundStarted': {
+      // Nominated players come (back) up; everyone left out counts as unsold
+      const nominated = new Set(event.queue.map(entry => entry.playerId));
+      const shortlist = new Set(getNominationShortlist(tournament).map(p => p.id));
+      const players = tournament.players.map(p => {
+        if (nominated.has(p.id)) return { ...p, isUnsold: false };
+        if (shortlist.has(p.id)) return { ...p, isUnsold: true };
+        return p;
+      });
+      const firstIndex = event.queue.length > 0 ? players.findIndex(p => p.id === event.queue[0].playerId) : -1;
+
+      return {
+        tournament: {
+          ...tournament,
+          players,
+          acceleratedNominations: undefined,
+          nominationQueue: event.queue,
+          currentPlayerIndex: firstIndex === -1 ? tournament.currentPlayerIndex : firstIndex,
+        },
+        auctionState: freshAuctionState(tournament),
+      };
+    }
+
+    case 'NominationAdvanced': {
+      const queue = tournament.nominationQueue ?? [];
+      const position = queue.findIndex(entry => entry.playerId === event.playerId);
+
+      return {
+        tournament: {
+          ...tournament,
+          nominationQueue: position === -1 ? queue : queue.slice(position),
+          currentPlayerIndex: tournament.players.findIndex(p => p.id === event.playerId),
+        },
+        auctionState: freshAuctionState(tournament),
+      };
+    }
+
+    case 'AcceleratedRoundEnded':
+      return {
+        tournament: { ...tournament, nominationQueue: undefined },
+        auctionState,
+      };
+
+    case 'UnsoldNominationsOpened':
+      return {
+        tournament: { ...tournament, unsoldNominations: {} },
+        auctionState,
+      };
+
+    case 'UnsoldPlayersNominated':
+      return {
+        tournament: {
+          ...tournament,
+          unsoldNominations: { ...tournament.unsoldNominations, [event.teamId]: event.playerIds },
+        },
+        auctionState,
+      };
+
+    case 'UnsoldRoundStarted': {
+      // Keep everyone already processed (sold players, captains) in place and queue the
+      // returning players after them in the recorded order, at this round's base price
+      const returning = new Set(event.playerIds);
+      const processed = tournament.players.filter(p => !returning.has(p.id));
+      const { minimumBid } = tournament.settings;
+      const requeued = event.playerIds
+        .map(id => tournament.players.find(p => p.id === id))
+        .filter((p): p is Player => p !== undefined)
+        .map(p => {
+          const originalBasePrice = p.originalBasePrice ?? p.basePrice ?? minimumBid;
+          const basePrice = Math.max(minimumBid, Math.round(originalBasePrice * (1 - event.basePriceReduction / 100)));
+          return { ...p, isUnsold: false, basePrice, originalBasePrice };
+        });
+
+      return {
+        tournament: {
+          ...tournament,
+          players: [...processed, ...requeued],
+          currentPlayerIndex: processed.length,
+          auctionRound: event.round,
+          unsoldNominations: undefined,
+        },
+        auctionState: freshAuctionState(tournament),
+      };
+    }
+
+    case 'PlayerDrafted': {
+      const player = tournament.players.find(p => p.id === event.playerId);
+      if (!player) return state;
+
+      // No money changes hands in a draft - the pick number is the record of the deal
+      const draftedPlayer: Player = { ...player, teamId: event.teamId, draftPick: event.pick };
+
+      return {
+        tournament: {
+          ...tournament,
+          players: tournament.players.map(p => (p.id === draftedPlayer.id ? draftedPlayer : p)),
+          teams: tournament.teams.map(team =>
+            team.id === event.teamId ? { ...team, players: [...team.players, draftedPlayer] } : team
+          ),
+          draftSlot: event.slot + 1,
+        },
+        auctionState: freshAuctionState(tournament),
+      };
+    }
+
+    case 'AuctionPaused':
+      return {
+        tournament: { ...tournament, pause: { startedAt: event.timestamp } },
+        auctionState,
+      };
+
+    case 'TeamTimeoutCalled':
+      return {
+        tournament: {
+          ...tournament,
+          pause: {
+            startedAt: event.timestamp,
+            teamId: event.teamId,
+            endsAt: new Date(new Date(event.timestamp).getTime() + event.seconds * 1000),
+          },
+          teams: tournament.teams.map(team =>
+            team.id === event.teamId ? { ...team, timeoutsUsed: (team.timeoutsUsed ?? 0) + 1 } : team
+          ),
+        },
+        auctionState,
+      };
+
+    case 'AuctionResumed':
+      return {
+        tournament: { ...tournament, pause: undefined },
+        auctionState,
+      };
+
+    case 'AuctionEnded':
+      return {
+        tournament: { ...tournament, isAuctionCompleted: true, pause: undefined },
+        auctionState: { ...auctionState, isActive: false },
+      };
+  }
+};
+
+/**
+ * Validate a command against the current state and return the resulting state plus the
+ * events it produced. Invalid commands produce no events and leave the state untouched.
+ */
+export const applyCommand = (
+  state: EngineState,
+  command: AuctionCommand,
+  options: EngineOptions = {}
+): EngineResult => {
+  const decision = decide(state, command, options);
+  if (typeof decision === 'string') {
+    return { ...state, events: [], rejection: decision };
+  }
+
+  const next = decision.reduce(applyEvent, state);
+  return { ...next, events: decision };
+};
+
+/**
+ * The player the next ADVANCE will bring up, worked out ahead of time without changing anything
+ */
+export const getNextPlayer = (state: EngineState): Player | null => {
+  const next = applyCommand(state, { type: 'ADVANCE' });
+  return getCurrentPlayer(next.tournament, next.auctionState);
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { applyCommand, initialAuctionState, type AuctionCommand, type EngineState } from './auctionEngine';
+import {
+  appendAction,
+  appendUndo,
+  emptyEventLog,
+  extendLastAction,
+  getRedoableAction,
+  getUndoableAction,
+  MAX_UNDOABLE_ACTIONS,
+  normalizeEventLog,
+  replayEventLog,
+  type AuctionEventLog,
+} from './eventLog';
+import { makeTournament, now } from '../test/fixtures';
+
+const tournament = makeTournament();
+
+// Logs each command as its own action, or as part of the previous one, the way the store does
+const log = (start: { state: EngineState; log: AuctionEventLog }, command: AuctionCommand, followUp = false) => {
+  const result = applyCommand(start.state, command, { now });
+  expect(result.rejection).toBeUndefined();
+  return {
+    state: { tournament: result.tournament, auctionState: result.auctionState },
+    log: followUp
+      ? extendLastAction(start.log, result.events)
+      : appendAction(start.log, start.state, { action: command.type, events: result.events, undoable: start.state.tournament.isAuctionStarted }),
+  };
+};
+
+const started = log({ state: { tournament, auctionState: initialAuctionState }, log: emptyEventLog }, { type: 'START' });
+const bid = log(started, { type: 'BID', teamId: 'team-1', amount: 100 });
+const sold = log(log(bid, { type: 'SELL' }), { type: 'ADVANCE' }, true);
+
+describe('undo', () => {
+  it('never removes anything from the log', () => {
+    const undone = appendUndo(sold.log, 'undo');
+
+    expect(undone.entries.slice(0, sold.log.entries.length)).toEqual(sold.log.entries);
+    expect(undone.entries[undone.entries.length - 1].type).toBe('undo');
+  });
+
+  it('takes back a sale and the move to the next player together', () => {
+    expect(replayEventLog(sold.log)).toEqual(sold.state);
+    expect(replayEventLog(appendUndo(sold.log, 'undo'))).toEqual(bid.state);
+  });
+
+  it('stops at setup steps', () => {
+    const undone = appendUndo(appendUndo(sold.log, 'undo'), 'undo');
+
+    expect(replayEventLog(undone)).toEqual(started.state);
+    expect(getUndoableAction(undone)).toBeNull();
+    expect(replayEventLog(appendUndo(undone, 'undo'))).toEqual(started.state);
+  });
+
+  it('redoes what was undone until something new happens', () => {
+    const undone = appendUndo(sold.log, 'undo');
+    expect(getRedoableAction(undone)?.action).toBe('SELL');
+    expect(replayEventLog(appendUndo(undone, 'redo'))).toEqual(sold.state);
+
+    const rebid = log({ state: bid.state, log: undone }, { type: 'BID', teamId: 'team-2', amount: 110 });
+    expect(getRedoableAction(rebid.log)).toBeNull();
+    expect(replayEventLog(rebid.log)).toEqual(rebid.state);
+  });
+});
+
+describe('history limit', () => {
+  // More bids than undo can reach, the teams taking turns
+  const bids = Array.from({ length: MAX_UNDOABLE_ACTIONS + 5 }, (_, i): AuctionCommand => ({
+    type: 'BID',
+    teamId: i % 2 === 0 ? 'team-1' : 'team-2',
+    amount: 100 + i * 10,
+  }));
+  const steps = bids.reduce((previous, command) => [...previous, log(previous[previous.length - 1], command)], [started]);
+  const latest = steps[steps.length - 1];
+
+  it('folds the oldest actions into the base without changing the state', () => {
+    expect(latest.log.entries.length).toBe(MAX_UNDOABLE_ACTIONS);
+    expect(replayEventLog(latest.log)).toEqual(latest.state);
+  });
+
+  it('stops undo at the limit', () => {
+    let undone = latest.log;
+    for (let i = 0; i < MAX_UNDOABLE_ACTIONS; i++) {
+      expect(getUndoableAction(undone)).not.toBeNull();
+      undone = appendUndo(undone, 'undo');
+    }
+
+    expect(getUndoableAction(undone)).toBeNull();
+    expect(replayEventLog(undone)).toEqual(steps[bids.length - MAX_UNDOABLE_ACTIONS].state);
+  });
+
+  it('keeps undo and redo from growing the log without end', () => {
+    let churned = latest.log;
+    for (let i = 0; i < MAX_UNDOABLE_ACTIONS * 10; i++) {
+      churned = appendUndo(churned, i % 2 === 0 ? 'undo' : 'redo');
+    }
+
+    expect(churned.entries.length).toBeLessThan(MAX_UNDOABLE_ACTIONS * 5);
+    expect(replayEventLog(churned)).toEqual(latest.state);
+    expect(replayEventLog(appendUndo(churned, 'undo'))).toEqual(steps[steps.length - 2].state);
+  });
+});
+
+describe('normalizeEventLog', () => {
+  it('keeps the events of a log saved as a flat list', () => {
+    const events = sold.log.entries.flatMap(entry => (entry.type === 'action' ? entry.events : []));
+    const normalized = normalizeEventLog({ base: sold.log.base, events });
+
+    expect(replayEventLog(normalized)).toEqual(sold.state);
+    expect(getUndoableAction(normalized)).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { applyEvent, type AuctionEvent, type EngineState } from './auctionEngine';
+
+/**
+ * One user action and everything it caused, e.g. a sale and the move to the next player,
+ * or a bid and the proxy bids that answered it
+ */
+export interface LoggedAction {
+  type: 'action';
+  action: string;
+  events: AuctionEvent[];
+  undoable: boolean; // setup steps before the auction starts can't be undone
+  timestamp: Date;
+}
+
+// Undo and redo are recorded too, rather than removing anything from the log
+export interface LoggedUndo {
+  type: 'undo' | 'redo';
+  timestamp: Date;
+}
+
+export type AuctionLogEntry = LoggedAction | LoggedUndo;
+
+/**
+ * Append-only record of everything that happened in an auction.
+ *
+ * `base` is the state the first event was applied to; folding the events of the actions
+ * still in effect over it with `replayEventLog` rebuilds the live state exactly, which is
+ * what settles disputes over who bid what and when. Undo works the same way: it adds an
+ * entry and the state is rebuilt from the log. Only actions older than undo can reach are
+ * ever taken out, folded into `base` (see `capEventLog`).
+ */
+export interface AuctionEventLog {
+  base: EngineState | null;
+  entries: AuctionLogEntry[];
+}
+
+export const emptyEventLog: AuctionEventLog = {
+  base: null,
+  entries: [],
+};
+
+// Undo reaches back this many actions; older ones are folded into the base state
+export const MAX_UNDOABLE_ACTIONS = 50;
+
+// Undo and redo entries alone can grow the log, so past this many it is written out afresh
+const MAX_LOG_ENTRIES = MAX_UNDOABLE_ACTIONS * 4;
+
+/**
+ * Record the events of a new action, capturing the starting state the first time anything is logged
+ */
+export const appendAction = (
+  log: AuctionEventLog,
+  before: EngineState,
+  action: Omit<LoggedAction, 'type' | 'timestamp'>
+): AuctionEventLog => {
+  if (action.events.length === 0) return log;
+
+  return capEventLog({
+    base: log.base ?? before,
+    entries: [...log.entries, { type: 'action', ...action, timestamp: new Date() }],
+  });
+};
+
+/**
+ * The action new events can still be added to: the last entry, unless it's an undo or redo
+ */
+export const getLastAction = (log: AuctionEventLog): LoggedAction | null => {
+  const last = log.entries[log.entries.length - 1];
+  return last?.type === 'action' ? last : null;
+};
+
+/**
+ * Add events to the last action, for follow-ups that belong to the same user action
+ */
+export const extendLastAction = (log: AuctionEventLog, events: AuctionEvent[]): AuctionEventLog => {
+  const last = getLastAction(log);
+  if (!last || events.length === 0) return log;
+
+  return {
+    ...log,
+    entries: [...log.entries.slice(0, -1), { ...last, events: [...last.events, ...events] }],
+  };
+};
+
+export const appendUndo = (log: AuctionEventLog, type: LoggedUndo['type']): AuctionEventLog => capEventLog({
+  ...log,
+  entries: [...log.entries, { type, timestamp: new Date() }],
+});
+
+// Actions in effect and actions undone, most recent last
+interface ActionStacks {
+  done: LoggedAction[];
+  undone: LoggedAction[];
+}
+
+const noActions: ActionStacks = { done: [], undone: [] };
+
+const applyEntry = (stacks: ActionStacks, entry: AuctionLogEntry): ActionStacks => {
+  if (entry.type === 'action') {
+    return { done: [...stacks.done, entry], undone: [] };
+  }
+  if (entry.type === 'undo') {
+    const action = stacks.done[stacks.done.length - 1];
+    return action?.undoable ? { done: stacks.done.slice(0, -1), undone: [...stacks.undone, action] } : stacks;
+  }
+  const action = stacks.undone[stacks.undone.length - 1];
+  return action ? { done: [...stacks.done, action], undone: stacks.undone.slice(0, -1) } : stacks;
+};
+
+/**
+ * Work out which actions are in effect and which have been undone (most recent last)
+ */
+const getActionStacks = (log: AuctionEventLog): ActionStacks => log.entries.reduce(applyEntry, noActions);
+
+/**
+ * Entries that leave the given actions undone, ready to be redone in order
+ */
+const undoneEntries = (undone: LoggedAction[]): AuctionLogEntry[] => [
+  ...[...undone].reverse(),
+  ...undone.map((): LoggedUndo => ({ type: 'undo', timestamp: new Date() })),
+];
+
+/**
+ * Keep the log to the last MAX_UNDOABLE_ACTIONS actions, the furthest undo can reach. Older
+ * actions are folded into the base state, so replaying the log still gives the same state.
+ */
+export const capEventLog = (log: AuctionEventLog): AuctionEventLog => {
+  if (!log.base) return log;
+
+  // The stacks after each entry
+  const history: ActionStacks[] = [];
+  log.entries.forEach(entry => history.push(applyEntry(history[history.length - 1] ?? noActions, entry)));
+  const { done } = history[history.length - 1] ?? noActions;
+
+  // Index in `done` of the newest action past the reach of undo
+  const lastLocked = done.length - MAX_UNDOABLE_ACTIONS - 1;
+  let capped = log;
+
+  if (lastLocked >= 0) {
+    // Cut right after that action went on the stack for the last time - nothing after the cut
+    // reaches below it, so everything up to the cut can be folded
+    let cut = 0;
+    history.forEach((stacks, index) => {
+      if (stacks.done.length <= lastLocked) cut = index + 1;
+    });
+    capped = {
+      base: replayEvents(log.base, history[cut].done.flatMap(action => action.events)),
+      entries: [...undoneEntries(history[cut].undone), ...log.entries.slice(cut + 1)],
+    };
+  }
+
+  if (capped.entries.length <= MAX_LOG_ENTRIES) return capped;
+
+  // Too many undo and redo entries: write out just the actions in effect and the ones to redo
+  const stacks = getActionStacks(capped);
+  return { base: capped.base, entries: [...stacks.done, ...undoneEntries(stacks.undone)] };
+};
+
+/**
+ * The action an undo would take back, or null when there's nothing to undo
+ */
+export const getUndoableAction = (log: AuctionEventLog): LoggedAction | null => {
+  const { done } = getActionStacks(log);
+  const action = done[done.length - 1];
+  return action?.undoable ? action : null;
+};
+
+/**
+ * The action a redo would bring back, or null when there's nothing to redo
+ */
+export const getRedoableAction = (log: AuctionEventLog): LoggedAction | null => {
+  const { undone } = getActionStacks(log);
+  return undone[undone.length - 1] ?? null;
+};
+
+/**
+ * Rebuild the auction state by applying the events in order
+ */
+export const replayEvents = (base: EngineState, events: AuctionEvent[]): EngineState => {
+  return events.reduce(applyEvent, base);
+};
+
+/**
+ * Rebuild the state a log describes, or null when nothing has been logged yet
+ */
+export const replayEventLog = (log: AuctionEventLog): EngineState | null => {
+  if (!log.base) return null;
+  return replayEvents(log.base, getActionStacks(log).done.flatMap(action => action.events));
+};
+
+/**
+ * Bring a log saved before undo was recorded in it (a flat list of events) up to date
+ */
+export const normalizeEventLog = (log?: AuctionEventLog | { base: EngineState | null; events: AuctionEvent[] }): AuctionEventLog => {
+  if (!log) return emptyEventLog;
+  if ('entries' in log) return log;
+  if (!log.base || log.events.length === 0) return { base: log.base, entries: [] };
+
+  return {
+    base: log.base,
+    entries: [{ type: 'action', action: 'EARLIER_ACTIONS', events: log.events, undoable: false, timestamp: new Date() }],
+  };
+};
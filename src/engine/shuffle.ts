@@ -0,0 +1,52 @@
+/**
+ * Reproducible randomness for the auction order.
+ *
+ * The order is derived from a seed stored on the tournament, so anyone holding the seed
+ * and the player list can rebuild exactly the same order and check it wasn't tampered with.
+ */
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * A short, human-readable seed that is easy to read out or write down
+ */
+export const generateShuffleSeed = (length: number = 8): string => {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(values, value => SEED_ALPHABET[value % SEED_ALPHABET.length]).join('');
+};
+
+/**
+ * Deterministic random number generator in [0, 1) for the given seed (cyrb53 hash + mulberry32)
+ */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const code = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+
+  let state = h1 >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Unbiased Fisher-Yates shuffle; returns a new array
+ */
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
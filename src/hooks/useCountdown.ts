@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Seconds left until a deadline (epoch ms by this machine's clock), counted down locally so
+ * the clock keeps moving between state updates. Frozen at `frozenAt` while the auction is paused.
+ */
+export const useCountdown = (deadline: number | undefined, frozenAt?: number): number | undefined => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === undefined || frozenAt !== undefined) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [deadline, frozenAt]);
+
+  if (deadline === undefined) return undefined;
+  return Math.max(0, Math.ceil((deadline - (frozenAt ?? now)) / 1000));
+};
@@ -4,12 +4,14 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
 import LiveAuctionViewer from './components/LiveAuctionViewer.tsx'
+import TeamOwnerConsole from './components/TeamOwnerConsole.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter basename={import.meta.env.BASE_URL}>
       <Routes>
         <Route path="/auction/live/:auctionId" element={<LiveAuctionViewer />} />
+        <Route path="/auction/live/:auctionId/team/:teamId" element={<TeamOwnerConsole />} />
         <Route path="/*" element={<App />} />
       </Routes>
     </BrowserRouter>
@@ -1,6 +1,15 @@
-import { ref, set, onValue, off, push, serverTimestamp, update } from 'firebase/database';
-import { database } from '../config/firebase';
+import { createSecret, createSharingTransport, type SharingTransport } from './transports';
+import { sharingRelayUrl } from '../config/sharing';
+import {
+  assembleSharedAuction,
+  diffSharedAuctionParts,
+  nestSharedAuctionParts,
+  splitSharedAuction,
+  type StoredSharedAuction,
+} from './sharedAuctionParts';
+import { removeUndefinedValues, sanitizeAuctionStateForSharing, sanitizeTournamentForSharing } from './sharedAuctionPrivacy';
 import type { Tournament, AuctionState } from '../types';
+import type { ActionResult, RejectionReason } from '../engine/auctionEngine';
 
 export interface SharedAuctionData {
   tournament: Tournament;
@@ -8,7 +17,7 @@ export interface SharedAuctionData {
   isShuffling?: boolean;
   lastUpdated: any;
   isActive: boolean;
-  createdBy: string;
+  createdBy: string; // the auctioneer's sign-in id - only they may change the auction
   createdAt: any;
 }
 
@@ -19,9 +28,31 @@ export interface AuctionViewer {
   isActive: boolean;
 }
 
+// A Bid, Pass, sealed bid or claim sent from a team owner's console, waiting for the auctioneer to apply it
+export interface RemoteBidRequest {
+  id: string;
+  teamId: string;
+  key: string; // the team's console key from its link - proves the request comes from that team
+  requestedBy: string; // sign-in id of the console, the only one that can read the request back
+  playerId: string; // the player on the owner's screen - stale requests are turned down
+  type: 'BID' | 'PASS' | 'SEALED_BID' | 'CLAIM';
+  amount?: number;
+  requestedAt: number; // time of the write by the sharing backend's clock
+  status: 'pending' | 'accepted' | 'rejected';
+  reason?: RejectionReason;
+}
+
 export class AuctionSharingService {
+  private transport: SharingTransport;
   private currentAuctionId: string | null = null;
+  private syncedParts: Map<string, string> = new Map(); // path -> JSON last written, for diffing
+  private pendingSync: Promise<void> = Promise.resolve(); // the sync in flight, so the next one diffs against its result
   private listeners: Map<string, () => void> = new Map();
+  private teamKeys: Map<string, string> = new Map(); // team id -> secret in that team's console link
+
+  constructor(transport: SharingTransport) {
+    this.transport = transport;
+  }
 
   /**
    * Share an auction and get a unique link
@@ -30,30 +61,40 @@ export class AuctionSharingService {
     try {
       console.log('Starting to share auction...');
 
+      // The host keeps its sign-in to itself; the shared data only names its id
+      const ownerId = await this.transport.signIn();
+
       // Generate unique auction ID
-      const auctionRef = push(ref(database, 'shared-auctions'));
-      const auctionId = auctionRef.key!;
+      const auctionId = this.transport.createKey('shared-auctions');
 
       console.log('Generated auction ID:', auctionId);
 
-      // Prepare auction data for sharing
-      const sharedData: SharedAuctionData = {
-        tournament: this.sanitizeTournamentForSharing(tournament),
-        auctionState: this.sanitizeAuctionStateForSharing(auctionState),
-        lastUpdated: serverTimestamp(),
+      // Prepare auction data for sharing - the player and team catalog is written once here
+      const parts = splitSharedAuction(
+        sanitizeTournamentForSharing(tournament),
+        this.shareableAuctionState(tournament, auctionState)
+      );
+      const sharedData = {
+        ...nestSharedAuctionParts(parts),
+        lastUpdated: this.transport.timestamp(),
         isActive: true,
-        createdBy: 'auction-master', // Could be enhanced with user auth
-        createdAt: serverTimestamp(),
+        createdBy: ownerId,
+        createdAt: this.transport.timestamp(),
       };
 
-      console.log('Saving auction data to Firebase...');
+      console.log(`Saving auction data via ${this.transport.kind}...`);
 
-      // Save to Firebase
-      await set(auctionRef, sharedData);
+      await this.transport.set(`shared-auctions/${auctionId}`, sharedData);
+
+      // Only the auctioneer can read the keys back; the backend checks queued requests against them
+      const teamKeys = new Map(tournament.teams.map(team => [team.id, createSecret()]));
+      await this.transport.set(`shared-auction-keys/${auctionId}`, Object.fromEntries(teamKeys));
 
       console.log('Auction shared successfully!');
 
       this.currentAuctionId = auctionId;
+      this.teamKeys = teamKeys;
+      this.syncedParts = new Map(Object.entries(parts).map(([path, value]) => [path, JSON.stringify(value)]));
       return auctionId;
     } catch (error) {
       console.error('Error sharing auction:', error);
@@ -62,20 +103,31 @@ export class AuctionSharingService {
   }
 
   /**
-   * Update shared auction with new state
+   * Update shared auction with new state, writing only the parts that changed since the last sync.
+   * Syncs run one after another - two diffed against the same synced parts could leave a
+   * change unwritten.
    */
-  async updateSharedAuction(tournament: Tournament, auctionState: AuctionState, isShuffling?: boolean): Promise<void> {
+  updateSharedAuction(tournament: Tournament, auctionState: AuctionState, isShuffling?: boolean): Promise<void> {
+    const sync = this.pendingSync.then(() => this.syncSharedAuction(tournament, auctionState, isShuffling));
+    this.pendingSync = sync.catch(() => undefined);
+    return sync;
+  }
+
+  private async syncSharedAuction(tournament: Tournament, auctionState: AuctionState, isShuffling?: boolean): Promise<void> {
     if (!this.currentAuctionId) {
       console.warn('No current auction ID, cannot update');
       return;
     }
 
     try {
-      const auctionRef = ref(database, `shared-auctions/${this.currentAuctionId}`);
+      const parts = splitSharedAuction(
+        sanitizeTournamentForSharing(tournament),
+        this.shareableAuctionState(tournament, auctionState)
+      );
+      const patch = diffSharedAuctionParts(this.syncedParts, parts);
       const updateData: any = {
-        tournament: this.sanitizeTournamentForSharing(tournament),
-        auctionState: this.sanitizeAuctionStateForSharing(auctionState),
-        lastUpdated: serverTimestamp(),
+        ...patch,
+        lastUpdated: this.transport.timestamp(),
         isActive: true,
       };
 
@@ -84,15 +136,17 @@ export class AuctionSharingService {
         updateData.isShuffling = isShuffling;
       }
 
-      console.log('Updating Firebase with data:', {
+      console.log('Updating shared auction with data:', {
         auctionId: this.currentAuctionId,
         currentPlayer: tournament.currentPlayerIndex,
         highestBid: auctionState.highestBid,
+        changedPaths: Object.keys(patch),
         isShuffling
       });
 
-      await update(auctionRef, updateData);
-      console.log('Firebase update successful');
+      await this.transport.update(`shared-auctions/${this.currentAuctionId}`, updateData);
+      this.syncedParts = new Map(Object.entries(parts).map(([path, value]) => [path, JSON.stringify(value)]));
+      console.log('Shared auction update successful');
     } catch (error) {
       console.error('Error updating shared auction:', error);
       throw error; // Re-throw to let caller handle
@@ -100,40 +154,67 @@ export class AuctionSharingService {
   }
 
   /**
-   * Subscribe to auction updates
+   * Called with how far the sharing backend's clock is ahead of this machine's
+   */
+  monitorServerTimeOffset(onChange: (offset: number) => void): () => void {
+    return this.transport.monitorServerTimeOffset(onChange);
+  }
+
+  /**
+   * The auction state as viewers get it. A viewer's clock can be off from this one, so the
+   * clock goes out as the time left on it as of a time the backend stamps, not as a deadline.
+   */
+  private shareableAuctionState(tournament: Tournament, auctionState: AuctionState): AuctionState {
+    const { timerDeadline } = auctionState;
+    const isClockRunning = timerDeadline !== undefined;
+    // A paused clock stands at the time left when the pause began
+    const readAt = tournament.pause ? new Date(tournament.pause.startedAt).getTime() : Date.now();
+
+    return sanitizeAuctionStateForSharing({
+      ...auctionState,
+      timerDeadline: undefined,
+      timerRemainingMs: isClockRunning ? Math.max(0, timerDeadline - readAt) : undefined,
+      timerSyncedAt: isClockRunning ? this.transport.timestamp() as number : undefined,
+    }, tournament);
+  }
+
+  /**
+   * Subscribe to auction updates, put back together from the stored catalog and live parts
    */
   subscribeToAuction(
     auctionId: string,
     onUpdate: (data: SharedAuctionData) => void,
     onError?: (error: Error) => void
   ): () => void {
-    const auctionRef = ref(database, `shared-auctions/${auctionId}`);
-
-    const unsubscribe = () => {
-      off(auctionRef);
-      this.listeners.delete(auctionId);
-    };
-
-    console.log('Setting up Firebase listener for auction:', auctionId);
-
-    onValue(
-      auctionRef,
-      (snapshot: any) => {
-        const data = snapshot.val();
-        console.log('Firebase data received:', data ? 'Data available' : 'No data');
-        if (data) {
-          onUpdate(data as SharedAuctionData);
+    console.log(`Setting up ${this.transport.kind} listener for auction:`, auctionId);
+
+    const unsubscribeFromTransport = this.transport.subscribe(
+      `shared-auctions/${auctionId}`,
+      (value) => {
+        const data = value as (StoredSharedAuction & Partial<SharedAuctionData>) | null;
+        console.log('Shared auction data received:', data ? 'Data available' : 'No data');
+        const assembled = data ? assembleSharedAuction(data) : null;
+        // Links shared before the split still hold the whole tournament
+        if (data && (assembled || data.tournament)) {
+          onUpdate({ ...data, ...assembled } as SharedAuctionData);
+        } else if (data && data.isActive === false) {
+          onError?.(new Error('Auction has ended'));
         } else {
           console.warn('No auction data found');
           onError?.(new Error('Auction not found'));
         }
       },
-      (error: any) => {
+      (error) => {
         console.error('Error subscribing to auction:', error);
         onError?.(new Error('Failed to connect to auction'));
       }
     );
 
+    const unsubscribe = () => {
+      unsubscribeFromTransport();
+      this.listeners.delete(auctionId);
+    };
+
     this.listeners.set(auctionId, unsubscribe);
     return unsubscribe;
   }
@@ -143,17 +224,17 @@ export class AuctionSharingService {
    */
   async joinAsViewer(auctionId: string, viewerName: string): Promise<string> {
     try {
-      const viewerRef = push(ref(database, `shared-auctions/${auctionId}/viewers`));
-      const viewerId = viewerRef.key!;
+      // Viewers may only register themselves, under their own sign-in id
+      const viewerId = await this.transport.signIn();
 
       const viewerData: AuctionViewer = {
         id: viewerId,
         name: viewerName,
-        joinedAt: serverTimestamp(),
+        joinedAt: this.transport.timestamp(),
         isActive: true,
       };
 
-      await set(viewerRef, viewerData);
+      await this.transport.set(`shared-auctions/${auctionId}/viewers/${viewerId}`, viewerData);
       return viewerId;
     } catch (error) {
       console.error('Error joining auction:', error);
@@ -161,6 +242,87 @@ export class AuctionSharingService {
     }
   }
 
+  /**
+   * Send a Bid or Pass from a team owner's console to the auctioneer's queue. Requests live
+   * outside the shared auction so viewers can't read the team keys in them.
+   */
+  async submitBidRequest(
+    auctionId: string,
+    request: Pick<RemoteBidRequest, 'teamId' | 'key' | 'playerId' | 'type' | 'amount'>
+  ): Promise<string> {
+    try {
+      const requestedBy = await this.transport.signIn();
+      const requestId = this.transport.createKey(`shared-auction-bids/${auctionId}`);
+
+      await this.transport.set(`shared-auction-bids/${auctionId}/${requestId}`, removeUndefinedValues({
+        ...request,
+        id: requestId,
+        requestedBy,
+        requestedAt: this.transport.timestamp(),
+        status: 'pending',
+      }));
+      return requestId;
+    } catch (error) {
+      console.error('Error sending bid request:', error);
+      throw new Error('Failed to send bid request');
+    }
+  }
+
+  /**
+   * Subscribe to the bid queue, oldest request first. Only the auctioneer can read it.
+   */
+  subscribeToBidRequests(
+    auctionId: string,
+    onUpdate: (requests: RemoteBidRequest[]) => void
+  ): () => void {
+    return this.transport.subscribe(
+      `shared-auction-bids/${auctionId}`,
+      (requests) => {
+        onUpdate(requests ? Object.values(requests) as RemoteBidRequest[] : []);
+      },
+      (error) => {
+        console.error('Error subscribing to bid requests:', error);
+      }
+    );
+  }
+
+  /**
+   * Follow one request from the console that sent it
+   */
+  subscribeToBidRequest(
+    auctionId: string,
+    requestId: string,
+    onUpdate: (request: RemoteBidRequest | null) => void
+  ): () => void {
+    return this.transport.subscribe(
+      `shared-auction-bids/${auctionId}/${requestId}`,
+      (request) => {
+        onUpdate(request as RemoteBidRequest | null);
+      },
+      (error) => {
+        console.error('Error subscribing to bid request:', error);
+      }
+    );
+  }
+
+  /**
+   * Whether a queued request carries the key from its team's console link
+   */
+  isTeamKeyValid(teamId: string, key: string | undefined): boolean {
+    return !!key && this.teamKeys.get(teamId) === key;
+  }
+
+  /**
+   * Record whether the auctioneer applied a queued request, and why not if it was turned down
+   */
+  async resolveBidRequest(auctionId: string, requestId: string, result: ActionResult): Promise<void> {
+    try {
+      await this.transport.update(`shared-auction-bids/${auctionId}/${requestId}`, result.ok ? { status: 'accepted' } : { status: 'rejected', reason: result.reason });
+    } catch (error) {
+      console.error('Error resolving bid request:', error);
+    }
+  }
+
   /**
    * Subscribe to viewer count updates
    */
@@ -168,16 +330,9 @@ export class AuctionSharingService {
     auctionId: string,
     onUpdate: (count: number) => void
   ): () => void {
-    const viewersRef = ref(database, `shared-auctions/${auctionId}/viewers`);
-
-    const unsubscribe = () => {
-      off(viewersRef);
-    };
-
-    onValue(
-      viewersRef,
-      (snapshot: any) => {
-        const viewers = snapshot.val();
+    return this.transport.subscribe(
+      `shared-auctions/${auctionId}/viewers`,
+      (viewers) => {
         if (viewers) {
           // Count active viewers
           const activeViewers = Object.values(viewers).filter(
@@ -188,13 +343,11 @@ export class AuctionSharingService {
           onUpdate(0);
         }
       },
-      (error: any) => {
+      (error) => {
         console.error('Error subscribing to viewers:', error);
         onUpdate(0);
       }
     );
-
-    return unsubscribe;
   }
 
   /**
@@ -204,10 +357,12 @@ export class AuctionSharingService {
     if (!this.currentAuctionId) return;
 
     try {
-      const auctionRef = ref(database, `shared-auctions/${this.currentAuctionId}`);
-      await set(auctionRef, {
+      // The console links stop working once the auction is over
+      await this.transport.set(`shared-auction-keys/${this.currentAuctionId}`, null);
+      await this.transport.set(`shared-auctions/${this.currentAuctionId}`, {
         isActive: false,
-        endedAt: serverTimestamp(),
+        createdBy: await this.transport.signIn(),
+        endedAt: this.transport.timestamp(),
       });
     } catch (error) {
       console.error('Error ending shared auction:', error);
@@ -221,6 +376,8 @@ export class AuctionSharingService {
     this.listeners.forEach((unsubscribe) => unsubscribe());
     this.listeners.clear();
     this.currentAuctionId = null;
+    this.syncedParts.clear();
+    this.teamKeys.clear();
   }
 
   /**
@@ -230,65 +387,34 @@ export class AuctionSharingService {
     const baseUrl = window.location.origin;
     const basePath = import.meta.env.BASE_URL || '/';
     const cleanBasePath = basePath.endsWith('/') ? basePath.slice(0, -1) : basePath;
-    return `${baseUrl}${cleanBasePath}/auction/live/${auctionId}`;
-  }
-
-  /**
-   * Sanitize tournament data for sharing (remove sensitive info)
-   */
-  private sanitizeTournamentForSharing(tournament: Tournament): Tournament {
-    // Remove any sensitive data or large unnecessary fields and handle undefined values
-    return this.removeUndefinedValues({
-      ...tournament,
-      teams: tournament.teams.map(team => ({
-        ...team,
-        players: team.players.map(player => ({
-          ...player,
-          rating: player.rating ?? null, // Convert undefined to null
-          imageUrl: player.imageUrl ?? null, // Convert undefined to null to preserve property
-        }))
-      })),
-      players: tournament.players.map(player => ({
-        ...player,
-        rating: player.rating ?? null, // Convert undefined to null
-        imageUrl: player.imageUrl ?? null, // Convert undefined to null to preserve property
-      }))
-    }) as Tournament;
+    return `${baseUrl}${cleanBasePath}/auction/live/${auctionId}${this.getTransportQuery()}`;
   }
 
   /**
-   * Sanitize auction state for sharing
+   * Generate a team owner's console URL. The team's key in the link is what lets the console
+   * bid for that team, so the link should only go to the team's owner.
    */
-  private sanitizeAuctionStateForSharing(auctionState: AuctionState): AuctionState {
-    return this.removeUndefinedValues({
-      ...auctionState,
-      // Keep all auction state for now, could optimize later
-    }) as AuctionState;
+  generateTeamConsoleUrl(auctionId: string, teamId: string): string {
+    const baseUrl = window.location.origin;
+    const basePath = import.meta.env.BASE_URL || '/';
+    const cleanBasePath = basePath.endsWith('/') ? basePath.slice(0, -1) : basePath;
+    const query = this.getTransportQuery();
+    const key = `key=${encodeURIComponent(this.teamKeys.get(teamId) ?? '')}`;
+    return `${baseUrl}${cleanBasePath}/auction/live/${auctionId}/team/${teamId}${query ? `${query}&${key}` : `?${key}`}`;
   }
 
   /**
-   * Recursively remove undefined values from an object
+   * Query string that points shared links at the same transport (Firebase is the default)
    */
-  private removeUndefinedValues(obj: any): any {
-    if (obj === null || obj === undefined) {
-      return null;
+  private getTransportQuery(): string {
+    switch (this.transport.kind) {
+      case 'firebase':
+        return '';
+      case 'websocket':
+        return `?transport=websocket&relay=${encodeURIComponent(sharingRelayUrl)}`;
+      case 'broadcast':
+        return '?transport=broadcast';
     }
-
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.removeUndefinedValues(item));
-    }
-
-    if (typeof obj === 'object') {
-      const cleaned: any = {};
-      for (const [key, value] of Object.entries(obj)) {
-        if (value !== undefined) {
-          cleaned[key] = this.removeUndefinedValues(value);
-        }
-      }
-      return cleaned;
-    }
-
-    return obj;
   }
 
   /**
@@ -296,14 +422,9 @@ export class AuctionSharingService {
    */
   async checkAuctionExists(auctionId: string): Promise<boolean> {
     try {
-      const auctionRef = ref(database, `shared-auctions/${auctionId}`);
-      return new Promise((resolve) => {
-        onValue(auctionRef, (snapshot: any) => {
-          const exists = snapshot.exists();
-          console.log('Auction exists check:', auctionId, exists);
-          resolve(exists);
-        }, { onlyOnce: true });
-      });
+      const exists = await this.transport.get(`shared-auctions/${auctionId}`) !== null;
+      console.log('Auction exists check:', auctionId, exists);
+      return exists;
     } catch (error) {
       console.error('Error checking auction:', error);
       return false;
@@ -311,24 +432,15 @@ export class AuctionSharingService {
   }
 
   /**
-   * Monitor Firebase connection status
+   * Monitor connection status of the sharing transport
    */
   monitorConnection(onConnectionChange: (connected: boolean) => void): () => void {
-    const connectedRef = ref(database, '.info/connected');
-
-    const unsubscribe = () => {
-      off(connectedRef);
-    };
-
-    onValue(connectedRef, (snapshot) => {
-      const connected = snapshot.val() === true;
-      console.log('Firebase connection status:', connected);
+    return this.transport.monitorConnection((connected) => {
+      console.log(`${this.transport.kind} connection status:`, connected);
       onConnectionChange(connected);
     });
-
-    return unsubscribe;
   }
 }
 
 // Export singleton instance
-export const auctionSharingService = new AuctionSharingService();
+export const auctionSharingService = new AuctionSharingService(createSharingTransport());
@@ -0,0 +1,148 @@
+import type { Tournament, AuctionState, Player, Team } from '../types';
+
+// A shared auction is stored in two halves so that syncs stay small:
+//
+//   catalog/players/{id}, catalog/teams/{id}   written once, rewritten only if they change
+//   live/players/{id}, live/teams/{id}         sale status, purses and squads
+//   live/playerOrder, live/teamOrder           ids in order (stored keys come back sorted)
+//   live/tournament, live/auctionState         everything else
+//
+// Parts are flattened to { path: value } so a sync can patch only the paths that changed.
+export type SharedAuctionParts = Record<string, unknown>;
+
+// Player fields that don't change during the auction
+const PLAYER_CATALOG_FIELDS: (keyof Player)[] = [
+  'id', 'name', 'role', 'rating', 'imageUrl', 'isCaptain', 'isOverseas', 'country', 'previousTeam', 'retainedBy', 'set',
+];
+
+const TEAM_CATALOG_FIELDS: (keyof Team)[] = [
+  'id', 'name', 'budget', 'maxPlayers', 'maxForeignPlayers', 'logo', 'primaryColor', 'secondaryColor',
+];
+
+const pick = <T extends object>(source: T, fields: (keyof T)[], keep: boolean): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(source).filter(([key]) => fields.includes(key as keyof T) === keep)
+  ) as Partial<T>;
+};
+
+/**
+ * Split a sanitized tournament and auction state into the paths they are stored at
+ */
+export const splitSharedAuction = (tournament: Tournament, auctionState: AuctionState): SharedAuctionParts => {
+  const { players, teams, ...rest } = tournament;
+  const parts: SharedAuctionParts = {
+    'live/tournament': rest,
+    'live/auctionState': auctionState,
+    'live/playerOrder': players.map(p => p.id),
+    'live/teamOrder': teams.map(t => t.id),
+  };
+
+  // Squads can hold players the pool doesn't, so catalog both
+  const allPlayers = [...players, ...teams.flatMap(team => team.players)];
+  allPlayers.forEach(player => {
+    parts[`catalog/players/${player.id}`] ??= pick(player, PLAYER_CATALOG_FIELDS, true);
+    parts[`live/players/${player.id}`] ??= pick(player, PLAYER_CATALOG_FIELDS, false);
+  });
+
+  teams.forEach(team => {
+    parts[`catalog/teams/${team.id}`] = pick(team, TEAM_CATALOG_FIELDS, true);
+    parts[`live/teams/${team.id}`] = {
+      ...pick(team, [...TEAM_CATALOG_FIELDS, 'players'], false),
+      playerIds: team.players.map(p => p.id),
+    };
+  });
+
+  return parts;
+};
+
+/**
+ * Nest flattened parts into the object stored under the auction
+ */
+export const nestSharedAuctionParts = (parts: SharedAuctionParts): Record<string, unknown> => {
+  const root: Record<string, unknown> = {};
+  Object.entries(parts).forEach(([path, value]) => {
+    const segments = path.split('/');
+    let node = root;
+    segments.slice(0, -1).forEach(segment => {
+      node[segment] ??= {};
+      node = node[segment] as Record<string, unknown>;
+    });
+    node[segments[segments.length - 1]] = value;
+  });
+  return root;
+};
+
+/**
+ * Paths whose value differs from the last sync, with null for paths that are gone
+ */
+export const diffSharedAuctionParts = (
+  previous: Map<string, string>,
+  parts: SharedAuctionParts
+): Record<string, unknown> => {
+  const patch: Record<string, unknown> = {};
+  Object.entries(parts).forEach(([path, value]) => {
+    if (previous.get(path) !== JSON.stringify(value)) {
+      patch[path] = value;
+    }
+  });
+  previous.forEach((_, path) => {
+    if (!(path in parts)) {
+      patch[path] = null;
+    }
+  });
+  return patch;
+};
+
+// What is stored under shared-auctions/{id}, apart from the sharing metadata
+export interface StoredSharedAuction {
+  catalog?: {
+    players?: Record<string, Partial<Player>>;
+    teams?: Record<string, Partial<Team>>;
+  };
+  live?: {
+    players?: Record<string, Partial<Player>>;
+    teams?: Record<string, Partial<Team> & { playerIds?: string[] }>;
+    playerOrder?: string[];
+    teamOrder?: string[];
+    tournament?: Omit<Tournament, 'players' | 'teams'>;
+    auctionState?: AuctionState;
+  };
+}
+
+/**
+ * Put the tournament and auction state back together from what is stored. Empty arrays
+ * don't survive the round trip through Firebase, so they are filled back in here.
+ */
+export const assembleSharedAuction = (stored: StoredSharedAuction): { tournament: Tournament; auctionState: AuctionState } | null => {
+  const { catalog, live } = stored;
+  if (!live?.tournament || !live.auctionState) return null;
+
+  const getPlayer = (id: string): Player => ({
+    ...catalog?.players?.[id],
+    ...live.players?.[id],
+    id,
+  } as Player);
+
+  const teams = (live.teamOrder ?? []).map(id => {
+    const { playerIds, ...liveTeam } = live.teams?.[id] ?? {};
+    return {
+      ...catalog?.teams?.[id],
+      ...liveTeam,
+      id,
+      players: (playerIds ?? []).map(getPlayer),
+    } as Team;
+  });
+
+  return {
+    tournament: {
+      ...live.tournament,
+      players: (live.playerOrder ?? []).map(getPlayer),
+      teams,
+    },
+    auctionState: {
+      ...live.auctionState,
+      currentBids: live.auctionState.currentBids ?? [],
+      passedTeams: live.auctionState.passedTeams ?? [],
+    },
+  };
+};
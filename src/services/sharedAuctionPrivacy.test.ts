@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { AuctionState, Player, Tournament, TournamentSettings } from '../types';
+import { initialAuctionState } from '../engine/auctionEngine';
+import { sanitizeAuctionStateForSharing, sanitizeTournamentForSharing } from './sharedAuctionPrivacy';
+import { splitSharedAuction, type SharedAuctionParts } from './sharedAuctionParts';
+import { makePlayer, makeTeam, makeTournament } from '../test/fixtures';
+
+// Partway through the first unsold round: Zed and Ben went unsold in the main round and were
+// requeued after the sold players at a reduced base price, and Zed is up again
+const makeUnsoldRoundTournament = (settings: Partial<TournamentSettings> = {}): Tournament => {
+  const aaron = makePlayer('a', { name: 'Aaron', basePrice: 200, teamId: 'team-1', soldPrice: 450, soldInRound: 0 });
+  const carl = makePlayer('c', { name: 'Carl', basePrice: 200, teamId: 'team-2', soldPrice: 350, soldInRound: 0 });
+
+  return makeTournament({
+    teams: [
+      makeTeam('team-1', { remainingBudget: 550, players: [aaron] }),
+      makeTeam('team-2', { remainingBudget: 650, players: [carl] }),
+    ],
+    players: [
+      aaron,
+      carl,
+      makePlayer('z', { name: 'Zed', basePrice: 150, originalBasePrice: 200 }),
+      makePlayer('b', { name: 'Ben', basePrice: 150, originalBasePrice: 200 }),
+    ],
+    currentPlayerIndex: 2,
+    isAuctionStarted: true,
+    auctionRound: 1,
+    settings: { enableUnsoldPlayerReturn: true, unsoldPlayerReturnRound: 1, ...settings },
+  });
+};
+
+const auctionState: AuctionState = {
+  ...initialAuctionState,
+  currentBids: [{ teamId: 'team-1', amount: 170, timestamp: new Date('2025-01-01T10:00:00Z') }],
+  highestBid: { teamId: 'team-1', amount: 170, timestamp: new Date('2025-01-01T10:00:00Z') },
+};
+
+// What goes up to the sharing backend for this tournament
+const share = (tournament: Tournament): SharedAuctionParts => splitSharedAuction(
+  sanitizeTournamentForSharing(tournament),
+  sanitizeAuctionStateForSharing(auctionState, tournament)
+);
+
+// Every field name in the uploaded parts, at any depth
+const uploadedFields = (parts: SharedAuctionParts): Set<string> => {
+  const fields = new Set<string>();
+  const collect = (value: unknown) => {
+    if (value === null || typeof value !== 'object') return;
+    Object.entries(value).forEach(([key, child]) => {
+      if (!Array.isArray(value)) fields.add(key);
+      collect(child);
+    });
+  };
+  Object.values(parts).forEach(collect);
+  return fields;
+};
+
+describe('sharing with unsold status hidden', () => {
+  const tournament = makeUnsoldRoundTournament({ hideUnsoldStatusInLiveView: true });
+  const parts = share(tournament);
+
+  it('leaves out every field that tells who went unsold', () => {
+    const fields = uploadedFields(parts);
+    ['isUnsold', 'soldInRound', 'originalBasePrice', 'auctionRound', 'unsoldNominations', 'acceleratedNominations'].forEach(field => {
+      expect(fields).not.toContain(field);
+    });
+  });
+
+  it('uploads the players in an order that does not give away the requeued ones', () => {
+    expect(parts['live/playerOrder']).toEqual(['a', 'b', 'c', 'z']);
+  });
+
+  it('keeps pointing at the player up for auction', () => {
+    const { currentPlayerIndex } = parts['live/tournament'] as Tournament;
+    expect((parts['live/playerOrder'] as string[])[currentPlayerIndex]).toBe('z');
+  });
+
+  it('uploads the requeued players at their original base price', () => {
+    expect((parts['live/players/z'] as Player).basePrice).toBe(200);
+    expect((parts['live/players/b'] as Player).basePrice).toBe(200);
+  });
+
+  it('only says the hammer fell when the player was sold', () => {
+    const shareClose = (playerId: string) => sanitizeAuctionStateForSharing({ ...auctionState, hammerFellOn: playerId }, tournament);
+    expect(shareClose('z').hammerFellOn).toBeUndefined();
+    expect(shareClose('a').hammerFellOn).toBe('a');
+  });
+});
+
+describe('sharing with prices hidden', () => {
+  it('leaves out every price and bid amount', () => {
+    const fields = uploadedFields(share(makeUnsoldRoundTournament({ hidePricesInLiveView: true })));
+    ['soldPrice', 'basePrice', 'originalBasePrice', 'retentionPrice', 'budget', 'remainingBudget', 'teamBudget', 'amount'].forEach(field => {
+      expect(fields).not.toContain(field);
+    });
+  });
+});
+
+describe('sharing with nothing hidden', () => {
+  it('uploads the players in auction order', () => {
+    const parts = share(makeUnsoldRoundTournament());
+    expect(parts['live/playerOrder']).toEqual(['a', 'c', 'z', 'b']);
+    expect((parts['live/tournament'] as Tournament).currentPlayerIndex).toBe(2);
+  });
+});
+
+describe('sharing sealed bids', () => {
+  it.each([false, true])('only says who has bid, never how much (prices hidden: %s)', (hidePricesInLiveView) => {
+    const tournament = makeUnsoldRoundTournament({ auctionFormat: 'sealed', hidePricesInLiveView });
+    const sealedState: AuctionState = { ...initialAuctionState, sealedBids: { 'team-1': 480, 'team-2': 515 } };
+    const parts = splitSharedAuction(
+      sanitizeTournamentForSharing(tournament),
+      sanitizeAuctionStateForSharing(sealedState, tournament)
+    );
+
+    expect((parts['live/auctionState'] as AuctionState).sealedBids).toEqual({ 'team-1': 0, 'team-2': 0 });
+    expect(JSON.stringify(parts)).not.toMatch(/480|515/);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Tournament, AuctionState, Player } from '../types';
+
+// What the tournament hides from live viewers is left out of the upload altogether, so it
+// can't be read off the network either.
+
+// Fields left out of the upload when the tournament hides prices from live viewers
+const PRICE_FIELDS = ['soldPrice', 'basePrice', 'originalBasePrice', 'retentionPrice', 'budget', 'remainingBudget', 'teamBudget', 'amount'];
+
+// Fields that tell who went unsold: the flag itself, the unsold rounds, the nominations for
+// them, and the base price from before an unsold-round reduction
+const UNSOLD_FIELDS = ['isUnsold', 'soldInRound', 'originalBasePrice', 'auctionRound', 'unsoldNominations', 'acceleratedNominations'];
+
+const withoutFields = <T extends object>(value: T, fields: string[]): T => {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !fields.includes(key))) as T;
+};
+
+/**
+ * Recursively remove undefined values from an object
+ */
+export const removeUndefinedValues = (obj: unknown): unknown => {
+  if (obj === null || obj === undefined) {
+    return null;
+  }
+
+  if (obj instanceof Date) {
+    return obj.toISOString();
+  }
+
+  if (Array.isArray(obj)) {
+    return obj.map(item => removeUndefinedValues(item));
+  }
+
+  if (typeof obj === 'object') {
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(obj)) {
+      if (value !== undefined) {
+        cleaned[key] = removeUndefinedValues(value);
+      }
+    }
+    return cleaned;
+  }
+
+  return obj;
+};
+
+/**
+ * Players in an order that says nothing about who went unsold - unsold rounds requeue the
+ * returning players at the end. Sorted by set, then name.
+ */
+const sortPlayersNeutrally = (players: Player[], setOrder: string[] = []): Player[] => {
+  const setRank = (player: Player) => {
+    const rank = player.set ? setOrder.indexOf(player.set) : -1;
+    return rank === -1 ? setOrder.length : rank;
+  };
+
+  return [...players].sort((a, b) =>
+    setRank(a) - setRank(b) || a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+  );
+};
+
+/**
+ * Sanitize tournament data for sharing (remove sensitive info and the prices and unsold
+ * status the tournament hides from live viewers)
+ */
+export const sanitizeTournamentForSharing = (tournament: Tournament): Tournament => {
+  const { hidePricesInLiveView, hideUnsoldStatusInLiveView } = tournament.settings;
+  const hiddenFields = [
+    ...(hidePricesInLiveView ? PRICE_FIELDS : []),
+    ...(hideUnsoldStatusInLiveView ? UNSOLD_FIELDS : []),
+  ];
+
+  const sanitizePlayer = (player: Player) => withoutFields({
+    ...player,
+    // A requeued player's reduced base price would give them away too
+    basePrice: hideUnsoldStatusInLiveView ? player.originalBasePrice ?? player.basePrice : player.basePrice,
+    rating: player.rating ?? null, // Convert undefined to null
+    imageUrl: player.imageUrl ?? null, // Convert undefined to null to preserve property
+  }, hiddenFields);
+
+  const currentPlayer = tournament.players[tournament.currentPlayerIndex];
+  const players = hideUnsoldStatusInLiveView
+    ? sortPlayersNeutrally(tournament.players, tournament.settings.setOrder)
+    : tournament.players;
+
+  // Remove any sensitive data or large unnecessary fields and handle undefined values
+  return removeUndefinedValues(withoutFields({
+    ...tournament,
+    teams: tournament.teams.map(team => withoutFields({
+      ...team,
+      players: team.players.map(sanitizePlayer),
+    }, hiddenFields)),
+    players: players.map(sanitizePlayer),
+    // Keep pointing at the same player in the new order
+    currentPlayerIndex: currentPlayer ? players.indexOf(currentPlayer) : tournament.currentPlayerIndex,
+    // The players still to come back in an accelerated round are the unsold ones
+    nominationQueue: hideUnsoldStatusInLiveView
+      ? tournament.nominationQueue?.filter(entry => entry.playerId === currentPlayer?.id)
+      : tournament.nominationQueue,
+  }, hiddenFields)) as Tournament;
+};
+
+/**
+ * Sanitize auction state for sharing. Sealed bids only say who has bid, never how much,
+ * bid amounts are left out when the tournament hides prices, and a close that left the
+ * player unsold isn't announced when the tournament hides unsold status.
+ */
+export const sanitizeAuctionStateForSharing = (auctionState: AuctionState, tournament: Tournament): AuctionState => {
+  const { settings } = tournament;
+  const sealedBids = auctionState.sealedBids
+    ? Object.fromEntries(Object.keys(auctionState.sealedBids).map(teamId => [teamId, 0]))
+    : undefined;
+  const closedPlayer = tournament.players.find(player => player.id === auctionState.hammerFellOn);
+  const hammerFellOn = settings.hideUnsoldStatusInLiveView && !closedPlayer?.teamId
+    ? undefined
+    : auctionState.hammerFellOn;
+
+  if (!settings.hidePricesInLiveView) {
+    return removeUndefinedValues({ ...auctionState, sealedBids, hammerFellOn }) as AuctionState;
+  }
+
+  const { highestBid, currentBids, pendingRtm, sealedReveal } = auctionState;
+  return removeUndefinedValues({
+    ...auctionState,
+    sealedBids,
+    hammerFellOn,
+    highestBid: highestBid && withoutFields(highestBid, PRICE_FIELDS),
+    currentBids: currentBids.map(bid => withoutFields(bid, PRICE_FIELDS)),
+    pendingRtm: pendingRtm && withoutFields(pendingRtm, PRICE_FIELDS),
+    sealedReveal: sealedReveal && {
+      ...sealedReveal,
+      bids: sealedReveal.bids.map(bid => withoutFields(bid, PRICE_FIELDS)),
+    },
+    dutchPrice: undefined,
+  }) as AuctionState;
+};
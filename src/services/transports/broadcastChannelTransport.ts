@@ -0,0 +1,128 @@
+import { PathTree, createTimeOrderedKey, pathsOverlap } from './pathTree';
+import type { SharingTransport } from './types';
+
+type ChannelMessage =
+  | { type: 'set'; path: string; value: unknown }
+  | { type: 'update'; path: string; values: Record<string, unknown> }
+  | { type: 'sync-request' }
+  | { type: 'sync'; data: unknown };
+
+interface Subscription {
+  path: string;
+  onChange: (value: unknown) => void;
+}
+
+// How long a new tab waits for another tab to send it the shared data
+const SYNC_TIMEOUT_MS = 300;
+
+/**
+ * Same-machine sharing between tabs and windows, e.g. a second screen or a projector.
+ * Every tab keeps a copy of the shared data; a new tab asks the others for theirs.
+ */
+export class BroadcastChannelTransport implements SharingTransport {
+  readonly kind = 'broadcast';
+  private channel: BroadcastChannel;
+  private tree = new PathTree();
+  private subscriptions = new Set<Subscription>();
+  private clientId = createTimeOrderedKey();
+  private ready: Promise<void>;
+
+  constructor(channelName = 'player-auction-sharing') {
+    this.channel = new BroadcastChannel(channelName);
+
+    let markReady = () => {};
+    this.ready = new Promise(resolve => {
+      markReady = resolve;
+      setTimeout(resolve, SYNC_TIMEOUT_MS);
+    });
+
+    this.channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'set':
+          this.tree.set(message.path, message.value);
+          this.notify(message.path);
+          break;
+        case 'update':
+          this.tree.update(message.path, message.values);
+          this.notify(message.path);
+          break;
+        case 'sync-request':
+          if (this.tree.get('') !== null) {
+            this.channel.postMessage({ type: 'sync', data: this.tree.get('') });
+          }
+          break;
+        case 'sync':
+          if (this.tree.get('') === null) {
+            this.tree.set('', message.data);
+            this.notify('');
+          }
+          markReady();
+          break;
+      }
+    };
+    this.channel.postMessage({ type: 'sync-request' });
+  }
+
+  createKey(): string {
+    return createTimeOrderedKey();
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    this.tree.set(path, value);
+    this.channel.postMessage({ type: 'set', path, value: this.tree.get(path) });
+    this.notify(path);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    this.tree.update(path, values);
+    this.channel.postMessage({ type: 'update', path, values: JSON.parse(JSON.stringify(values)) });
+    this.notify(path);
+  }
+
+  async get(path: string): Promise<unknown> {
+    await this.ready;
+    return this.tree.get(path);
+  }
+
+  subscribe(path: string, onChange: (value: unknown) => void): () => void {
+    const subscription = { path, onChange };
+    this.subscriptions.add(subscription);
+    this.ready.then(() => {
+      if (this.subscriptions.has(subscription)) onChange(this.tree.get(path));
+    });
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  }
+
+  monitorConnection(onChange: (connected: boolean) => void): () => void {
+    // Nothing to lose a connection to
+    onChange(true);
+    return () => {};
+  }
+
+  monitorServerTimeOffset(onChange: (offset: number) => void): () => void {
+    // Every tab reads the same clock
+    onChange(0);
+    return () => {};
+  }
+
+  async signIn(): Promise<string> {
+    // Every tab is on the same machine, so there is no one to keep out
+    return this.clientId;
+  }
+
+  timestamp(): unknown {
+    // No server clock to ask - every tab reads the same local one
+    return Date.now();
+  }
+
+  private notify(changedPath: string): void {
+    this.subscriptions.forEach(subscription => {
+      if (pathsOverlap(subscription.path, changedPath)) {
+        subscription.onChange(this.tree.get(subscription.path));
+      }
+    });
+  }
+}
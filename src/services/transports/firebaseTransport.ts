@@ -0,0 +1,52 @@
+import { ref, set, get, onValue, off, push, serverTimestamp, update } from 'firebase/database';
+import { signInAnonymously } from 'firebase/auth';
+import { auth, database } from '../../config/firebase';
+import type { SharingTransport } from './types';
+
+/**
+ * The hosted Firebase Realtime Database configured in src/config/firebase.ts
+ */
+export class FirebaseTransport implements SharingTransport {
+  readonly kind = 'firebase';
+
+  createKey(path: string): string {
+    return push(ref(database, path)).key!;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    await set(ref(database, path), value);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    await update(ref(database, path), values);
+  }
+
+  async get(path: string): Promise<unknown> {
+    const snapshot = await get(ref(database, path));
+    return snapshot.val();
+  }
+
+  subscribe(path: string, onChange: (value: unknown) => void, onError?: (error: Error) => void): () => void {
+    const pathRef = ref(database, path);
+    onValue(pathRef, (snapshot) => onChange(snapshot.val()), (error) => onError?.(error));
+    return () => off(pathRef);
+  }
+
+  monitorConnection(onChange: (connected: boolean) => void): () => void {
+    return this.subscribe('.info/connected', (value) => onChange(value === true));
+  }
+
+  monitorServerTimeOffset(onChange: (offset: number) => void): () => void {
+    return this.subscribe('.info/serverTimeOffset', (value) => onChange(Number(value) || 0));
+  }
+
+  async signIn(): Promise<string> {
+    // Hands back the signed-in anonymous user if there already is one
+    const { user } = await signInAnonymously(auth);
+    return user.uid;
+  }
+
+  timestamp(): unknown {
+    return serverTimestamp();
+  }
+}
@@ -0,0 +1,19 @@
+import { sharingRelayUrl, sharingTransportKind } from '../../config/sharing';
+import { BroadcastChannelTransport } from './broadcastChannelTransport';
+import { FirebaseTransport } from './firebaseTransport';
+import { WebSocketTransport } from './webSocketTransport';
+import type { SharingTransport, TransportKind } from './types';
+
+export type { SharingTransport, TransportKind } from './types';
+export { createSecret } from './pathTree';
+
+export const createSharingTransport = (kind: TransportKind = sharingTransportKind): SharingTransport => {
+  switch (kind) {
+    case 'websocket':
+      return new WebSocketTransport(sharingRelayUrl);
+    case 'broadcast':
+      return new BroadcastChannelTransport();
+    case 'firebase':
+      return new FirebaseTransport();
+  }
+};
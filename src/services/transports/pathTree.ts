@@ -0,0 +1,79 @@
+// A JSON tree addressed by slash-separated paths, for transports that keep their own copy
+// of the shared data
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+/**
+ * Whether a change at one path can change the value at the other
+ */
+export const pathsOverlap = (a: string, b: string): boolean => {
+  const left = splitPath(a);
+  const right = splitPath(b);
+  const length = Math.min(left.length, right.length);
+  return left.slice(0, length).every((segment, index) => segment === right[index]);
+};
+
+/**
+ * Time-ordered key in the style of Firebase push IDs
+ */
+export const createTimeOrderedKey = (): string => {
+  const time = Date.now().toString(36).padStart(9, '0');
+  const random = Math.random().toString(36).slice(2, 10).padEnd(8, '0');
+  return `${time}${random}`;
+};
+
+/**
+ * Random hex string that can't be guessed, for tokens and links that grant access
+ */
+export const createSecret = (bytes: number = 16): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export class PathTree {
+  private root: unknown = null;
+
+  get(path: string): unknown {
+    let node = this.root;
+    for (const segment of splitPath(path)) {
+      if (node === null || typeof node !== 'object') return null;
+      node = (node as Record<string, unknown>)[segment] ?? null;
+    }
+    return node;
+  }
+
+  /**
+   * Replace the value at the path - null removes it
+   */
+  set(path: string, value: unknown): void {
+    // Stored the way it would come back over the wire
+    const copy = value === undefined ? null : JSON.parse(JSON.stringify(value));
+    const segments = splitPath(path);
+    if (segments.length === 0) {
+      this.root = copy;
+      return;
+    }
+
+    if (this.root === null || typeof this.root !== 'object') {
+      this.root = {};
+    }
+    let node = this.root as Record<string, unknown>;
+    for (const segment of segments.slice(0, -1)) {
+      const child = node[segment];
+      if (child === null || typeof child !== 'object') {
+        node[segment] = {};
+      }
+      node = node[segment] as Record<string, unknown>;
+    }
+
+    const last = segments[segments.length - 1];
+    if (copy === null) {
+      delete node[last];
+    } else {
+      node[last] = copy;
+    }
+  }
+
+  update(path: string, values: Record<string, unknown>): void {
+    Object.entries(values).forEach(([key, value]) => this.set(`${path}/${key}`, value));
+  }
+}
@@ -0,0 +1,52 @@
+export type TransportKind = 'firebase' | 'websocket' | 'broadcast';
+
+/**
+ * What live sharing needs from a realtime backend: a JSON tree addressed by slash-separated
+ * paths, with writes, subscriptions and a connection status. Values are plain JSON - write
+ * nulls instead of undefined.
+ */
+export interface SharingTransport {
+  readonly kind: TransportKind;
+
+  /**
+   * New child key under the path. Keys sort in creation order.
+   */
+  createKey(path: string): string;
+
+  set(path: string, value: unknown): Promise<void>;
+
+  /**
+   * Set each child of the path named in the values, leaving the others alone
+   */
+  update(path: string, values: Record<string, unknown>): Promise<void>;
+
+  /**
+   * Current value at the path, or null
+   */
+  get(path: string): Promise<unknown>;
+
+  /**
+   * Called with the value at the path now and after every change to it
+   */
+  subscribe(path: string, onValue: (value: unknown) => void, onError?: (error: Error) => void): () => void;
+
+  monitorConnection(onChange: (connected: boolean) => void): () => void;
+
+  /**
+   * Called with how many ms the backend's clock is ahead of this machine's, now and whenever
+   * it is measured again. Times the backend stamped are turned into this machine's time with it.
+   */
+  monitorServerTimeOffset(onChange: (offset: number) => void): () => void;
+
+  /**
+   * Sign this client in and get the id it writes as. Only the id that created a shared
+   * auction may change it afterwards; viewers register under their own id.
+   */
+  signIn(): Promise<string>;
+
+  /**
+   * Placeholder the backend turns into the time of the write by its own clock. Without a
+   * backend (BroadcastChannel) it is this machine's clock, which every tab shares.
+   */
+  timestamp(): unknown;
+}
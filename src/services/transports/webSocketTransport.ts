@@ -0,0 +1,267 @@
+import { createSecret, createTimeOrderedKey } from './pathTree';
+import type { SharingTransport } from './types';
+
+// Messages understood by scripts/sharing-relay.mjs
+type ClientMessage =
+  | { op: 'auth'; token: string }
+  | { op: 'set'; id: number; path: string; value: unknown }
+  | { op: 'update'; id: number; path: string; values: Record<string, unknown> }
+  | { op: 'subscribe'; path: string }
+  | { op: 'unsubscribe'; path: string };
+
+type RelayMessage =
+  | { op: 'value'; path: string; value: unknown }
+  | { op: 'signed-in'; uid: string; serverTime: number }
+  | { op: 'ack'; id: number }
+  | { op: 'denied'; id: number; path: string }
+  | { op: 'read-denied'; path: string };
+
+const RECONNECT_DELAY_MS = 2000;
+// Writes, reads and sign-in fail if the relay hasn't answered by then
+const REQUEST_TIMEOUT_MS = 10000;
+
+// The relay fills this in with its own clock, like Firebase's server timestamp
+const SERVER_TIMESTAMP = { '.sv': 'timestamp' };
+
+// The relay knows this browser by the token; others only ever see the id it hashes to
+const TOKEN_STORAGE_KEY = 'sharing-relay-token';
+
+const getRelayToken = (): string => {
+  let token = localStorage.getItem(TOKEN_STORAGE_KEY);
+  if (!token) {
+    token = createSecret();
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  }
+  return token;
+};
+
+/**
+ * Sharing through the small self-hosted relay in scripts/sharing-relay.mjs, for venues
+ * without internet access. The relay holds the shared data and pushes every change to the
+ * clients subscribed to it. Writes made while disconnected are sent on reconnect; each one
+ * settles when the relay accepts or denies it, and fails if the connection drops first.
+ */
+export class WebSocketTransport implements SharingTransport {
+  readonly kind = 'websocket';
+  private url: string;
+  private socket: WebSocket | null = null;
+  private isConnected = false;
+  private outbox: ClientMessage[] = [];
+  private listeners = new Map<string, Set<(value: unknown) => void>>();
+  private errorListeners = new Map<string, Set<(error: Error) => void>>();
+  private lastValues = new Map<string, unknown>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private serverTimeOffset = 0;
+  private serverTimeOffsetListeners = new Set<(offset: number) => void>();
+  private token = getRelayToken();
+  private uid: string | null = null;
+  private signInWaiters = new Set<(uid: string) => void>();
+  private nextMessageId = 1;
+  private writeAnswers = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  // Everything waiting on the relay, failed all at once when the connection drops
+  private pendingRequests = new Set<(error: Error) => void>();
+
+  constructor(url: string) {
+    this.url = url;
+    this.connect();
+  }
+
+  createKey(): string {
+    return createTimeOrderedKey();
+  }
+
+  set(path: string, value: unknown): Promise<void> {
+    return this.write({ op: 'set', id: this.nextMessageId++, path, value });
+  }
+
+  update(path: string, values: Record<string, unknown>): Promise<void> {
+    return this.write({ op: 'update', id: this.nextMessageId++, path, values });
+  }
+
+  get(path: string): Promise<unknown> {
+    return this.request(`read ${path}`, (resolve, reject) => this.subscribe(path, resolve, reject));
+  }
+
+  subscribe(path: string, onChange: (value: unknown) => void, onError?: (error: Error) => void): () => void {
+    let pathListeners = this.listeners.get(path);
+    if (!pathListeners) {
+      pathListeners = new Set();
+      this.listeners.set(path, pathListeners);
+      this.send({ op: 'subscribe', path });
+    } else if (this.lastValues.has(path)) {
+      // The relay only answers the first subscription to a path
+      const value = this.lastValues.get(path);
+      setTimeout(() => {
+        if (pathListeners?.has(onChange)) onChange(value);
+      }, 0);
+    }
+    pathListeners.add(onChange);
+    if (onError) {
+      const pathErrorListeners = this.errorListeners.get(path) ?? new Set();
+      pathErrorListeners.add(onError);
+      this.errorListeners.set(path, pathErrorListeners);
+    }
+
+    return () => {
+      pathListeners?.delete(onChange);
+      if (onError) {
+        this.errorListeners.get(path)?.delete(onError);
+        if (this.errorListeners.get(path)?.size === 0) this.errorListeners.delete(path);
+      }
+      if (pathListeners?.size === 0 && this.listeners.get(path) === pathListeners) {
+        this.listeners.delete(path);
+        this.lastValues.delete(path);
+        this.send({ op: 'unsubscribe', path });
+      }
+    };
+  }
+
+  monitorConnection(onChange: (connected: boolean) => void): () => void {
+    this.connectionListeners.add(onChange);
+    onChange(this.isConnected);
+    return () => {
+      this.connectionListeners.delete(onChange);
+    };
+  }
+
+  monitorServerTimeOffset(onChange: (offset: number) => void): () => void {
+    this.serverTimeOffsetListeners.add(onChange);
+    onChange(this.serverTimeOffset);
+    return () => {
+      this.serverTimeOffsetListeners.delete(onChange);
+    };
+  }
+
+  signIn(): Promise<string> {
+    // The id is worked out from the token, so it stays the same across reconnects
+    if (this.uid) return Promise.resolve(this.uid);
+
+    return this.request('sign in', resolve => {
+      this.signInWaiters.add(resolve);
+      return () => this.signInWaiters.delete(resolve);
+    });
+  }
+
+  timestamp(): unknown {
+    return SERVER_TIMESTAMP;
+  }
+
+  /**
+   * Send a write and settle once the relay accepts or denies it
+   */
+  private write(message: Extract<ClientMessage, { op: 'set' | 'update' }>): Promise<void> {
+    return this.request(`write ${message.path}`, (resolve, reject) => {
+      this.writeAnswers.set(message.id, { resolve: () => resolve(undefined), reject });
+      this.send(message);
+
+      return () => {
+        this.writeAnswers.delete(message.id);
+        // Don't send it after all if it was still waiting for a connection
+        this.outbox = this.outbox.filter(queued => queued !== message);
+      };
+    });
+  }
+
+  /**
+   * Wait for an answer from the relay, failing after REQUEST_TIMEOUT_MS or when the connection drops.
+   * `start` kicks the request off and hands back how to stop waiting for its answer.
+   */
+  private request<T>(
+    description: string,
+    start: (resolve: (value: T) => void, reject: (error: Error) => void) => () => void
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      let stop = () => {};
+      const finish = () => {
+        clearTimeout(timeout);
+        this.pendingRequests.delete(fail);
+        stop();
+      };
+      const fail = (error: Error) => {
+        finish();
+        reject(error);
+      };
+      const timeout = setTimeout(
+        () => fail(new Error(`The sharing relay did not answer in time (${description})`)),
+        REQUEST_TIMEOUT_MS
+      );
+
+      this.pendingRequests.add(fail);
+      stop = start(
+        (value) => {
+          finish();
+          resolve(value);
+        },
+        fail
+      );
+    });
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.setConnected(true);
+      // Sign in again before any writes - the relay forgets clients that disconnect
+      socket.send(JSON.stringify({ op: 'auth', token: this.token }));
+      // Subscriptions don't survive a reconnect
+      this.listeners.forEach((_, path) => socket.send(JSON.stringify({ op: 'subscribe', path })));
+      this.outbox.splice(0).forEach(message => socket.send(JSON.stringify(message)));
+    };
+
+    socket.onmessage = (event: MessageEvent<string>) => {
+      const message = JSON.parse(event.data) as RelayMessage;
+      switch (message.op) {
+        case 'value':
+          this.lastValues.set(message.path, message.value);
+          this.listeners.get(message.path)?.forEach(onChange => onChange(message.value));
+          break;
+        case 'signed-in':
+          this.uid = message.uid;
+          this.signInWaiters.forEach(resolve => resolve(message.uid));
+          // Sent with the relay's clock on every connect
+          this.serverTimeOffset = message.serverTime - Date.now();
+          this.serverTimeOffsetListeners.forEach(onChange => onChange(this.serverTimeOffset));
+          break;
+        case 'ack':
+          this.writeAnswers.get(message.id)?.resolve();
+          break;
+        case 'denied':
+          this.writeAnswers.get(message.id)?.reject(new Error(`The sharing relay turned down a write to ${message.path}`));
+          break;
+        case 'read-denied':
+          this.errorListeners.get(message.path)?.forEach(onError => onError(new Error(`The sharing relay turned down a read of ${message.path}`)));
+          break;
+      }
+    };
+
+    socket.onerror = () => {
+      this.failPendingRequests(new Error('Lost the connection to the sharing relay'));
+    };
+
+    socket.onclose = () => {
+      this.setConnected(false);
+      this.failPendingRequests(new Error('Lost the connection to the sharing relay'));
+      setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    };
+  }
+
+  private failPendingRequests(error: Error): void {
+    [...this.pendingRequests].forEach(fail => fail(error));
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else if (message.op === 'set' || message.op === 'update') {
+      // Subscriptions are replayed on connect; only writes need to wait
+      this.outbox.push(message);
+    }
+  }
+
+  private setConnected(connected: boolean): void {
+    this.isConnected = connected;
+    this.connectionListeners.forEach(onChange => onChange(connected));
+  }
+}
@@ -1,7 +1,38 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import type { Tournament, Team, Player, AuctionState, Bid, TournamentSettings } from '../types';
+import type { Tournament, Team, Player, AuctionState, TournamentSettings, AuctionConstraints, ProxyBid } from '../types';
 import { getTeamTemplate } from '../utils/teamData';
+import {
+  applyCommand,
+  areAllTeamsFull,
+  getBidIncrement,
+  getCurrentPlayer,
+  getEligibleTeams,
+  getHammerPhase,
+  getMaxBidForTeam,
+  getNextDutchPrice,
+  getProxyBid,
+  getRtmTeam,
+  initialAuctionState,
+  isDutchAuction,
+  orderPlayersBySet,
+  type ActionResult,
+  type AuctionCommand,
+  type EngineState,
+} from '../engine/auctionEngine';
+import {
+  appendAction,
+  appendUndo,
+  emptyEventLog,
+  extendLastAction,
+  getLastAction,
+  getRedoableAction,
+  getUndoableAction,
+  normalizeEventLog,
+  replayEventLog,
+  type AuctionEventLog,
+} from '../engine/eventLog';
+import { createSeededRandom, generateShuffleSeed } from '../engine/shuffle';
 
 interface AuctionSettings {
   bidIncrement: number;
@@ -21,6 +52,7 @@ interface SavedTournament {
   totalSpent: number;
   isCompleted: boolean;
   progress: number; // percentage of auction completed
+  eventLog?: AuctionEventLog;
 }
 
 interface AuctionStore {
@@ -28,12 +60,8 @@ interface AuctionStore {
   tournament: Tournament | null;
   auctionState: AuctionState;
   settings: AuctionSettings;
-  bidHistory: Array<{
-    tournament: Tournament;
-    auctionState: AuctionState;
-    action: string;
-    timestamp: Date;
-  }>;
+  eventLog: AuctionEventLog;
+  proxyBids: ProxyBid[];
   savedTournaments: SavedTournament[];
 
   // Actions
@@ -43,41 +71,89 @@ interface AuctionStore {
     playersPerTeam: number;
     teamBudget: number;
     settings?: TournamentSettings;
+    constraints?: AuctionConstraints;
   }) => void;
 
-  setPlayers: (players: Player[]) => void;
+  setPlayers: (players: Player[], setOrder?: string[]) => void;
 
-  setupTeams: (teamNames?: string[]) => void;
+  // Redraw the auction order from a seed (a fresh one when left empty)
+  reshufflePlayers: (seed?: string) => void;
+
+  setupTeams: (teamNames?: string[], rtmCards?: number[]) => ActionResult;
 
   assignCaptainsToTeams: () => void;
 
-  startAuction: () => void;
+  // Pre-auction retentions
+  retainPlayer: (playerId: string, teamId: string, price?: number) => ActionResult;
+  releaseRetention: (playerId: string) => ActionResult;
+  applyImportedRetentions: () => string[];
+
+  startAuction: () => ActionResult;
+
+  placeBid: (teamId: string, amount: number) => ActionResult;
+
+  // Proxy bids answer rival bids on behalf of owners who aren't in the room
+  addProxyBid: (proxyBid: Omit<ProxyBid, 'id'>) => void;
+  removeProxyBid: (id: string) => void;
+
+  passTeam: (teamId: string) => ActionResult;
+
+  // Sealed-bid format
+  submitSealedBid: (teamId: string, amount: number) => ActionResult;
+  revealSealedBids: () => ActionResult;
+
+  // Bidding clock: the hammer falls when the deadline passes, after "going once" and "going twice"
+  restartTimer: () => void;
+  stopTimer: () => void;
+
+  // Auction-wide pause, either the auctioneer's or a team's strategic timeout. The clock freezes while paused.
+  pauseAuction: () => ActionResult;
+  resumeAuction: () => ActionResult;
+  callTeamTimeout: (teamId: string) => ActionResult;
+
+  // Dutch format: the clock lowers the price and the first team to claim gets the player
+  tickDutchPrice: () => boolean;
+  claimPlayer: (teamId: string) => ActionResult;
 
-  placeBid: (teamId: string, amount: number) => void;
+  soldPlayer: () => ActionResult;
 
-  passTeam: (teamId: string) => void;
+  unsoldPlayer: () => ActionResult;
 
-  soldPlayer: () => void;
+  // Right-to-Match decisions for the player's former team
+  matchRtm: () => ActionResult;
+  declineRtm: () => ActionResult;
 
-  unsoldPlayer: () => void;
+  // Team picks for an accelerated unsold round
+  nominateUnsoldPlayers: (teamId: string, playerIds: string[]) => ActionResult;
+
+  // Accelerated mode: teams nominate who comes up from the remaining and unsold players
+  openAcceleratedNominations: () => ActionResult;
+  nominatePlayers: (teamId: string, playerIds: string[]) => ActionResult;
+
+  // Draft format: the team on the clock picks a player
+  draftPlayer: (teamId: string, playerId: string) => ActionResult;
 
   // New functions for delayed player advancement
-  markPlayerSold: () => void;
-  markPlayerUnsold: () => void;
-  advanceToNextPlayer: () => void;
+  markPlayerSold: () => ActionResult;
+  markPlayerUnsold: () => ActionResult;
+  advanceToNextPlayer: () => ActionResult;
   setPreventAutoAdvance: (prevent: boolean) => void;
 
-  nextPlayer: () => void;
+  nextPlayer: () => ActionResult;
 
   resetAuction: () => void;
 
   updateSettings: (settings: Partial<AuctionSettings>) => void;
 
-  undoBid: () => void;
+  undo: () => void;
+
+  redo: () => void;
 
   canUndo: () => boolean;
 
-  endAuction: () => void;
+  canRedo: () => boolean;
+
+  endAuction: () => ActionResult;
 
   clearStorage: () => void;
 
@@ -94,21 +170,15 @@ interface AuctionStore {
   updateSavedTournamentName: (tournamentId: string, newName: string) => void;
 
   // Getters
+  getReplayedState: () => EngineState | null;
   getCurrentPlayer: () => Player | null;
   getTeamById: (teamId: string) => Team | null;
   getEligibleTeams: () => Team[];
   getMaxBidForTeam: (teamId: string) => number;
   areAllTeamsFull: () => boolean;
-  calculateBidIncrement: (minimumBid: number) => number;
+  getBidIncrement: (amount: number) => number;
 }
 
-const initialAuctionState: AuctionState = {
-  currentBids: [],
-  passedTeams: [],
-  timer: 30,
-  isActive: false,
-};
-
 const defaultSettings: AuctionSettings = {
   bidIncrement: 1, // ₹1 minimum increment (will be calculated dynamically)
   auctionTimer: 30,
@@ -118,11 +188,108 @@ const defaultSettings: AuctionSettings = {
 export const useAuctionStore = create<AuctionStore>()(
   devtools(
     persist(
-      (set, get) => ({
+      (set, get) => {
+      // Run a command through the auction engine and commit the resulting state.
+      // Follow-ups to the same user action are logged with it, so one undo takes them all back.
+      const dispatch = (command: AuctionCommand, followUp: boolean = false): ActionResult => {
+        const { tournament, auctionState, eventLog } = get();
+        if (!tournament) return { ok: false, reason: 'NO_TOURNAMENT' };
+
+        const result = applyCommand({ tournament, auctionState }, command);
+        if (result.rejection) return { ok: false, reason: result.rejection };
+
+        set({
+          tournament: result.tournament,
+          auctionState: result.auctionState,
+          eventLog: followUp && getLastAction(eventLog)
+            ? extendLastAction(eventLog, result.events)
+            : appendAction(eventLog, { tournament, auctionState }, {
+                action: command.type,
+                events: result.events,
+                // Only actions taken once the auction is running can be undone; setup steps can't
+                undoable: tournament.isAuctionStarted,
+              }),
+        });
+        return { ok: true, events: result.events };
+      };
+
+      // The hammer falls from here rather than from the auction screen, so a throttled or
+      // closed tab can't keep a player open past the deadline
+      let hammerTimeout: ReturnType<typeof setTimeout> | undefined;
+
+      // Wakes on every whole second left to move the going-once / going-twice call along with
+      // the clock, so every screen shows the call the store made instead of working out its own
+      const scheduleHammer = () => {
+        clearTimeout(hammerTimeout);
+        const { tournament, auctionState } = get();
+        if (!tournament || tournament.pause || auctionState.timerDeadline === undefined) return;
+
+        const timeLeft = auctionState.timerDeadline - Date.now();
+        if (timeLeft <= 0) {
+          dropHammer();
+          return;
+        }
+
+        const hammerPhase = getHammerPhase(tournament, Math.ceil(timeLeft / 1000));
+        if (hammerPhase !== auctionState.hammerPhase) {
+          set({ auctionState: { ...auctionState, hammerPhase } });
+        }
+        hammerTimeout = setTimeout(scheduleHammer, timeLeft % 1000 || 1000);
+      };
+
+      const dropHammer = () => {
+        const { tournament, auctionState } = get();
+        if (!tournament || tournament.pause || auctionState.timerDeadline === undefined) return;
+
+        const player = getCurrentPlayer(tournament, auctionState);
+        const { highestBid } = auctionState;
+        set({ auctionState: { ...auctionState, timerDeadline: undefined, hammerPhase: undefined } });
+        if (!player) return;
+
+        // Hammer price is set - the former team gets to match before the sale closes
+        if (highestBid && getRtmTeam(tournament, player, highestBid.teamId, highestBid.amount)) {
+          dispatch({ type: 'SELL' });
+          return;
+        }
+
+        // Keep the closed player on screen until the auction screen has shown the result and moved on
+        get().setPreventAutoAdvance(true);
+        const result = dispatch(highestBid ? { type: 'SELL' } : { type: 'MARK_UNSOLD' });
+        set((state) => ({
+          auctionState: {
+            ...state.auctionState,
+            preventAutoAdvance: result.ok,
+            hammerFellOn: result.ok ? player.id : undefined,
+          },
+        }));
+      };
+
+      // Record an undo or redo and rebuild the state from the log
+      const replayWith = (eventLog: AuctionEventLog) => {
+        const { auctionState } = get();
+        const replayed = replayEventLog(eventLog);
+        if (!replayed) return;
+
+        set({
+          tournament: replayed.tournament,
+          // The shuffle animation is never running for a rebuilt state, and the clock keeps its own time
+          auctionState: {
+            ...replayed.auctionState,
+            preventAutoAdvance: false,
+            timer: auctionState.timer,
+            timerDeadline: auctionState.timerDeadline,
+            hammerPhase: auctionState.hammerPhase,
+          },
+          eventLog,
+        });
+      };
+
+      return {
       tournament: null,
       auctionState: initialAuctionState,
       settings: defaultSettings,
-      bidHistory: [],
+      proxyBids: [],
+      eventLog: emptyEventLog,
       savedTournaments: [],
 
       createTournament: (config) => {
@@ -164,6 +331,7 @@ export const useAuctionStore = create<AuctionStore>()(
           currentPlayerIndex: 0,
           isAuctionStarted: false,
           isAuctionCompleted: false,
+          constraints: config.constraints,
           settings: config.settings || defaultSettings,
         };
 
@@ -172,6 +340,8 @@ export const useAuctionStore = create<AuctionStore>()(
 
         set({
           tournament,
+          eventLog: emptyEventLog,
+          proxyBids: [],
           settings: {
             ...get().settings,
             bidIncrement: bidIncrement
@@ -179,283 +349,266 @@ export const useAuctionStore = create<AuctionStore>()(
         });
       },
 
-      setPlayers: (players) => {
-        // Shuffle players for random auction order
-        const shuffledPlayers = [...players].sort(() => Math.random() - 0.5);
+      setPlayers: (players, setOrder) => {
+        const shuffleSeed = generateShuffleSeed();
 
+        // A new player list invalidates any retentions made against the old one
         set((state) => ({
           tournament: state.tournament
-            ? { ...state.tournament, players: shuffledPlayers }
+            ? {
+                ...state.tournament,
+                settings: { ...state.tournament.settings, setOrder: setOrder ?? state.tournament.settings.setOrder },
+                // Auction set by set, in seeded random order within each set
+                shuffleSeed,
+                players: orderPlayersBySet(
+                  players,
+                  setOrder ?? state.tournament.settings.setOrder,
+                  createSeededRandom(shuffleSeed)
+                ),
+                teams: state.tournament.teams.map(team => ({ ...team, players: [], remainingBudget: team.budget })),
+              }
             : null,
+          eventLog: emptyEventLog,
         }));
       },
 
-      setupTeams: (teamNames) => {
+      reshufflePlayers: (seed) => {
         set((state) => {
-          if (!state.tournament) return state;
+          if (!state.tournament || state.tournament.isAuctionStarted) return state;
 
-          const updatedTeams = state.tournament.teams.map((team, index) => ({
-            ...team,
-            name: teamNames?.[index] || team.name,
-          }));
+          const shuffleSeed = seed?.trim() || generateShuffleSeed();
+          const reorder = (tournament: Tournament): Tournament => ({
+            ...tournament,
+            shuffleSeed,
+            players: orderPlayersBySet(tournament.players, tournament.settings.setOrder, createSeededRandom(shuffleSeed)),
+          });
 
+          // Retentions may already be logged - keep the log's starting state in the same order
+          const { base } = state.eventLog;
           return {
-            tournament: {
-              ...state.tournament,
-              teams: updatedTeams,
-            },
+            tournament: reorder(state.tournament),
+            eventLog: base ? { ...state.eventLog, base: { ...base, tournament: reorder(base.tournament) } } : state.eventLog,
           };
         });
       },
 
+      setupTeams: (teamNames, rtmCards) => {
+        const { tournament } = get();
+        if (!tournament) return { ok: false, reason: 'NO_TOURNAMENT' };
+
+        // Logged like any other step, so replaying the log gives the same names and cards
+        return dispatch({
+          type: 'SETUP_TEAMS',
+          teams: tournament.teams.map((team, index) => ({
+            teamId: team.id,
+            name: teamNames?.[index] || team.name,
+            rtmCards: rtmCards?.[index] ?? team.rtmCards,
+          })),
+        });
+      },
+
       assignCaptainsToTeams: () => {
-        set((state) => {
-          if (!state.tournament) return state;
+        const { tournament } = get();
+        if (!tournament) return;
 
-          const captains = state.tournament.players.filter(player => player.isCaptain);
+        // Only proceed if we have captains and the right number of them
+        const captains = tournament.players.filter(player => player.isCaptain);
+        if (captains.length === 0 || captains.length !== tournament.numberOfTeams) {
+          console.log(`Skipping captain assignment: Found ${captains.length} captains, expected ${tournament.numberOfTeams} or 0 for no captain functionality`);
+          return;
+        }
 
-          // Only proceed if we have captains and the right number of them
-          if (captains.length === 0 || captains.length !== state.tournament.numberOfTeams) {
-            console.log(`Skipping captain assignment: Found ${captains.length} captains, expected ${state.tournament.numberOfTeams} or 0 for no captain functionality`);
-            return state;
-          }
+        dispatch({ type: 'ASSIGN_CAPTAINS' });
+      },
 
-          // Assign each captain to a team
-          const updatedTeams = state.tournament.teams.map((team, index) => {
-            const captain = captains[index];
-            if (captain) {
-              // Create a copy of the captain with team assignment
-              // Captains are free - they don't consume budget
-              const assignedCaptain = {
-                ...captain,
-                teamId: team.id,
-                soldPrice: 0, // Captains are free
-              };
-
-              return {
-                ...team,
-                players: [assignedCaptain],
-                remainingBudget: team.budget, // No budget deduction for captains
-              };
-            }
-            return team;
-          });
+      retainPlayer: (playerId, teamId, price) => {
+        const { tournament } = get();
+        const player = tournament?.players.find(p => p.id === playerId);
+        if (!tournament) return { ok: false, reason: 'NO_TOURNAMENT' };
+        if (!player) return { ok: false, reason: 'UNKNOWN_PLAYER' };
 
-          // Update players list to mark captains as assigned
-          const updatedPlayers = state.tournament.players.map(player => {
-            if (player.isCaptain) {
-              const teamIndex = captains.findIndex(c => c.id === player.id);
-              if (teamIndex !== -1) {
-                return {
-                  ...player,
-                  teamId: state.tournament!.teams[teamIndex].id,
-                  soldPrice: 0, // Captains are free
-                };
-              }
+        const retentionPrice = price ?? player.retentionPrice ?? tournament.settings.retentionPrice ?? (player.basePrice || tournament.settings.minimumBid);
+        return dispatch({ type: 'RETAIN', playerId, teamId, price: retentionPrice });
+      },
+
+      releaseRetention: (playerId) => {
+        return dispatch({ type: 'RELEASE', playerId });
+      },
+
+      // Retain everyone the import marked with a "Retained By" team; returns the names that couldn't be retained
+      applyImportedRetentions: () => {
+        const { tournament } = get();
+        if (!tournament) return [];
+
+        const failed: string[] = [];
+        tournament.players
+          .filter(player => player.retainedBy && !player.isRetained)
+          .forEach(player => {
+            const retainedBy = player.retainedBy!.trim().toLowerCase();
+            const team = get().tournament?.teams.find(t => t.name.trim().toLowerCase() === retainedBy || t.id === retainedBy);
+            if (!team || !get().retainPlayer(player.id, team.id).ok) {
+              failed.push(player.name);
             }
-            return player;
           });
-
-          return {
-            tournament: {
-              ...state.tournament,
-              teams: updatedTeams,
-              players: updatedPlayers,
-            },
-          };
-        });
+        return failed;
       },
 
       startAuction: () => {
-        set((state) => ({
-          tournament: state.tournament
-            ? { ...state.tournament, isAuctionStarted: true }
-            : null,
-          auctionState: {
-            ...initialAuctionState,
-            isActive: true,
-          },
-        }));
+        return dispatch({ type: 'START' });
       },
 
       placeBid: (teamId, amount) => {
-        const { tournament, auctionState, bidHistory } = get();
-        if (!tournament || !auctionState.isActive) return;
-
-        const team = tournament.teams.find(t => t.id === teamId);
-        if (!team || team.remainingBudget < amount) return;
+        const result = dispatch({ type: 'BID', teamId, amount });
+        if (!result.ok) return result;
 
-        // Check if bid exceeds maximum allowed for this team
-        const maxBid = get().getMaxBidForTeam(teamId);
-        if (amount > maxBid) return;
-
-        // Save current state to history before making changes
-        const historyEntry = {
-          tournament: JSON.parse(JSON.stringify(tournament)),
-          auctionState: JSON.parse(JSON.stringify(auctionState)),
-          action: `Bid placed: ${team.name} - ${amount}`,
-          timestamp: new Date(),
-        };
-
-        const newBid: Bid = {
-          teamId,
-          amount,
-          timestamp: new Date(),
+        // Proxy bids answer every bid, including each other's, until no limit allows another raise
+        const nextProxyBid = () => {
+          const { tournament, auctionState, proxyBids } = get();
+          return tournament ? getProxyBid(tournament, auctionState, proxyBids) : null;
         };
+        let proxyBid = nextProxyBid();
+        while (proxyBid && dispatch({ type: 'BID', ...proxyBid, automatic: true }, true).ok) {
+          proxyBid = nextProxyBid();
+        }
+        return result;
+      },
 
+      addProxyBid: (proxyBid) => {
         set((state) => ({
-          bidHistory: [...bidHistory, historyEntry],
-          auctionState: {
-            ...state.auctionState,
-            currentBids: [...state.auctionState.currentBids, newBid],
-            highestBid: newBid,
-            timer: state.tournament?.settings.timerDuration || 30,
-          },
+          proxyBids: [...state.proxyBids, { ...proxyBid, id: `proxy-${Date.now()}-${state.proxyBids.length}` }],
         }));
       },
 
+      removeProxyBid: (id) => {
+        set((state) => ({ proxyBids: state.proxyBids.filter(p => p.id !== id) }));
+      },
+
       passTeam: (teamId) => {
-        set((state) => ({
-          auctionState: {
-            ...state.auctionState,
-            passedTeams: [...state.auctionState.passedTeams, teamId],
-          },
-        }));
+        return dispatch({ type: 'PASS', teamId });
       },
 
-      soldPlayer: () => {
-        const { tournament, auctionState } = get();
-        const currentPlayer = get().getCurrentPlayer();
-        if (!tournament || !auctionState.highestBid || !currentPlayer) return;
+      submitSealedBid: (teamId, amount) => {
+        return dispatch({ type: 'SEALED_BID', teamId, amount });
+      },
 
-        const winningTeam = tournament.teams.find(t => t.id === auctionState.highestBid!.teamId);
-        if (!winningTeam) return;
+      revealSealedBids: () => {
+        return dispatch({ type: 'REVEAL' });
+      },
 
-        const soldPlayer = {
-          ...currentPlayer,
-          soldPrice: auctionState.highestBid.amount,
-          teamId: winningTeam.id,
-        };
+      // The clock isn't logged - only the sale or unsold mark it ends in is
+      restartTimer: () => {
+        const { tournament, auctionState } = get();
+        if (!tournament?.settings.enableTimer) return;
 
-        set((state) => {
-          if (!state.tournament) return state;
+        const duration = Number(tournament.settings.timerDuration) || initialAuctionState.timer;
+        set({ auctionState: { ...auctionState, timer: duration, timerDeadline: Date.now() + duration * 1000 } });
+        scheduleHammer();
+      },
 
-          const updatedTeams = state.tournament.teams.map(team => {
-            if (team.id === winningTeam.id) {
-              return {
-                ...team,
-                players: [...team.players, soldPlayer],
-                remainingBudget: team.remainingBudget - auctionState.highestBid!.amount,
-              };
-            }
-            return team;
-          });
+      stopTimer: () => {
+        const { auctionState } = get();
+        clearTimeout(hammerTimeout);
+        if (auctionState.timerDeadline === undefined) return;
 
-          const updatedPlayers = state.tournament.players.map(player =>
-            player.id === soldPlayer.id ? soldPlayer : player
-          );
+        set({ auctionState: { ...auctionState, timerDeadline: undefined, hammerPhase: undefined } });
+      },
 
-          return {
-            tournament: {
-              ...state.tournament,
-              teams: updatedTeams,
-              players: updatedPlayers,
-              currentPlayerIndex: state.tournament.currentPlayerIndex + 1,
-            },
-            auctionState: {
-              ...initialAuctionState,
-              isActive: true,
-            },
-          };
-        });
+      pauseAuction: () => {
+        const result = dispatch({ type: 'PAUSE' });
+        if (result.ok) clearTimeout(hammerTimeout);
+        return result;
+      },
 
-        get().nextPlayer();
+      // The deadline moves back by however long the pause lasted, so the clock picks up where it froze
+      resumeAuction: () => {
+        const pause = get().tournament?.pause;
+        const result = dispatch({ type: 'RESUME' });
+        const { auctionState } = get();
+        if (result.ok && pause && auctionState.timerDeadline !== undefined) {
+          const pausedFor = Date.now() - new Date(pause.startedAt).getTime();
+          set({ auctionState: { ...auctionState, timerDeadline: auctionState.timerDeadline + pausedFor } });
+          scheduleHammer();
+        }
+        return result;
       },
 
-      // New function: Mark player as sold without advancing
-      markPlayerSold: () => {
+      callTeamTimeout: (teamId) => {
+        return dispatch({ type: 'TEAM_TIMEOUT', teamId });
+      },
+
+      // The falling price is clock state like the timer, so it isn't logged; the claim records the price paid
+      tickDutchPrice: () => {
         const { tournament, auctionState } = get();
-        const currentPlayer = get().getCurrentPlayer();
-        if (!tournament || !auctionState.highestBid || !currentPlayer) return;
+        const player = tournament ? getCurrentPlayer(tournament, auctionState) : null;
+        if (!tournament || !player || !isDutchAuction(tournament) || auctionState.highestBid || auctionState.pendingRtm) {
+          return false;
+        }
 
-        const winningTeam = tournament.teams.find(t => t.id === auctionState.highestBid!.teamId);
-        if (!winningTeam) return;
+        const dutchPrice = getNextDutchPrice(tournament, auctionState, player);
+        if (dutchPrice === null) return false;
 
-        const soldPlayer = {
-          ...currentPlayer,
-          soldPrice: auctionState.highestBid.amount,
-          teamId: winningTeam.id,
-        };
+        set({ auctionState: { ...auctionState, dutchPrice } });
+        return true;
+      },
 
-        set((state) => {
-          if (!state.tournament) return state;
+      claimPlayer: (teamId) => {
+        return dispatch({ type: 'CLAIM', teamId });
+      },
 
-          const updatedPlayers = state.tournament.players.map(player =>
-            player.id === currentPlayer.id ? soldPlayer : player
-          );
+      soldPlayer: () => {
+        const result = dispatch({ type: 'SELL' });
+        // An RTM offer holds the player until the former team decides
+        if (result.ok && result.events.some(event => event.type === 'PlayerSold')) {
+          get().nextPlayer();
+        }
+        return result;
+      },
 
-          const updatedTeams = state.tournament.teams.map(team => {
-            if (team.id === winningTeam.id) {
-              return {
-                ...team,
-                players: [...team.players, soldPlayer],
-                remainingBudget: team.remainingBudget - auctionState.highestBid!.amount,
-              };
-            }
-            return team;
-          });
+      // New function: Mark player as sold without advancing
+      markPlayerSold: () => {
+        return dispatch({ type: 'SELL' });
+      },
 
-          return {
-            ...state,
-            tournament: {
-              ...state.tournament,
-              players: updatedPlayers,
-              teams: updatedTeams,
-            },
-            auctionState: {
-              ...state.auctionState,
-              highestBid: undefined,
-              currentBids: [],
-              passedTeams: [],
-            },
-          };
-        });
+      matchRtm: () => {
+        return dispatch({ type: 'RTM_MATCH' });
       },
 
-      // New function: Mark player as unsold without advancing
-      markPlayerUnsold: () => {
-        const { tournament } = get();
-        if (!tournament || !tournament.players[tournament.currentPlayerIndex]) return;
+      declineRtm: () => {
+        return dispatch({ type: 'RTM_DECLINE' });
+      },
 
-        const currentPlayer = tournament.players[tournament.currentPlayerIndex];
-        const unsoldPlayer = { ...currentPlayer, isUnsold: true };
+      nominateUnsoldPlayers: (teamId, playerIds) => {
+        return dispatch({ type: 'NOMINATE_UNSOLD', teamId, playerIds });
+      },
 
-        set((state) => {
-          if (!state.tournament) return state;
+      openAcceleratedNominations: () => {
+        return dispatch({ type: 'OPEN_ACCELERATED' });
+      },
 
-          const updatedPlayers = state.tournament.players.map(player =>
-            player.id === currentPlayer.id ? unsoldPlayer : player
-          );
+      nominatePlayers: (teamId, playerIds) => {
+        return dispatch({ type: 'NOMINATE', teamId, playerIds });
+      },
 
-          return {
-            ...state,
-            tournament: {
-              ...state.tournament,
-              players: updatedPlayers,
-            },
-            auctionState: {
-              ...state.auctionState,
-              highestBid: undefined,
-              currentBids: [],
-              passedTeams: [],
-            },
-          };
-        });
+      draftPlayer: (teamId, playerId) => {
+        const result = dispatch({ type: 'DRAFT_PICK', teamId, playerId });
+
+        if (result.ok && result.events.some(event => event.type === 'AuctionEnded')) {
+          // Auto-save the completed tournament
+          setTimeout(() => {
+            get().saveTournament();
+          }, 100);
+        }
+        return result;
+      },
+
+      // New function: Mark player as unsold without advancing
+      markPlayerUnsold: () => {
+        return dispatch({ type: 'MARK_UNSOLD' });
       },
 
       // New function: Advance to next player (for use after shuffle animation)
       advanceToNextPlayer: () => {
-        get().nextPlayer();
+        return get().nextPlayer();
       },
 
       // New function: Control auto-advance behavior
@@ -469,159 +622,37 @@ export const useAuctionStore = create<AuctionStore>()(
       },
 
       unsoldPlayer: () => {
-        const { tournament } = get();
-        if (!tournament || !tournament.players[tournament.currentPlayerIndex]) return;
-
-        const currentPlayer = tournament.players[tournament.currentPlayerIndex];
-        const unsoldPlayer = { ...currentPlayer, isUnsold: true };
-
-        set((state) => {
-          if (!state.tournament) return state;
-
-          const updatedPlayers = state.tournament.players.map(player =>
-            player.id === unsoldPlayer.id ? unsoldPlayer : player
-          );
-
-          return {
-            tournament: {
-              ...state.tournament,
-              players: updatedPlayers,
-              currentPlayerIndex: state.tournament.currentPlayerIndex + 1,
-            },
-            auctionState: {
-              ...initialAuctionState,
-              isActive: true,
-            },
-          };
-        });
-
-        get().nextPlayer();
+        const result = dispatch({ type: 'MARK_UNSOLD' });
+        if (result.ok) {
+          get().nextPlayer();
+        }
+        return result;
       },
 
       nextPlayer: () => {
-        const { tournament } = get();
-        if (!tournament) return;
-
-        // Check if we have properly assigned captains
-        const captains = tournament.players.filter(p => p.isCaptain);
-        const hasCaptains = captains.length === tournament.numberOfTeams;
-
-        // First, advance the current player index to the next available player
-        let nextIndex = tournament.currentPlayerIndex + 1;
-
-        // Find the next player that hasn't been sold or marked unsold and is not a captain (if captains are being used)
-        while (nextIndex < tournament.players.length) {
-          const player = tournament.players[nextIndex];
-          if (!player.soldPrice && !player.isUnsold && (!hasCaptains || !player.isCaptain)) {
-            break; // Found next available player
-          }
-          nextIndex++;
-        }
-
-        // Update the current player index
-        set((state) => ({
-          tournament: state.tournament ? {
-            ...state.tournament,
-            currentPlayerIndex: nextIndex,
-          } : null,
-        }));
-
-        if (nextIndex >= tournament.players.length) {
-          // Check if we should bring back unsold players
-          if (tournament.settings.enableUnsoldPlayerReturn) {
-            const captains = tournament.players.filter(p => p.isCaptain);
-            const hasCaptains = captains.length === tournament.numberOfTeams;
-            const unsoldPlayers = tournament.players.filter(p => p.isUnsold && !p.soldPrice && (!hasCaptains || !p.isCaptain));
-
-            if (unsoldPlayers.length > 0) {
-              // Check if any team still has space and can afford any unsold player
-              const teamsWithSpace = tournament.teams.filter(team => team.players.length < team.maxPlayers);
-              const canAnyTeamAffordAnyPlayer = teamsWithSpace.some(team =>
-                unsoldPlayers.some(player =>
-                  team.remainingBudget >= (player.basePrice || tournament.settings.minimumBid)
-                )
-              );
-
-              if (canAnyTeamAffordAnyPlayer) {
-                // Reset unsold players and shuffle them randomly
-                const soldPlayers = tournament.players.filter(p => p.soldPrice);
-                const resetUnsoldPlayers = tournament.players
-                  .filter(p => p.isUnsold && !p.soldPrice)
-                  .map(player => ({ ...player, isUnsold: false }));
-
-                // Shuffle the unsold players randomly
-                const shuffledUnsoldPlayers = [...resetUnsoldPlayers].sort(() => Math.random() - 0.5);
-
-                // Combine sold players with shuffled unsold players
-                const reorderedPlayers = [...soldPlayers, ...shuffledUnsoldPlayers];
-
-                set((state) => ({
-                  tournament: state.tournament ? {
-                    ...state.tournament,
-                    players: reorderedPlayers,
-                    currentPlayerIndex: soldPlayers.length, // Start from first unsold player
-                  } : null,
-                  auctionState: {
-                    ...initialAuctionState,
-                    isActive: true,
-                  },
-                }));
-                return;
-              }
-            }
-          }
-
-          // Check if all teams are full or no team can afford any remaining player
-          const allTeamsFull = tournament.teams.every(team => team.players.length >= team.maxPlayers);
-          const captains = tournament.players.filter(p => p.isCaptain);
-          const hasCaptains = captains.length === tournament.numberOfTeams;
-          const remainingPlayers = tournament.players.filter(p => !p.soldPrice && !p.isUnsold && (!hasCaptains || !p.isCaptain));
-          const teamsWithSpace = tournament.teams.filter(team => team.players.length < team.maxPlayers);
-
-          // Check if any team with space can afford any remaining player
-          const canAnyTeamAffordAnyPlayer = teamsWithSpace.some(team =>
-            remainingPlayers.some(player =>
-              team.remainingBudget >= (player.basePrice || tournament.settings.minimumBid)
-            )
-          );
-
-          // End auction only if all teams are full OR no team can afford any remaining player
-          if (allTeamsFull || !canAnyTeamAffordAnyPlayer || remainingPlayers.length === 0) {
-            set((state) => ({
-              tournament: state.tournament
-                ? { ...state.tournament, isAuctionCompleted: true }
-                : null,
-              auctionState: { ...initialAuctionState, isActive: false },
-            }));
-
-            // Auto-save the completed tournament
-            setTimeout(() => {
-              get().saveTournament();
-            }, 100);
-            return;
-          }
-
-          // If we reach here, there are still players and teams that can afford them
-          // This shouldn't happen in normal flow, but just in case
-          set(() => ({
-            auctionState: {
-              ...initialAuctionState,
-              isActive: true,
-            },
-          }));
-          return;
+        // Moving on after a sale or unsold mark is part of closing that player
+        const lastAction = getLastAction(get().eventLog);
+        const closesLastAction = !!lastAction
+          && lastAction.events.some(event => event.type === 'PlayerSold' || event.type === 'PlayerUnsold')
+          && !lastAction.events.some(event => event.type === 'PlayerAdvanced');
+        const result = dispatch({ type: 'ADVANCE' }, closesLastAction);
+
+        if (result.ok && result.events.some(event => event.type === 'AuctionEnded')) {
+          // Auto-save the completed tournament
+          setTimeout(() => {
+            get().saveTournament();
+          }, 100);
         }
-
-        set(() => ({
-          auctionState: {
-            ...initialAuctionState,
-            isActive: true,
-          },
-        }));
+        return result;
       },
 
       resetAuction: () => {
-        set({ tournament: null, auctionState: initialAuctionState });
+        set({
+          tournament: null,
+          auctionState: initialAuctionState,
+          eventLog: emptyEventLog,
+          proxyBids: [],
+        });
       },
 
       updateSettings: (newSettings) => {
@@ -630,88 +661,48 @@ export const useAuctionStore = create<AuctionStore>()(
         }));
       },
 
-      // Helper function to calculate appropriate bid increment
-      calculateBidIncrement: (minimumBid: number) => {
-        return Math.max(
-          1, // Minimum increment of ₹1
-          Math.round(minimumBid * 0.1) // 10% of minimum bid
-        );
-      },
+      undo: () => {
+        const { eventLog } = get();
+        if (!getUndoableAction(eventLog)) return;
 
-      undoBid: () => {
-        const { bidHistory } = get();
-        if (bidHistory.length === 0) return;
+        replayWith(appendUndo(eventLog, 'undo'));
+      },
 
-        const lastState = bidHistory[bidHistory.length - 1];
-        const newHistory = bidHistory.slice(0, -1);
+      redo: () => {
+        const { eventLog } = get();
+        if (!getRedoableAction(eventLog)) return;
 
-        set(() => ({
-          tournament: lastState.tournament,
-          auctionState: lastState.auctionState,
-          bidHistory: newHistory,
-        }));
+        replayWith(appendUndo(eventLog, 'redo'));
       },
 
       canUndo: () => {
-        const { bidHistory } = get();
-        return bidHistory.length > 0;
+        return getUndoableAction(get().eventLog) !== null;
       },
 
-      endAuction: () => {
-        set((state) => ({
-          tournament: state.tournament ? {
-            ...state.tournament,
-            isAuctionCompleted: true,
-          } : null,
-          auctionState: {
-            ...state.auctionState,
-            isActive: false,
-          },
-        }));
-
-        // Auto-save the completed tournament
-        setTimeout(() => {
-          get().saveTournament();
-        }, 100);
+      canRedo: () => {
+        return getRedoableAction(get().eventLog) !== null;
       },
 
-      getCurrentPlayer: () => {
-        const { tournament, auctionState } = get();
-        if (!tournament || tournament.currentPlayerIndex >= tournament.players.length) {
-          return null;
-        }
-
-        // Check if we have properly assigned captains
-        const captains = tournament.players.filter(p => p.isCaptain);
-        const hasCaptains = captains.length === tournament.numberOfTeams;
+      endAuction: () => {
+        const result = dispatch({ type: 'END' });
 
-        // If auto-advance is prevented (during shuffle), just return the player at current index
-        if (auctionState.preventAutoAdvance) {
-          const player = tournament.players[tournament.currentPlayerIndex];
-          if (player && !player.soldPrice && !player.isUnsold && (!hasCaptains || !player.isCaptain)) {
-            return player;
-          }
-          return null;
+        if (result.ok) {
+          // Auto-save the completed tournament
+          setTimeout(() => {
+            get().saveTournament();
+          }, 100);
         }
+        return result;
+      },
 
-        // Find the next player that hasn't been sold yet and is not a captain (if captains are being used)
-        for (let i = tournament.currentPlayerIndex; i < tournament.players.length; i++) {
-          const player = tournament.players[i];
-          if (!player.soldPrice && !player.isUnsold && (!hasCaptains || !player.isCaptain)) {
-            // Update the current index if we skipped players
-            if (i !== tournament.currentPlayerIndex) {
-              set((state) => ({
-                tournament: state.tournament ? {
-                  ...state.tournament,
-                  currentPlayerIndex: i,
-                } : null,
-              }));
-            }
-            return player;
-          }
-        }
+      getReplayedState: () => {
+        return replayEventLog(get().eventLog);
+      },
 
-        return null;
+      getCurrentPlayer: () => {
+        const { tournament, auctionState } = get();
+        if (!tournament) return null;
+        return getCurrentPlayer(tournament, auctionState);
       },
 
       getTeamById: (teamId) => {
@@ -721,55 +712,26 @@ export const useAuctionStore = create<AuctionStore>()(
 
       getEligibleTeams: () => {
         const { tournament, auctionState } = get();
-        const currentPlayer = get().getCurrentPlayer();
-        if (!tournament || !currentPlayer) return [];
-
-        return tournament.teams.filter(team => {
-          // Check if team has space for more players (hard constraint - check first)
-          if (team.players.length >= team.maxPlayers) return false;
-
-          // Check if team hasn't passed
-          if (auctionState.passedTeams.includes(team.id)) return false;
-
-          // Check if team has budget for minimum bid (only if they have space)
-          const minBid = auctionState.highestBid?.amount
-            ? auctionState.highestBid.amount + Number(get().settings.bidIncrement)
-            : currentPlayer.basePrice || tournament.settings.minimumBid;
-
-          if (team.remainingBudget < minBid) return false;
-
-          return true;
-        });
+        if (!tournament) return [];
+        return getEligibleTeams(tournament, auctionState);
       },
 
       getMaxBidForTeam: (teamId) => {
-        const { tournament } = get();
+        const { tournament, auctionState } = get();
         if (!tournament) return 0;
+        return getMaxBidForTeam(tournament, teamId, getCurrentPlayer(tournament, auctionState));
+      },
 
-        const team = tournament.teams.find(t => t.id === teamId);
-        if (!team) return 0;
-
-        const remainingSlots = team.maxPlayers - team.players.length;
-
-        // If this is the last slot, team can bid their entire remaining budget
-        if (remainingSlots <= 1) {
-          return team.remainingBudget;
-        }
-
-        // Calculate maximum bid: remaining budget minus minimum required for remaining slots
-        const minimumBid = tournament.settings.minimumBid;
-        const reserveForRemainingSlots = (remainingSlots - 1) * minimumBid;
-        const maxBid = team.remainingBudget - reserveForRemainingSlots;
-
-        // Ensure max bid is at least the minimum bid
-        return Math.max(maxBid, minimumBid);
+      getBidIncrement: (amount) => {
+        const { tournament, settings } = get();
+        if (!tournament) return settings.bidIncrement;
+        return getBidIncrement(tournament, amount);
       },
 
       areAllTeamsFull: () => {
         const { tournament } = get();
         if (!tournament) return false;
-
-        return tournament.teams.every(team => team.players.length >= team.maxPlayers);
+        return areAllTeamsFull(tournament);
       },
 
       clearStorage: () => {
@@ -779,7 +741,8 @@ export const useAuctionStore = create<AuctionStore>()(
           tournament: null,
           auctionState: initialAuctionState,
           settings: defaultSettings,
-          bidHistory: [],
+          proxyBids: [],
+          eventLog: emptyEventLog,
           savedTournaments, // Preserve saved tournaments
         });
       },
@@ -788,58 +751,51 @@ export const useAuctionStore = create<AuctionStore>()(
         set((state) => {
           if (!state.tournament) return state;
 
-          // Reset teams to original state but keep captains if they exist and are properly configured
+          // Retained players (captains included) stay with their teams through a restart
           const captains = state.tournament.players.filter(p => p.isCaptain);
           const hasCaptains = captains.length === state.tournament.numberOfTeams;
+          const isKept = (player: Player) => !!player.teamId && (player.isRetained || (player.isCaptain && hasCaptains));
+
+          const resetTeams = state.tournament.teams.map(team => {
+            const keptPlayers = team.players.filter(isKept).map(player => ({ ...player, isUnsold: false }));
+            const retentionCost = keptPlayers.reduce((total, player) => total + (player.soldPrice || 0), 0);
+            // Hand back any RTM cards spent in the auction being thrown away
+            const rtmCardsUsed = team.players.filter(p => p.acquiredViaRtm).length;
 
-          const resetTeams = state.tournament.teams.map((team, index) => {
-            if (hasCaptains) {
-              const captain = captains[index];
-              if (captain) {
-                // Keep captain in team - captains are free
-                const assignedCaptain = {
-                  ...captain,
-                  teamId: team.id,
-                  soldPrice: 0, // Captains are free
-                };
-                return {
-                  ...team,
-                  players: [assignedCaptain],
-                  remainingBudget: team.budget, // No budget deduction for captains
-                };
-              }
-            }
             return {
               ...team,
-              players: [],
-              remainingBudget: team.budget,
+              players: keptPlayers,
+              remainingBudget: team.budget - retentionCost,
+              rtmCards: team.rtmCards !== undefined ? team.rtmCards + rtmCardsUsed : undefined,
+              timeoutsUsed: undefined,
             };
           });
 
-          // Reset players to original state but keep captain assignments if captain functionality is active
+          // Reset everyone else to their pre-auction state
           const resetPlayers = state.tournament.players.map(player => {
-            if (player.isCaptain && hasCaptains) {
-              // Keep captain assignments only if we have proper captain functionality
-              const teamIndex = captains.findIndex(c => c.id === player.id);
-              if (teamIndex !== -1) {
-                return {
-                  ...player,
-                  teamId: state.tournament!.teams[teamIndex].id,
-                  soldPrice: 0, // Captains are free
-                  isUnsold: false,
-                };
-              }
+            if (isKept(player)) {
+              return { ...player, isUnsold: false };
             }
             return {
               ...player,
               soldPrice: undefined,
               teamId: undefined,
               isUnsold: false,
+              acquiredViaRtm: false,
+              basePrice: player.originalBasePrice ?? player.basePrice,
+              originalBasePrice: undefined,
+              soldInRound: undefined,
+              draftPick: undefined,
             };
           });
 
-          // Shuffle players again for new auction order
-          const shuffledPlayers = [...resetPlayers].sort(() => Math.random() - 0.5);
+          // Draw a new auction order from a fresh seed, keeping the sets together
+          const shuffleSeed = generateShuffleSeed();
+          const shuffledPlayers = orderPlayersBySet(
+            resetPlayers,
+            state.tournament.settings.setOrder,
+            createSeededRandom(shuffleSeed)
+          );
 
           // Use the tournament's configured bid increment
           const bidIncrement = state.tournament.settings.bidIncrement;
@@ -849,12 +805,20 @@ export const useAuctionStore = create<AuctionStore>()(
               ...state.tournament,
               teams: resetTeams,
               players: shuffledPlayers,
+              shuffleSeed,
               currentPlayerIndex: 0,
+              auctionRound: 0,
+              unsoldNominations: undefined,
+              acceleratedNominations: undefined,
+              nominationQueue: undefined,
+              draftSlot: undefined,
+              pause: undefined,
               isAuctionStarted: false,
               isAuctionCompleted: false,
             },
             auctionState: initialAuctionState,
-            bidHistory: [],
+              proxyBids: [],
+              eventLog: emptyEventLog,
             settings: {
               ...state.settings,
               bidIncrement: bidIncrement
@@ -865,10 +829,10 @@ export const useAuctionStore = create<AuctionStore>()(
 
       // Tournament History Functions
       saveTournament: () => {
-        const { tournament, auctionState } = get();
+        const { tournament, auctionState, eventLog } = get();
         if (!tournament || !tournament.isAuctionCompleted) return;
 
-        const soldPlayers = tournament.players.filter(p => p.soldPrice).length;
+        const soldPlayers = tournament.players.filter(p => p.soldPrice || p.draftPick).length;
         const unsoldPlayers = tournament.players.filter(p => p.isUnsold).length;
         const totalSpent = tournament.teams.reduce((total, team) =>
           total + (team.budget - team.remainingBudget), 0
@@ -886,6 +850,7 @@ export const useAuctionStore = create<AuctionStore>()(
           totalSpent,
           isCompleted: true,
           progress: 100,
+          eventLog: JSON.parse(JSON.stringify(eventLog)),
         };
 
         set((state) => ({
@@ -894,10 +859,10 @@ export const useAuctionStore = create<AuctionStore>()(
       },
 
       saveCurrentAuction: (name?: string) => {
-        const { tournament, auctionState } = get();
+        const { tournament, auctionState, eventLog } = get();
         if (!tournament) return null;
 
-        const soldPlayers = tournament.players.filter(p => p.soldPrice).length;
+        const soldPlayers = tournament.players.filter(p => p.soldPrice || p.draftPick).length;
         const unsoldPlayers = tournament.players.filter(p => p.isUnsold).length;
         const totalSpent = tournament.teams.reduce((total, team) =>
           total + (team.budget - team.remainingBudget), 0
@@ -922,6 +887,7 @@ export const useAuctionStore = create<AuctionStore>()(
           totalSpent,
           isCompleted: tournament.isAuctionCompleted,
           progress,
+          eventLog: JSON.parse(JSON.stringify(eventLog)),
         };
 
         set((state) => ({
@@ -947,7 +913,8 @@ export const useAuctionStore = create<AuctionStore>()(
         set((state) => ({
           tournament: savedTournament.tournament,
           auctionState: auctionStateToLoad,
-          bidHistory: [],
+          proxyBids: [],
+          eventLog: normalizeEventLog(savedTournament.eventLog),
           settings: {
             ...state.settings,
             bidIncrement: bidIncrement
@@ -995,10 +962,21 @@ export const useAuctionStore = create<AuctionStore>()(
           ),
         }));
       },
-    }),
+      };
+    },
     {
       name: 'auction-store',
-      version: 1,
+      version: 2,
+      // Version 2 keeps undo in the event log instead of in snapshot history
+      migrate: (persistedState, version) => {
+        const state = persistedState as AuctionStore;
+        if (version < 2) {
+          // The undo and redo snapshots are dropped; older logs become one action that can't be undone
+          const { tournament, auctionState, settings, eventLog, proxyBids, savedTournaments } = state;
+          return { tournament, auctionState, settings, eventLog: normalizeEventLog(eventLog), proxyBids, savedTournaments } as AuctionStore;
+        }
+        return state;
+      },
       storage: {
         getItem: (name) => {
           const str = localStorage.getItem(name);
@@ -1031,7 +1009,8 @@ export const useAuctionStore = create<AuctionStore>()(
         tournament: state.tournament,
         auctionState: state.auctionState,
         settings: state.settings,
-        bidHistory: state.bidHistory,
+        eventLog: state.eventLog,
+        proxyBids: state.proxyBids,
         savedTournaments: state.savedTournaments,
       }) as AuctionStore,
     }
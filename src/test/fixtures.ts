@@ -0,0 +1,55 @@
+import type { Player, Team, Tournament, TournamentSettings } from '../types';
+
+// Shared builders for the unit tests - each takes overrides for whatever a test cares about
+
+export const now = () => new Date('2025-01-01T10:00:00Z');
+
+export const makePlayer = (id: string, overrides: Partial<Player> = {}): Player => ({
+  id,
+  name: `Player ${id}`,
+  basePrice: 100,
+  role: 'Batsman',
+  ...overrides,
+});
+
+export const makeTeam = (id: string, overrides: Partial<Team> = {}): Team => ({
+  id,
+  name: `Team ${id}`,
+  budget: 1000,
+  remainingBudget: 1000,
+  players: [],
+  maxPlayers: 3,
+  ...overrides,
+});
+
+// Two teams of three and six players, not started yet. Settings are merged with the defaults.
+export const makeTournament = (
+  overrides: Omit<Partial<Tournament>, 'settings'> & { settings?: Partial<TournamentSettings> } = {}
+): Tournament => {
+  const { settings, ...rest } = overrides;
+
+  return {
+    id: 'tournament-1',
+    name: 'Test Auction',
+    numberOfTeams: 2,
+    playersPerTeam: 3,
+    teamBudget: 1000,
+    teams: [makeTeam('team-1'), makeTeam('team-2')],
+    players: ['p1', 'p2', 'p3', 'p4', 'p5', 'p6'].map(id => makePlayer(id)),
+    currentPlayerIndex: 0,
+    isAuctionStarted: false,
+    isAuctionCompleted: false,
+    ...rest,
+    settings: {
+      enableUnsoldPlayerReturn: false,
+      unsoldPlayerReturnRound: 0,
+      enableTimer: false,
+      timerDuration: 30,
+      minimumBid: 50,
+      bidIncrement: 10,
+      hidePricesInLiveView: false,
+      hideUnsoldStatusInLiveView: false,
+      ...settings,
+    },
+  };
+};
@@ -9,6 +9,17 @@ export interface Player {
   soldPrice?: number;
   teamId?: string;
   isCaptain?: boolean;
+  isOverseas?: boolean;
+  country?: string;
+  previousTeam?: string; // team name from last season, used for Right-to-Match
+  acquiredViaRtm?: boolean;
+  isRetained?: boolean; // kept by a team before the auction (captains included)
+  retainedBy?: string; // team name from the import, applied during the retention phase
+  retentionPrice?: number;
+  set?: string; // auction set, e.g. Marquee or Bowlers 1
+  originalBasePrice?: number; // base price before any unsold-round reduction
+  soldInRound?: number; // 0 for the main round, then the unsold round number
+  draftPick?: number; // overall pick number in a draft
 }
 
 export interface Team {
@@ -19,6 +30,8 @@ export interface Team {
   players: Player[];
   maxPlayers: number;
   maxForeignPlayers?: number;
+  rtmCards?: number; // Right-to-Match cards left
+  timeoutsUsed?: number; // strategic timeouts called so far
   logo?: string;
   primaryColor?: string;
   secondaryColor?: string;
@@ -37,17 +50,68 @@ export interface Tournament {
   isAuctionCompleted: boolean;
   constraints?: AuctionConstraints;
   settings: TournamentSettings;
+  shuffleSeed?: string; // seed the auction order is drawn from, so it can be reproduced
+  auctionRound?: number; // 0 for the main round, then each unsold round in turn
+  unsoldNominations?: Record<string, string[]>; // team id -> nominated player ids, while nominations are open
+  acceleratedNominations?: Record<string, string[]>; // team id -> picks, while accelerated nominations are open
+  nominationQueue?: Nomination[]; // accelerated mode: players still to come up, current one first
+  draftSlot?: number; // draft mode: position in the snake order of the next pick
+  pause?: AuctionPause; // set while the auction is paused
+}
+
+// An auction-wide pause, called by the auctioneer or as a team's strategic timeout
+export interface AuctionPause {
+  startedAt: Date;
+  teamId?: string; // the team whose timeout this is
+  endsAt?: Date; // timeouts run out by themselves; the auctioneer's pause lasts until resumed
+}
+
+// A player a team put forward in accelerated mode
+export interface Nomination {
+  playerId: string;
+  teamId: string;
 }
 
 export interface TournamentSettings {
   enableUnsoldPlayerReturn: boolean;
-  unsoldPlayerReturnRound: number;
+  unsoldPlayerReturnRound: number; // how many unsold rounds to run
+  unsoldRounds?: UnsoldRoundConfig[]; // per-round options, in order
   enableTimer: boolean;
   timerDuration: number; // in seconds: 30, 60, 90, 120
+  goingOnceAt?: number; // seconds left when the auctioneer calls "going once", 0 to skip
+  goingTwiceAt?: number; // seconds left when the auctioneer calls "going twice", 0 to skip
+  teamTimeouts?: number; // strategic timeouts each team may call per auction
+  teamTimeoutSeconds?: number;
   minimumBid: number; // minimum bid amount
-  bidIncrement: number; // bid increment amount
+  bidIncrement: number; // bid increment amount (used when no slabs are configured)
+  bidIncrementSlabs?: BidIncrementSlab[]; // increments that grow with the bid, in ascending order
   hidePricesInLiveView: boolean; // hide prices in shared live auction view
   hideUnsoldStatusInLiveView: boolean; // hide unsold player status in shared live auction view
+  maxRetentionsPerTeam?: number; // captains count as retentions
+  retentionPrice?: number; // default price charged for a retained player
+  setOrder?: string[]; // order the player sets are auctioned in
+  auctionFormat?: AuctionFormat; // open outcry unless set; a draft has no bidding at all
+  sealedBidTieBreak?: SealedBidTieBreak;
+  dutchStartMultiple?: number; // Dutch format: the price opens at this multiple of the base price
+}
+
+export type AuctionFormat = 'open' | 'sealed' | 'dutch' | 'draft';
+
+// Staged warning before the hammer falls on timer expiry
+export type HammerPhase = 'going-once' | 'going-twice';
+
+// How a tie for the highest sealed bid is settled
+export type SealedBidTieBreak = 'budget' | 'coin-toss' | 'rebid';
+
+export interface UnsoldRoundConfig {
+  basePriceReduction?: number; // percentage taken off the original base price
+  accelerated?: boolean; // only players the teams nominate come back
+}
+
+// Bids below `upTo` go up by `increment`; the last slab leaves `upTo` empty to cover everything above
+export interface BidIncrementSlab {
+  upTo?: number;
+  increment: number;
 }
 
 export interface AuctionConstraints {
@@ -64,13 +128,49 @@ export interface Bid {
   teamId: string;
   amount: number;
   timestamp: Date;
+  automatic?: boolean; // placed by a proxy bid, not by the team itself
+}
+
+// Standing instruction to bid on a team's behalf while its owner is away
+export interface ProxyBid {
+  id: string;
+  teamId: string;
+  maxAmount: number;
+  playerId?: string; // a specific player...
+  role?: PlayerRole; // ...or any player in this role
+}
+
+// A former team's chance to match the hammer price before the sale goes through
+export interface RtmOffer {
+  playerId: string;
+  teamId: string;
+  winningTeamId: string;
+  amount: number;
+}
+
+// Outcome of opening the sealed bids for a player
+export interface SealedBidReveal {
+  playerId: string;
+  bids: { teamId: string; amount: number }[]; // highest first
+  winningTeamId?: string;
+  tiedTeamIds?: string[]; // teams level at the top, when the tie was settled or sent to a re-bid
 }
 
 export interface AuctionState {
   currentBids: Bid[];
   highestBid?: Bid;
+  pendingRtm?: RtmOffer;
+  sealedBids?: Record<string, number>; // team id -> hidden bid, until the reveal
+  sealedReveal?: SealedBidReveal;
+  rebidTeamIds?: string[]; // only these teams may bid again after a tied reveal
+  dutchPrice?: number; // Dutch format: price on the clock, the opening price until the first drop
   passedTeams: string[];
-  timer: number;
+  timer: number; // seconds on the clock when it starts
+  timerDeadline?: number; // epoch ms when the hammer falls, unset while the clock is stopped
+  timerRemainingMs?: number; // shared copies only, in place of the deadline: ms on the clock at timerSyncedAt
+  timerSyncedAt?: number; // shared copies only: time of the sync by the sharing backend's clock
+  hammerPhase?: HammerPhase; // the auctioneer's call, moved along by the clock
+  hammerFellOn?: string; // player the clock just closed, until the auction screen moves on
   isActive: boolean;
   preventAutoAdvance?: boolean; // Flag to prevent getCurrentPlayer from auto-advancing
 }
@@ -94,6 +194,12 @@ export interface ExcelPlayerData {
   'Rating'?: number;
   'Image URL'?: string;
   'Captain'?: string;
+  'Country'?: string;
+  'Overseas'?: string;
+  'Previous Team'?: string;
+  'Retained By'?: string;
+  'Retention Price'?: number;
+  'Set'?: string;
 }
 
 export interface AuctionSettings {
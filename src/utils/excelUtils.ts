@@ -1,5 +1,6 @@
 import * as XLSX from 'xlsx';
-import type { Player, PlayerRole, ExcelPlayerData } from '../types';
+import type { Player, PlayerRole, ExcelPlayerData, HammerPhase, Tournament } from '../types';
+import { isDraft, type FeasibilityIssue, type RejectionReason } from '../engine/auctionEngine';
 
 export const readExcelFile = (file: File): Promise<ExcelPlayerData[]> => {
   return new Promise((resolve, reject) => {
@@ -31,6 +32,9 @@ export const readExcelFile = (file: File): Promise<ExcelPlayerData[]> => {
   });
 };
 
+// Players from any other country count as overseas when the Overseas column is left empty
+export const HOME_COUNTRY = 'India';
+
 export const validatePlayerData = (data: ExcelPlayerData[], minimumBid: number = 100, numberOfTeams: number = 4): {
   isValid: boolean;
   errors: string[];
@@ -140,6 +144,67 @@ export const validatePlayerData = (data: ExcelPlayerData[], minimumBid: number =
       }
     }
 
+    // Check country (optional)
+    let country: string | undefined;
+    if (row['Country'] !== undefined && row['Country'] !== null) {
+      const countryValue = row['Country']?.toString().trim();
+      if (countryValue) {
+        country = countryValue;
+      }
+    }
+
+    // Check overseas status (optional) - falls back to the country when not given
+    let isOverseas = !!country && country.toLowerCase() !== HOME_COUNTRY.toLowerCase();
+    if (row['Overseas'] !== undefined && row['Overseas'] !== null) {
+      const overseasValue = row['Overseas']?.toString().trim().toLowerCase();
+      if (overseasValue === 'yes' || overseasValue === 'true' || overseasValue === '1') {
+        isOverseas = true;
+      } else if (overseasValue === 'no' || overseasValue === 'false' || overseasValue === '0') {
+        isOverseas = false;
+      } else if (overseasValue) {
+        errors.push(`Row ${rowNumber}: Invalid overseas value "${row['Overseas']}". Must be yes or no`);
+        return;
+      }
+    }
+
+    // Check previous team (optional) - lets that team use a Right-to-Match card
+    let previousTeam: string | undefined;
+    if (row['Previous Team'] !== undefined && row['Previous Team'] !== null) {
+      const previousTeamValue = row['Previous Team']?.toString().trim();
+      if (previousTeamValue) {
+        previousTeam = previousTeamValue;
+      }
+    }
+
+    // Check retention (optional) - applied to the named team during the retention phase
+    let retainedBy: string | undefined;
+    if (row['Retained By'] !== undefined && row['Retained By'] !== null) {
+      const retainedByValue = row['Retained By']?.toString().trim();
+      if (retainedByValue) {
+        retainedBy = retainedByValue;
+      }
+    }
+
+    let retentionPrice: number | undefined;
+    const retentionPriceValue = row['Retention Price'];
+    if (retentionPriceValue !== undefined && retentionPriceValue !== null && String(retentionPriceValue).trim() !== '') {
+      const price = Number(retentionPriceValue);
+      if (isNaN(price) || price < 0) {
+        errors.push(`Row ${rowNumber}: Invalid retention price "${retentionPriceValue}". Must be a positive number`);
+        return;
+      }
+      retentionPrice = price;
+    }
+
+    // Check auction set (optional) - players are auctioned set by set
+    let set: string | undefined;
+    if (row['Set'] !== undefined && row['Set'] !== null) {
+      const setValue = row['Set']?.toString().trim();
+      if (setValue) {
+        set = setValue;
+      }
+    }
+
     // Create valid player
     const player: Player = {
       id: `player-${Date.now()}-${index}`,
@@ -149,6 +214,12 @@ export const validatePlayerData = (data: ExcelPlayerData[], minimumBid: number =
       rating,
       imageUrl,
       isCaptain,
+      isOverseas,
+      country,
+      previousTeam,
+      retainedBy,
+      retentionPrice,
+      set,
     };
 
     validPlayers.push(player);
@@ -186,6 +257,8 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Rating': 95,
       'Image URL': 'https://example.com/virat-kohli.jpg',
       'Captain': 'yes',
+      'Country': 'India',
+      'Overseas': 'no',
     },
     {
       'Player Name': 'Jasprit Bumrah',
@@ -193,6 +266,8 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Role': 'Bowler',
       'Rating': 92,
       'Image URL': 'https://example.com/jasprit-bumrah.jpg',
+      'Retained By': 'Mumbai Indians',
+      'Retention Price': 180,
     },
     {
       'Player Name': 'MS Dhoni',
@@ -221,6 +296,10 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Base Price': 160,
       'Role': 'Bowler',
       'Rating': 89,
+      'Country': 'Afghanistan',
+      'Overseas': 'yes',
+      'Previous Team': 'Gujarat Titans',
+      'Set': 'Marquee',
     },
     {
       'Player Name': 'KL Rahul',
@@ -293,6 +372,7 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Base Price': 120,
       'Role': 'Bowler',
       'Rating': 88,
+      'Country': 'New Zealand',
     },
     {
       'Player Name': 'Sanju Samson',
@@ -317,18 +397,21 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Base Price': 130,
       'Role': 'Bowler',
       'Rating': 90,
+      'Country': 'South Africa',
     },
     {
       'Player Name': 'Jos Buttler',
       'Base Price': 180,
       'Role': 'Wicket-Keeper',
       'Rating': 89,
+      'Country': 'England',
     },
     {
       'Player Name': 'Marcus Stoinis',
       'Base Price': 80,
       'Role': 'All-Rounder',
       'Rating': 74,
+      'Country': 'Australia',
     },
     {
       'Player Name': 'Shikhar Dhawan',
@@ -353,11 +436,13 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Base Price': 160,
       'Role': 'All-Rounder',
       'Rating': 85,
+      'Country': 'Australia',
     },
     // Examples with optional fields missing
     {
       'Player Name': 'Young Talent 1',
       'Role': 'Batsman',
+      'Set': 'Uncapped',
       // No base price or rating - will use defaults
     },
     {
@@ -419,6 +504,42 @@ export const generateSampleExcelFile = (minimumBid: number = 100): void => {
       'Description': 'Mark as captain (exactly one per team required)',
       'Example': 'yes',
     },
+    {
+      'Field': 'Country',
+      'Required': 'No',
+      'Description': 'Country the player represents (optional)',
+      'Example': 'Australia',
+    },
+    {
+      'Field': 'Overseas',
+      'Required': 'No',
+      'Description': `Counts toward the overseas quota (default: yes for any country other than ${HOME_COUNTRY})`,
+      'Example': 'yes',
+    },
+    {
+      'Field': 'Previous Team',
+      'Required': 'No',
+      'Description': 'Team the player was with last season - that team can use an RTM card to match the winning bid',
+      'Example': 'Mumbai Indians',
+    },
+    {
+      'Field': 'Retained By',
+      'Required': 'No',
+      'Description': 'Team that keeps the player before the auction (applied in the retention step)',
+      'Example': 'Mumbai Indians',
+    },
+    {
+      'Field': 'Retention Price',
+      'Required': 'No',
+      'Description': 'Amount deducted from the retaining team\'s budget (default: tournament retention price)',
+      'Example': '180',
+    },
+    {
+      'Field': 'Set',
+      'Required': 'No',
+      'Description': 'Auction set the player belongs to - sets are auctioned one after another and shuffled within',
+      'Example': 'Marquee',
+    },
     {},
     {
       'Field': 'NOTES:',
@@ -477,23 +598,105 @@ export const formatCurrency = (amount: number): string => {
   }
 };
 
+// Round a player was sold in: 0 is the main round, then each unsold round
+export const formatAuctionRound = (round: number): string => {
+  return round > 0 ? `Unsold Round ${round}` : 'Main Round';
+};
+
+export const formatHammerPhase = (phase: HammerPhase): string => {
+  return phase === 'going-twice' ? 'Going twice' : 'Going once';
+};
+
+const REJECTION_MESSAGES: Record<RejectionReason, string> = {
+  NO_TOURNAMENT: 'No tournament is loaded',
+  AUCTION_STARTED: 'The auction has already started',
+  AUCTION_NOT_ACTIVE: 'The auction is not running',
+  AUCTION_COMPLETED: 'The auction is over',
+  AUCTION_PAUSED: 'The auction is paused',
+  NOT_PAUSED: 'The auction is not paused',
+  NO_TIMEOUTS_LEFT: 'The team has no timeouts left',
+  WRONG_FORMAT: 'Not available in this auction format',
+  NO_CURRENT_PLAYER: 'No player is up for auction',
+  UNKNOWN_TEAM: 'Unknown team',
+  UNKNOWN_PLAYER: 'Unknown player',
+  PLAYER_UNAVAILABLE: 'The player is already taken',
+  RTM_PENDING: 'Waiting on a Right-to-Match decision',
+  NO_RTM_OFFER: 'There is no Right-to-Match offer open',
+  NO_BIDS: 'No bids have been placed',
+  BIDDING_CLOSED: 'Bidding on this player is closed',
+  ALREADY_HIGHEST_BIDDER: 'Already the highest bidder',
+  BELOW_MIN_INCREMENT: 'Bid is below the minimum increment',
+  EXCEEDS_BUDGET: 'Not enough budget left',
+  EXCEEDS_MAX_BID: 'Bid is above the maximum this team can spend',
+  SQUAD_FULL: 'The squad is full',
+  SQUAD_LIMIT: 'Would break the overseas or role limits',
+  TEAM_PASSED: 'The team has passed on this player',
+  NOT_ELIGIBLE: 'The team is not eligible right now',
+  NOMINATIONS_CLOSED: 'Nominations are closed',
+  NOT_ALLOWED: 'Not allowed right now',
+};
+
+export const formatRejectionReason = (reason: RejectionReason): string => REJECTION_MESSAGES[reason];
+
+export const formatFeasibilityIssue = (tournament: Tournament, issue: FeasibilityIssue): string => {
+  switch (issue.type) {
+    case 'POOL_TOO_SMALL':
+      return `${issue.shortfall} more player(s) are needed to fill every squad`;
+    case 'ROLE_SHORT':
+      return `Teams need ${issue.shortfall} more ${issue.role}(s) than are left`;
+    case 'BUDGET_SHORT': {
+      const teamName = tournament.teams.find(t => t.id === issue.teamId)?.name || 'Unknown Team';
+      return `${teamName} is ${formatCurrency(issue.shortfall)} short of filling its squad at base prices`;
+    }
+  }
+};
+
+const formatSoldRound = (player: Player): string => {
+  if (player.isRetained) return 'Retained';
+  return player.soldInRound !== undefined ? formatAuctionRound(player.soldInRound) : '';
+};
+
+// Pick a player was drafted with, in place of a price
+export const formatDraftPick = (player: Player): string => {
+  if (player.isRetained) return 'Retained';
+  return player.draftPick !== undefined ? `#${player.draftPick}` : '';
+};
+
 export const exportAuctionResults = (tournament: any): void => {
-  const teamResults = tournament.teams.map((team: any) => ({
-    'Team Name': team.name,
-    'Budget': formatCurrency(team.budget),
-    'Remaining Budget': formatCurrency(team.remainingBudget),
-    'Players Count': team.players.length,
-    'Total Spent': formatCurrency(team.budget - team.remainingBudget),
-  }));
+  // A draft has no money involved, so pick numbers stand in for prices
+  const draftMode = isDraft(tournament);
+  const getTeamName = (teamId: string): string | undefined => tournament.teams.find((t: any) => t.id === teamId)?.name;
+
+  const teamResults = tournament.teams.map((team: any) => draftMode
+    ? {
+        'Team Name': team.name,
+        'Players Count': team.players.length,
+      }
+    : {
+        'Team Name': team.name,
+        'Budget': formatCurrency(team.budget),
+        'Remaining Budget': formatCurrency(team.remainingBudget),
+        'Players Count': team.players.length,
+        'Total Spent': formatCurrency(team.budget - team.remainingBudget),
+      });
   
-  const playerResults = tournament.players.map((player: any) => ({
-    'Player Name': player.name,
-    'Role': player.role,
-    'Base Price': formatCurrency(player.basePrice),
-    'Sold Price': player.soldPrice ? formatCurrency(player.soldPrice) : 'Unsold',
-    'Team': player.teamId ? tournament.teams.find((t: any) => t.id === player.teamId)?.name : 'Unsold',
-    'Rating': player.rating || 'N/A',
-  }));
+  const playerResults = tournament.players.map((player: any) => draftMode
+    ? {
+        'Player Name': player.name,
+        'Role': player.role,
+        'Pick': formatDraftPick(player) || 'Undrafted',
+        'Team': player.teamId ? getTeamName(player.teamId) : 'Undrafted',
+        'Rating': player.rating || 'N/A',
+      }
+    : {
+        'Player Name': player.name,
+        'Role': player.role,
+        'Base Price': formatCurrency(player.originalBasePrice ?? player.basePrice),
+        'Sold Price': player.soldPrice ? formatCurrency(player.soldPrice) : 'Unsold',
+        'Team': player.teamId ? getTeamName(player.teamId) : 'Unsold',
+        'Round': formatSoldRound(player),
+        'Rating': player.rating || 'N/A',
+      });
   
   // Create workbook with multiple sheets
   const workbook = XLSX.utils.book_new();
@@ -506,13 +709,21 @@ export const exportAuctionResults = (tournament: any): void => {
   
   // Create detailed team sheets
   tournament.teams.forEach((team: any) => {
-    const teamPlayers = team.players.map((player: any) => ({
-      'Player Name': player.name,
-      'Role': player.role,
-      'Base Price': formatCurrency(player.basePrice),
-      'Sold Price': formatCurrency(player.soldPrice || 0),
-      'Rating': player.rating || 'N/A',
-    }));
+    const teamPlayers = team.players.map((player: any) => draftMode
+      ? {
+          'Player Name': player.name,
+          'Role': player.role,
+          'Pick': formatDraftPick(player),
+          'Rating': player.rating || 'N/A',
+        }
+      : {
+          'Player Name': player.name,
+          'Role': player.role,
+          'Base Price': formatCurrency(player.originalBasePrice ?? player.basePrice),
+          'Sold Price': formatCurrency(player.soldPrice || 0),
+          'Round': formatSoldRound(player),
+          'Rating': player.rating || 'N/A',
+        });
     
     if (teamPlayers.length > 0) {
       const teamPlayerSheet = XLSX.utils.json_to_sheet(teamPlayers);
@@ -521,6 +732,6 @@ export const exportAuctionResults = (tournament: any): void => {
   });
   
   // Download the file
-  const fileName = `${tournament.name.replace(/[^a-zA-Z0-9]/g, '_')}_auction_results.xlsx`;
+  const fileName = `${tournament.name.replace(/[^a-zA-Z0-9]/g, '_')}_${draftMode ? 'draft' : 'auction'}_results.xlsx`;
   XLSX.writeFile(workbook, fileName);
 };
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SHARING_TRANSPORT?: string;
+  readonly VITE_SHARING_RELAY_URL?: string;
+}